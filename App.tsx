@@ -1,26 +1,96 @@
-import React, { useState } from 'react';
-import { Search, Zap, Shield, Code, Hash, Users } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Search, Zap, Shield, Code, Hash, Users, PenTool, GitCompare, KeyRound } from 'lucide-react';
 import Homepage from './components/Homepage';
 import EventInspector from './components/EventInspector';
 import IdentifierDecoder from './components/IdentifierDecoder';
-import { ParsedResult } from './types/nostr';
+import IdentifierEncoder from './components/IdentifierEncoder';
+import Nip05Resolver from './components/Nip05Resolver';
+import InvalidIdentifier from './components/InvalidIdentifier';
+import BatchInspector from './components/BatchInspector';
+import EventComposer from './components/EventComposer';
+import EventCompare from './components/EventCompare';
+import KeyToolbox from './components/KeyToolbox';
+import NcryptsecDecoder from './components/NcryptsecDecoder';
+import HexDisambiguator from './components/HexDisambiguator';
+import { ParsedResult, DecodedIdentifier, NostrEvent } from './types/nostr';
+import { Route, routeFromParsedResult, routeToHash, routeToHistoryState, parseHash } from './utils/router';
+
+const NEUTRAL_HASH = '#/';
+
+interface HistoryState {
+  route: Route | null;
+  // Set when the view was opened from another one, so its back button can return there
+  drilldown: boolean;
+}
+
+function routeFromHistory(state: HistoryState | null): Route {
+  return state?.route ?? parseHash(window.location.hash);
+}
 
 function App() {
-  const [currentView, setCurrentView] = useState<'home' | 'inspect' | 'decode'>('home');
-  const [parsedResult, setParsedResult] = useState<ParsedResult | null>(null);
+  const [route, setRoute] = useState<Route>(() => routeFromHistory(window.history.state));
+
+  // Back/forward and manually edited URLs rebuild the view from the saved route, else from the hash
+  useEffect(() => {
+    const handlePopState = (event: PopStateEvent) => setRoute(routeFromHistory(event.state));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const navigate = (next: Route, drilldown = false) => {
+    setRoute(next);
+    // Views that cannot go in a URL (secrets, oversized events) get a neutral entry, so reload and back never show a stale view
+    const hash = routeToHash(next);
+    if (hash === null || hash !== window.location.hash) {
+      const state: HistoryState = { route: routeToHistoryState(next), drilldown };
+      try {
+        window.history.pushState(state, '', hash ?? NEUTRAL_HASH);
+      } catch {
+        // Browsers cap the size of history state; a huge batch falls back to the hash alone
+        window.history.pushState({ route: null, drilldown }, '', hash ?? NEUTRAL_HASH);
+      }
+    }
+  };
 
   const handleParsedResult = (result: ParsedResult) => {
-    setParsedResult(result);
-    if (result.type === 'event') {
-      setCurrentView('inspect');
+    navigate(routeFromParsedResult(result));
+  };
+
+  const openIdentifier = (identifier: DecodedIdentifier) => {
+    navigate({ view: 'decode', identifier });
+  };
+
+  const openEvent = (event: NostrEvent) => {
+    navigate({ view: 'inspect', event });
+  };
+
+  // Drilling into a referenced event from another view; back returns to that view
+  const inspectEvent = (event: NostrEvent) => {
+    navigate({ view: 'inspect', event }, true);
+  };
+
+  const goBack = () => {
+    if ((window.history.state as HistoryState | null)?.drilldown) {
+      window.history.back();
     } else {
-      setCurrentView('decode');
+      goHome();
     }
   };
 
+  const openEncoder = (identifier: DecodedIdentifier | null) => {
+    navigate({ view: 'encode', identifier });
+  };
+
+  const openCompare = (left: NostrEvent | null, right: NostrEvent | null) => {
+    navigate({ view: 'compare', left, right });
+  };
+
+  const openKeys = (secretKey: string | null) => {
+    navigate({ view: 'keys', secretKey });
+  };
+
   const goHome = () => {
-    setCurrentView('home');
-    setParsedResult(null);
+    navigate({ view: 'home' });
   };
 
   return (
@@ -54,6 +124,34 @@ function App() {
                 <Code className="h-4 w-4" />
                 <span>Decode</span>
               </div>
+              <button
+                onClick={() => openEncoder(null)}
+                className="flex items-center space-x-1 hover:text-blue-700 transition-colors"
+              >
+                <Code className="h-4 w-4" />
+                <span>Encode</span>
+              </button>
+              <button
+                onClick={() => navigate({ view: 'compose' })}
+                className="flex items-center space-x-1 hover:text-blue-700 transition-colors"
+              >
+                <PenTool className="h-4 w-4" />
+                <span>Compose</span>
+              </button>
+              <button
+                onClick={() => openCompare(null, null)}
+                className="flex items-center space-x-1 hover:text-blue-700 transition-colors"
+              >
+                <GitCompare className="h-4 w-4" />
+                <span>Compare</span>
+              </button>
+              <button
+                onClick={() => openKeys(null)}
+                className="flex items-center space-x-1 hover:text-blue-700 transition-colors"
+              >
+                <KeyRound className="h-4 w-4" />
+                <span>Keys</span>
+              </button>
               <div className="flex items-center space-x-1">
                 <Hash className="h-4 w-4" />
                 <span>Explore</span>
@@ -65,20 +163,106 @@ function App() {
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {currentView === 'home' && (
+        {route.view === 'home' && (
           <Homepage onParsedResult={handleParsedResult} />
         )}
         
-        {currentView === 'inspect' && parsedResult?.type === 'event' && (
+        {route.view === 'inspect' && (
           <EventInspector 
-            event={parsedResult.data} 
-            onBack={goHome}
+            event={route.event} 
+            onOpenIdentifier={openIdentifier}
+            onInspect={inspectEvent}
+            onCompare={event => openCompare(event, null)}
+            onBack={goBack}
           />
         )}
         
-        {currentView === 'decode' && parsedResult?.type === 'identifier' && (
+        {route.view === 'decode' && (
           <IdentifierDecoder 
-            identifier={parsedResult.data}
+            identifier={route.identifier}
+            onEncode={openEncoder}
+            onOpenEvent={openEvent}
+            onCompare={openCompare}
+            onOpenKeys={openKeys}
+            onOpenIdentifier={openIdentifier}
+            onBack={goHome}
+          />
+        )}
+
+        {route.view === 'invalid' && (
+          <InvalidIdentifier
+            result={route.result}
+            onBack={goHome}
+          />
+        )}
+
+        {route.view === 'ncryptsec' && (
+          <NcryptsecDecoder
+            value={route.value}
+            onOpenKeys={openKeys}
+            onBack={goHome}
+          />
+        )}
+
+        {route.view === 'hex' && (
+          <HexDisambiguator
+            input={route.input}
+            onOpenIdentifier={openIdentifier}
+            onOpenEvent={openEvent}
+            onOpenKeys={openKeys}
+            onBack={goHome}
+          />
+        )}
+
+        {route.view === 'nip05' && (
+          <Nip05Resolver
+            address={route.address}
+            onEncode={openEncoder}
+            onOpenEvent={openEvent}
+            onCompare={openCompare}
+            onBack={goHome}
+          />
+        )}
+
+        {route.view === 'batch' && (
+          <BatchInspector
+            batch={route.batch}
+            onInspect={inspectEvent}
+            onCompare={openCompare}
+            onBack={goHome}
+          />
+        )}
+
+        {route.view === 'compare' && (
+          <EventCompare
+            left={route.left}
+            right={route.right}
+            onChange={openCompare}
+            onInspect={openEvent}
+            onBack={goHome}
+          />
+        )}
+
+        {route.view === 'compose' && (
+          <EventComposer
+            onSigned={openEvent}
+            onBack={goHome}
+          />
+        )}
+
+        {route.view === 'keys' && (
+          <KeyToolbox
+            key={route.secretKey ?? ''}
+            initialSecret={route.secretKey}
+            onOpenIdentifier={openIdentifier}
+            onBack={goHome}
+          />
+        )}
+
+        {route.view === 'encode' && (
+          <IdentifierEncoder
+            initial={route.identifier}
+            onDecode={openIdentifier}
             onBack={goHome}
           />
         )}
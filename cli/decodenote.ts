@@ -0,0 +1,370 @@
+#!/usr/bin/env -S npx tsx
+import { readFileSync, existsSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { NostrEvent, DecodedIdentifier, ValidationResult, BatchParseError, IdentifierDecodeError, HexInput, KIND_NAMES } from '../types/nostr';
+import { parseInput, decodeBech32Strict, encodeBech32Identifier, validateEvent, formatTimestamp, computeEventId } from '../utils/nostr';
+import { resolveNip05, Nip05Resolution } from '../utils/nip05';
+import { decodeNcryptsec, Ncryptsec, KEY_SECURITY_LABELS } from '../utils/nip49';
+import { isNcryptsec } from '../utils/formats';
+import { possibleReadings, signatureParts } from '../utils/hex';
+
+const EXIT_OK = 0;
+const EXIT_INVALID = 1;
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage: decodenote <command> [options]
+
+Commands:
+  decode <bech32>            Decode an npub/nsec/note/nevent/nprofile/naddr/ncryptsec (nostr: prefix allowed)
+  encode <type> [fields]     Encode an identifier from hex fields
+                             --id, --pubkey, --author, --kind, --d, --relay (repeatable)
+  validate <file|->          Validate one event, a JSON array, JSONL or a relay dump
+  inspect <input|file|->     Parse any supported input and describe it
+                             (a name@domain address is resolved via NIP-05)
+
+Options:
+  --format <text|json>       Output format (default: text)
+  -h, --help                 Show this help
+
+Exit codes: 0 success, 1 invalid event, signature or NIP-05 lookup, 2 usage or parse error`;
+
+class UsageError extends Error {}
+
+interface CliOptions {
+  format: 'text' | 'json';
+  id?: string;
+  pubkey?: string;
+  author?: string;
+  kind?: string;
+  d?: string;
+  relay?: string[];
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseCliArgs(argv);
+
+  const [command, ...args] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return values.help ? EXIT_OK : EXIT_USAGE;
+  }
+  if (values.format !== 'text' && values.format !== 'json') {
+    throw new UsageError(`Unknown format: ${values.format}`);
+  }
+  const options = values as CliOptions;
+
+  switch (command) {
+    case 'decode':
+      return decodeCommand(args[0], options);
+    case 'encode':
+      return encodeCommand(args[0], options);
+    case 'validate':
+      return await validateCommand(args[0], options);
+    case 'inspect':
+      return await inspectCommand(args[0], options);
+    default:
+      throw new UsageError(`Unknown command: ${command}`);
+  }
+}
+
+function parseCliArgs(argv: string[]) {
+  try {
+    return parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        format: { type: 'string', default: 'text' },
+        id: { type: 'string' },
+        pubkey: { type: 'string' },
+        author: { type: 'string' },
+        kind: { type: 'string' },
+        d: { type: 'string' },
+        relay: { type: 'string', multiple: true },
+        help: { type: 'boolean', short: 'h' }
+      }
+    });
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+}
+
+function decodeCommand(input: string | undefined, options: CliOptions): number {
+  if (!input) throw new UsageError('decode requires a bech32 identifier');
+
+  const value = input.trim().replace(/^nostr:/i, '');
+  if (isNcryptsec(value)) return ncryptsecCommand(value, options);
+
+  const { identifier, error } = decodeBech32Strict(value);
+  if (!identifier) {
+    console.error(`Unable to decode ${input}: ${describeDecodeError(error)}`);
+    return EXIT_USAGE;
+  }
+
+  output(options, identifier, () => describeIdentifier(identifier));
+  return EXIT_OK;
+}
+
+// Only the envelope is shown; decrypting would need the password on the command line
+function ncryptsecCommand(value: string, options: CliOptions): number {
+  let payload: Ncryptsec;
+  try {
+    payload = decodeNcryptsec(value);
+  } catch (error) {
+    console.error((error as Error).message);
+    return EXIT_USAGE;
+  }
+
+  output(options, { type: 'ncryptsec', data: payload }, () => [
+    'Type      ncryptsec',
+    `Version   ${payload.version}`,
+    `Log N     ${payload.logN}`,
+    `Salt      ${payload.salt}`,
+    `Nonce     ${payload.nonce}`,
+    `Security  ${payload.keySecurity} - ${KEY_SECURITY_LABELS[payload.keySecurity] ?? 'Unknown value'}`,
+    `Cipher    ${payload.ciphertext}`
+  ].join('\n'));
+  return EXIT_OK;
+}
+
+function encodeCommand(type: string | undefined, options: CliOptions): number {
+  const types: DecodedIdentifier['type'][] = ['npub', 'nsec', 'note', 'nevent', 'nprofile', 'naddr'];
+  if (!type || !types.includes(type as DecodedIdentifier['type'])) {
+    throw new UsageError(`encode requires a type: ${types.join(', ')}`);
+  }
+
+  const identifier: DecodedIdentifier = {
+    type: type as DecodedIdentifier['type'],
+    data: {
+      id: options.id,
+      pubkey: options.pubkey,
+      author: options.author,
+      kind: options.kind !== undefined ? Number(options.kind) : undefined,
+      dTag: options.d,
+      relays: options.relay
+    }
+  };
+
+  let encoded: string;
+  try {
+    encoded = encodeBech32Identifier(identifier);
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+
+  output(options, { encoded, uri: `nostr:${encoded}` }, () => encoded);
+  return EXIT_OK;
+}
+
+async function validateCommand(source: string | undefined, options: CliOptions): Promise<number> {
+  const { events, errors } = readEvents(readSource(source));
+  const results = await Promise.all(events.map(validateEvent));
+  const invalid = results.filter(r => !r.isValid).length;
+
+  output(
+    options,
+    {
+      total: events.length,
+      valid: events.length - invalid,
+      invalid,
+      errors,
+      results: events.map((event, i) => ({ id: event.id, kind: event.kind, ...summarizeValidation(results[i]) }))
+    },
+    () => [
+      ...events.map((event, i) => describeValidation(event, results[i])),
+      `${events.length - invalid}/${events.length} valid`
+    ].join('\n')
+  );
+
+  // Skipped lines mean the input was not what the pipeline expected, even if every parsed event is valid
+  if (errors.length > 0) {
+    reportParseErrors(errors);
+    return EXIT_USAGE;
+  }
+  return invalid > 0 ? EXIT_INVALID : EXIT_OK;
+}
+
+async function inspectCommand(source: string | undefined, options: CliOptions): Promise<number> {
+  const raw = source && source !== '-' && !existsSync(source) ? source : readSource(source);
+  const parsed = parseInput(raw);
+  if (!parsed) {
+    console.error('Unable to parse input');
+    return EXIT_USAGE;
+  }
+
+  if (parsed.type === 'identifier') {
+    output(options, parsed, () => describeIdentifier(parsed.data));
+    return EXIT_OK;
+  }
+
+  if (parsed.type === 'invalid_identifier') {
+    console.error(`Unable to decode ${parsed.data.input}: ${describeDecodeError(parsed.data.error)}`);
+    return EXIT_USAGE;
+  }
+
+  if (parsed.type === 'ncryptsec') {
+    return ncryptsecCommand(parsed.data, options);
+  }
+
+  if (parsed.type === 'nip05') {
+    let resolution: Nip05Resolution;
+    try {
+      resolution = await resolveNip05(parsed.data);
+    } catch (error) {
+      console.error(`Cannot resolve ${parsed.data}: ${(error as Error).message}`);
+      return EXIT_INVALID;
+    }
+    const identifier: DecodedIdentifier = { type: 'nprofile', data: { pubkey: resolution.pubkey, relays: resolution.relays } };
+    const nprofile = encodeBech32Identifier(identifier);
+    output(
+      options,
+      { type: 'nip05', address: resolution.address, nprofile, data: identifier.data },
+      () => [`NIP-05    ${resolution.address}`, `Nprofile  ${nprofile}`, describeIdentifier(identifier)].join('\n')
+    );
+    return EXIT_OK;
+  }
+
+  if (parsed.type === 'hex') {
+    const description = await describeHex(parsed.data);
+    output(options, { type: 'hex', ...description.json }, () => description.text);
+    return EXIT_OK;
+  }
+
+  const events = parsed.type === 'event' ? [parsed.data] : parsed.data.events;
+  const results = await Promise.all(events.map(validateEvent));
+
+  output(
+    options,
+    events.map((event, i) => ({ event, validation: summarizeValidation(results[i]) })),
+    () => events.map((event, i) => describeEvent(event, results[i])).join('\n\n')
+  );
+
+  if (parsed.type === 'batch' && parsed.data.errors.length > 0) {
+    reportParseErrors(parsed.data.errors);
+    return EXIT_USAGE;
+  }
+  return results.some(r => !r.isValid) ? EXIT_INVALID : EXIT_OK;
+}
+
+function readSource(source: string | undefined): string {
+  if (!source) throw new UsageError('Missing input: pass a file path or - for stdin');
+  try {
+    return readFileSync(source === '-' ? 0 : source, 'utf8');
+  } catch (error) {
+    throw new UsageError(`Cannot read ${source}: ${(error as Error).message}`);
+  }
+}
+
+function readEvents(raw: string): { events: NostrEvent[]; errors: BatchParseError[] } {
+  const parsed = parseInput(raw);
+  if (parsed?.type === 'event') return { events: [parsed.data], errors: [] };
+  if (parsed?.type === 'batch') return { events: parsed.data.events, errors: parsed.data.errors };
+  throw new UsageError('Input does not contain any Nostr events');
+}
+
+function reportParseErrors(errors: BatchParseError[]): void {
+  errors.forEach(error => console.error(`Line ${error.line}: ${error.message}`));
+  console.error(`${errors.length} line(s) could not be parsed`);
+}
+
+function summarizeValidation(result: ValidationResult) {
+  return {
+    isValid: result.isValid,
+    idMatch: result.idMatch,
+    sigValid: result.sigValid,
+    computedId: result.computedId,
+    issues: result.issues
+  };
+}
+
+function describeValidation(event: NostrEvent, result: ValidationResult): string {
+  if (result.isValid) return `✓ ${event.id}`;
+  return [`✗ ${event.id}`, ...result.issues.map(issue => `    ${issue.code}: ${issue.message}`)].join('\n');
+}
+
+function describeEvent(event: NostrEvent, result: ValidationResult): string {
+  const lines = [
+    `Event     ${event.id}`,
+    `Kind      ${event.kind} - ${KIND_NAMES[event.kind] || 'Unknown'}`,
+    `Author    ${event.pubkey}`,
+    `Created   ${formatTimestamp(event.created_at).absolute} (${event.created_at})`,
+    `Tags      ${event.tags.length}`,
+    `Content   ${event.content.length > 80 ? event.content.slice(0, 77) + '...' : event.content}`,
+    `Status    ${result.isValid ? 'valid' : 'INVALID'}`
+  ];
+  if (!result.idMatch && result.computedId) lines.push(`Computed  ${result.computedId}`);
+  result.issues.forEach(issue => lines.push(`  ${issue.code}: ${issue.message}`));
+  return lines.join('\n');
+}
+
+function describeIdentifier(identifier: DecodedIdentifier): string {
+  const { data } = identifier;
+  const lines = [`Type      ${identifier.type}`];
+  if (data.id) lines.push(`Event ID  ${data.id}`);
+  if (data.pubkey) lines.push(`${identifier.type === 'nsec' ? 'Secret   ' : 'Pubkey   '} ${data.pubkey}`);
+  if (data.author) lines.push(`Author    ${data.author}`);
+  if (data.kind !== undefined) lines.push(`Kind      ${data.kind}`);
+  if (data.dTag !== undefined) lines.push(`D-Tag     ${data.dTag}`);
+  (data.relays || []).forEach(relay => lines.push(`Relay     ${relay}`));
+  return lines.join('\n');
+}
+
+function describeDecodeError(error: IdentifierDecodeError | null): string {
+  if (!error) return 'unknown error';
+  return `${error.code}: ${error.message}`;
+}
+
+// Offline only: the web view also asks relays which reading of a 32-byte value is right
+async function describeHex(input: HexInput): Promise<{ json: Record<string, unknown>; text: string }> {
+  switch (input.type) {
+    case 'key': {
+      const readings = possibleReadings(input.hex);
+      const note = encodeBech32Identifier({ type: 'note', data: { id: input.hex } });
+      const npub = readings.pubkey ? encodeBech32Identifier({ type: 'npub', data: { pubkey: input.hex } }) : null;
+      const lines = ['Type      32-byte hex (event id, pubkey or secret key)', `As note   ${note}`];
+      lines.push(npub ? `As npub   ${npub}` : 'As npub   not a valid public key');
+      if (!readings.secret_key) lines.push('As nsec   outside the secret key range');
+      return { json: { kind: 'key', hex: input.hex, readings, note, npub }, text: lines.join('\n') };
+    }
+
+    case 'signature': {
+      const parts = signatureParts(input.hex);
+      return {
+        json: { kind: 'signature', hex: input.hex, ...parts },
+        text: [
+          'Type      64-byte hex (Schnorr signature)',
+          `R         ${parts.r}`,
+          `S         ${parts.s}`,
+          `Range     ${parts.inRange ? 'ok' : 'r or s out of range'}`
+        ].join('\n')
+      };
+    }
+
+    case 'serialized_event': {
+      const id = await computeEventId(input.event);
+      return {
+        json: { kind: 'serialized_event', hex: input.hex, event: input.event, canonical: input.canonical, id },
+        text: [
+          'Type      hex-encoded NIP-01 serialization',
+          `Event ID  ${id}${input.canonical ? '' : ' (input is not canonical; its own hash differs)'}`,
+          `Kind      ${input.event.kind} - ${KIND_NAMES[input.event.kind] || 'Unknown'}`,
+          `Author    ${input.event.pubkey}`,
+          `Created   ${formatTimestamp(input.event.created_at).absolute} (${input.event.created_at})`,
+          `Tags      ${input.event.tags.length}`
+        ].join('\n')
+      };
+    }
+  }
+}
+
+function output(options: CliOptions, json: unknown, text: () => string): void {
+  console.log(options.format === 'json' ? JSON.stringify(json, null, 2) : text());
+}
+
+main(process.argv.slice(2))
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch(error => {
+    console.error(error instanceof UsageError ? `${error.message}\n\n${USAGE}` : error);
+    process.exitCode = EXIT_USAGE;
+  });
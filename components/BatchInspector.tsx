@@ -0,0 +1,292 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ArrowLeft, Layers, Shield, AlertTriangle, RefreshCw, ChevronUp, ChevronDown, Filter, GitCompare } from 'lucide-react';
+import { NostrEvent, BatchParseResult, ValidationResult, KIND_NAMES } from '../types/nostr';
+import { validateEvent, formatTimestamp, truncateId } from '../utils/nostr';
+
+interface BatchInspectorProps {
+  batch: BatchParseResult;
+  onInspect: (event: NostrEvent) => void;
+  onCompare: (left: NostrEvent, right: NostrEvent | null) => void;
+  onBack: () => void;
+}
+
+type SortKey = 'created_at' | 'kind' | 'pubkey' | 'validity';
+type ValidityFilter = 'all' | 'valid' | 'invalid';
+
+interface BatchRow {
+  event: NostrEvent;
+  validation: ValidationResult | null;
+}
+
+export default function BatchInspector({ batch, onInspect, onCompare, onBack }: BatchInspectorProps) {
+  const [rows, setRows] = useState<BatchRow[]>(batch.events.map(event => ({ event, validation: null })));
+  const [validatedCount, setValidatedCount] = useState(0);
+  const [sortKey, setSortKey] = useState<SortKey>('created_at');
+  const [sortDesc, setSortDesc] = useState(true);
+  const [kindFilter, setKindFilter] = useState<string>('all');
+  const [authorFilter, setAuthorFilter] = useState('');
+  const [validityFilter, setValidityFilter] = useState<ValidityFilter>('all');
+  const [since, setSince] = useState('');
+  const [until, setUntil] = useState('');
+  // Up to two events picked for comparison, in the order they were picked
+  const [compareSelection, setCompareSelection] = useState<NostrEvent[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function validateAll() {
+      const results: BatchRow[] = batch.events.map(event => ({ event, validation: null }));
+      setRows(results);
+      setValidatedCount(0);
+
+      for (let i = 0; i < batch.events.length; i++) {
+        if (cancelled) return;
+        results[i] = { event: batch.events[i], validation: await validateEvent(batch.events[i]) };
+        // Flush progress in chunks so large dumps don't re-render per event
+        if (i % 25 === 24 || i === batch.events.length - 1) {
+          setRows([...results]);
+          setValidatedCount(i + 1);
+        }
+      }
+    }
+    setCompareSelection([]);
+    validateAll();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [batch]);
+
+  const kinds = useMemo(
+    () => Array.from(new Set(batch.events.map(e => e.kind))).sort((a, b) => a - b),
+    [batch]
+  );
+
+  const validCount = rows.filter(r => r.validation?.isValid).length;
+  const invalidCount = rows.filter(r => r.validation && !r.validation.isValid).length;
+
+  const visibleRows = useMemo(() => {
+    const sinceTs = since ? Math.floor(new Date(since).getTime() / 1000) : null;
+    const untilTs = until ? Math.floor(new Date(until).getTime() / 1000) : null;
+    const author = authorFilter.trim().toLowerCase();
+
+    const filtered = rows.filter(({ event, validation }) => {
+      if (kindFilter !== 'all' && event.kind !== Number(kindFilter)) return false;
+      if (author && !event.pubkey.toLowerCase().startsWith(author)) return false;
+      if (validityFilter === 'valid' && !validation?.isValid) return false;
+      if (validityFilter === 'invalid' && (!validation || validation.isValid)) return false;
+      if (sinceTs !== null && event.created_at < sinceTs) return false;
+      if (untilTs !== null && event.created_at > untilTs) return false;
+      return true;
+    });
+
+    const validityRank = (row: BatchRow) => (row.validation ? (row.validation.isValid ? 2 : 1) : 0);
+    const compare = (a: BatchRow, b: BatchRow): number => {
+      switch (sortKey) {
+        case 'kind':
+          return a.event.kind - b.event.kind;
+        case 'pubkey':
+          return a.event.pubkey.localeCompare(b.event.pubkey);
+        case 'validity':
+          return validityRank(a) - validityRank(b);
+        default:
+          return a.event.created_at - b.event.created_at;
+      }
+    };
+
+    return filtered.sort((a, b) => (sortDesc ? -compare(a, b) : compare(a, b)));
+  }, [rows, kindFilter, authorFilter, validityFilter, since, until, sortKey, sortDesc]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDesc(!sortDesc);
+    } else {
+      setSortKey(key);
+      setSortDesc(key === 'created_at');
+    }
+  };
+
+  const toggleCompare = (event: NostrEvent) => {
+    setCompareSelection(compareSelection.includes(event)
+      ? compareSelection.filter(e => e !== event)
+      : [...compareSelection, event].slice(-2));
+  };
+
+  const SortHeader = ({ label, column }: { label: string; column: SortKey }) => (
+    <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+      <button onClick={() => handleSort(column)} className="flex items-center space-x-1 hover:text-slate-900 transition-colors">
+        <span>{label}</span>
+        {sortKey === column && (sortDesc ? <ChevronDown className="h-3 w-3" /> : <ChevronUp className="h-3 w-3" />)}
+      </button>
+    </th>
+  );
+
+  const inputClass = 'px-3 py-2 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <button
+          onClick={onBack}
+          className="flex items-center space-x-2 text-slate-600 hover:text-slate-900 transition-colors group"
+        >
+          <ArrowLeft className="h-5 w-5 group-hover:-translate-x-1 transition-transform" />
+          <span>Back to Input</span>
+        </button>
+
+        {validatedCount < batch.events.length ? (
+          <div className="flex items-center space-x-2 text-slate-500">
+            <RefreshCw className="h-4 w-4 animate-spin" />
+            <span className="text-sm">Validating {validatedCount}/{batch.events.length}...</span>
+          </div>
+        ) : (
+          <div className="flex items-center space-x-2">
+            <div className="flex items-center space-x-1 px-3 py-1 rounded-full text-sm font-medium bg-emerald-100 text-emerald-700">
+              <Shield className="h-4 w-4" />
+              <span>{validCount} valid</span>
+            </div>
+            {invalidCount > 0 && (
+              <div className="flex items-center space-x-1 px-3 py-1 rounded-full text-sm font-medium bg-red-100 text-red-700">
+                <AlertTriangle className="h-4 w-4" />
+                <span>{invalidCount} invalid</span>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Batch Summary */}
+      <div className="bg-white/80 backdrop-blur-sm border border-slate-200 rounded-xl p-6 space-y-4">
+        <h2 className="text-2xl font-bold text-slate-900 flex items-center space-x-3">
+          <Layers className="h-6 w-6 text-blue-600" />
+          <span>Batch Inspection ({batch.events.length} events)</span>
+        </h2>
+
+        {(batch.errors.length > 0 || batch.duplicates > 0) && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-700 space-y-1">
+            {batch.duplicates > 0 && <div>{batch.duplicates} duplicate event{batch.duplicates === 1 ? '' : 's'} skipped</div>}
+            {batch.errors.slice(0, 10).map((error, index) => (
+              <div key={index}>Line {error.line}: {error.message}</div>
+            ))}
+            {batch.errors.length > 10 && <div>... and {batch.errors.length - 10} more unparseable lines</div>}
+          </div>
+        )}
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-end gap-3">
+          <Filter className="h-4 w-4 text-slate-400 mb-3" />
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Kind</label>
+            <select value={kindFilter} onChange={(e) => setKindFilter(e.target.value)} className={inputClass}>
+              <option value="all">All kinds</option>
+              {kinds.map(kind => (
+                <option key={kind} value={kind}>
+                  {kind} - {KIND_NAMES[kind] || 'Unknown'}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Author (hex prefix)</label>
+            <input value={authorFilter} onChange={(e) => setAuthorFilter(e.target.value)} className={`${inputClass} font-mono`} placeholder="e.g. 3bf0c63f" />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Validity</label>
+            <select value={validityFilter} onChange={(e) => setValidityFilter(e.target.value as ValidityFilter)} className={inputClass}>
+              <option value="all">All</option>
+              <option value="valid">Valid only</option>
+              <option value="invalid">Invalid only</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Since</label>
+            <input type="datetime-local" value={since} onChange={(e) => setSince(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Until</label>
+            <input type="datetime-local" value={until} onChange={(e) => setUntil(e.target.value)} className={inputClass} />
+          </div>
+          <div className="text-sm text-slate-500 mb-2">
+            Showing {visibleRows.length} of {rows.length}
+          </div>
+          <button
+            onClick={() => onCompare(compareSelection[0], compareSelection[1])}
+            disabled={compareSelection.length !== 2}
+            className="flex items-center space-x-2 px-3 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <GitCompare className="h-4 w-4" />
+            <span>Compare selected ({compareSelection.length}/2)</span>
+          </button>
+        </div>
+
+        {/* Event Table */}
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-slate-200">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-4 py-3"></th>
+                <SortHeader label="Status" column="validity" />
+                <SortHeader label="Kind" column="kind" />
+                <SortHeader label="Author" column="pubkey" />
+                <SortHeader label="Created" column="created_at" />
+                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Event ID
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Content
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-slate-200">
+              {visibleRows.map(({ event, validation }, index) => (
+                <tr
+                  key={`${event.id}-${index}`}
+                  onClick={() => onInspect(event)}
+                  className="hover:bg-slate-50 transition-colors cursor-pointer"
+                >
+                  <td className="px-4 py-3" onClick={(e) => e.stopPropagation()}>
+                    <input
+                      type="checkbox"
+                      checked={compareSelection.includes(event)}
+                      onChange={() => toggleCompare(event)}
+                      title="Select for comparison"
+                    />
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    {!validation ? (
+                      <RefreshCw className="h-4 w-4 text-slate-400 animate-spin" />
+                    ) : validation.isValid ? (
+                      <Shield className="h-4 w-4 text-emerald-600" />
+                    ) : (
+                      <span className="flex items-center space-x-1 text-red-600" title={validation.errors.join('\n')}>
+                        <AlertTriangle className="h-4 w-4" />
+                        <span className="text-xs">{validation.issues[0]?.code}</span>
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm">
+                    <code className="bg-blue-100 text-blue-800 px-2 py-1 rounded font-mono">{event.kind}</code>
+                    <span className="ml-2 text-slate-600">{KIND_NAMES[event.kind] || ''}</span>
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <code className="text-xs font-mono text-slate-700">{truncateId(event.pubkey, 6)}</code>
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-600" title={formatTimestamp(event.created_at).absolute}>
+                    {formatTimestamp(event.created_at).relative}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <code className="text-xs font-mono text-slate-700">{truncateId(event.id, 6)}</code>
+                  </td>
+                  <td className="px-4 py-3 text-sm text-slate-600 max-w-xs truncate">
+                    {event.content.slice(0, 120)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
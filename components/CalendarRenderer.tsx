@@ -0,0 +1,296 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { Calendar, Clock, MapPin, Users, Download, RefreshCw, CheckCircle, XCircle, HelpCircle, Link, Hash } from 'lucide-react';
+import { NostrEvent, DecodedIdentifier } from '../types/nostr';
+import { tagToIdentifier } from '../utils/content';
+import { queryRelays, getDefaultRelays } from '../utils/relay';
+import {
+  parseCalendarEvent,
+  parseRsvp,
+  summarizeRsvps,
+  calendarCoordinate,
+  calendarEventToIcs,
+  formatCalendarTime,
+  formatCalendarDate,
+  isValidTimeZone,
+  RsvpSummary
+} from '../utils/calendar';
+import PubkeyLabel from './PubkeyLabel';
+
+interface CalendarRendererProps {
+  event: NostrEvent;
+  onOpenIdentifier: (identifier: DecodedIdentifier) => void;
+}
+
+export default function CalendarRenderer({ event, onOpenIdentifier }: CalendarRendererProps) {
+  const [rsvps, setRsvps] = useState<RsvpSummary | null>(null);
+  const [isLoadingRsvps, setIsLoadingRsvps] = useState(false);
+  const [rsvpError, setRsvpError] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+
+  const info = useMemo(() => parseCalendarEvent(event), [event]);
+  const isEvent = event.kind === 31922 || event.kind === 31923;
+  const isCalendar = event.kind === 31924;
+  const isRsvp = event.kind === 31925;
+
+  useEffect(() => {
+    setRsvps(null);
+    setRsvpError('');
+    return () => abortRef.current?.abort();
+  }, [event]);
+
+  const localZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  const handleLoadRsvps = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsLoadingRsvps(true);
+    setRsvpError('');
+
+    try {
+      const { events } = await queryRelays(
+        getDefaultRelays(),
+        [{ kinds: [31925], '#a': [calendarCoordinate(event)] }],
+        { signal: controller.signal }
+      );
+      if (!controller.signal.aborted) setRsvps(summarizeRsvps(events));
+    } catch (err) {
+      setRsvpError((err as Error).message);
+    } finally {
+      setIsLoadingRsvps(false);
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([calendarEventToIcs(event)], { type: 'text/calendar' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${(info.title || info.dTag || 'event').replace(/[^\w-]+/g, '_')}.ics`;
+    link.click();
+    // Revoking right away can cancel the download before the browser has read the blob
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const renderReference = (tag: string[], key: number) => {
+    const identifier = tagToIdentifier(tag);
+    return (
+      <button
+        key={key}
+        onClick={() => identifier && onOpenIdentifier(identifier)}
+        disabled={!identifier}
+        className="flex items-center space-x-2 w-full text-left bg-slate-50 hover:bg-slate-100 px-3 py-2 rounded-lg transition-colors disabled:cursor-not-allowed"
+      >
+        <Link className="h-4 w-4 text-purple-600 flex-shrink-0" />
+        <code className="text-xs font-mono text-slate-700 truncate">{tag[1]}</code>
+      </button>
+    );
+  };
+
+  const renderTime = (value: string | number | null, tzid?: string) => {
+    if (value === null) return <span className="text-slate-500 italic">Not set or invalid</span>;
+    if (typeof value === 'string') return <span>{formatCalendarDate(value)}</span>;
+
+    const showLocal = !tzid || tzid !== localZone;
+    return (
+      <div>
+        <div>{formatCalendarTime(value, tzid)}</div>
+        {tzid && !isValidTimeZone(tzid) && (
+          <div className="text-xs text-amber-600">Unknown time zone "{tzid}"</div>
+        )}
+        {showLocal && <div className="text-xs text-slate-500">{formatCalendarTime(value)} (your time)</div>}
+      </div>
+    );
+  };
+
+  const RsvpList = ({ label, pubkeys, icon, color }: { label: string; pubkeys: string[]; icon: React.ReactNode; color: string }) => (
+    <div className={`rounded-lg p-3 ${color}`}>
+      <div className="flex items-center space-x-2 font-medium text-sm mb-2">
+        {icon}
+        <span>{label} ({pubkeys.length})</span>
+      </div>
+      <div className="space-y-1">
+        {pubkeys.slice(0, 10).map(pubkey => (
+          <button
+            key={pubkey}
+            onClick={() => onOpenIdentifier({ type: 'npub', data: { pubkey } })}
+            className="block"
+          >
+            <PubkeyLabel pubkey={pubkey} />
+          </button>
+        ))}
+        {pubkeys.length > 10 && <div className="text-xs">and {pubkeys.length - 10} more</div>}
+      </div>
+    </div>
+  );
+
+  if (isRsvp) {
+    const rsvp = parseRsvp(event);
+    const target = event.tags.find(t => t[0] === 'a');
+    return (
+      <div className="bg-white/80 backdrop-blur-sm border border-slate-200 rounded-xl p-6 space-y-4">
+        <h3 className="text-xl font-bold text-slate-900 flex items-center space-x-3">
+          <Calendar className="h-5 w-5 text-blue-600" />
+          <span>Calendar RSVP</span>
+        </h3>
+        <div className="flex items-center space-x-3">
+          <span className={`px-3 py-1 rounded-full text-sm font-medium ${
+            rsvp.status === 'accepted' ? 'bg-emerald-100 text-emerald-700'
+              : rsvp.status === 'declined' ? 'bg-red-100 text-red-700'
+                : rsvp.status === 'tentative' ? 'bg-amber-100 text-amber-700'
+                  : 'bg-slate-100 text-slate-600'
+          }`}>
+            {rsvp.status || 'Missing or unknown status'}
+          </span>
+          {rsvp.freeBusy && <span className="text-sm text-slate-600">Marked as {rsvp.freeBusy}</span>}
+        </div>
+        {target ? (
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Calendar Event</label>
+            {renderReference(target, 0)}
+          </div>
+        ) : (
+          <div className="text-sm text-red-600">RSVP is missing the required a tag</div>
+        )}
+      </div>
+    );
+  }
+
+  if (isCalendar) {
+    const members = event.tags.filter(t => t[0] === 'a' && t[1]);
+    return (
+      <div className="bg-white/80 backdrop-blur-sm border border-slate-200 rounded-xl p-6 space-y-4">
+        <h3 className="text-xl font-bold text-slate-900 flex items-center space-x-3">
+          <Calendar className="h-5 w-5 text-blue-600" />
+          <span>{info.title || 'Untitled Calendar'}</span>
+        </h3>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">Events ({members.length})</label>
+          {members.length > 0 ? (
+            <div className="space-y-2">{members.map(renderReference)}</div>
+          ) : (
+            <div className="text-slate-500 italic text-sm">No events in this calendar</div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm border border-slate-200 rounded-xl p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xl font-bold text-slate-900 flex items-center space-x-3">
+          <Calendar className="h-5 w-5 text-blue-600" />
+          <span>{info.title || 'Untitled Event'}</span>
+        </h3>
+        {isEvent && (
+          <button
+            onClick={handleExport}
+            disabled={info.start === null}
+            className="flex items-center space-x-2 px-3 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download className="h-4 w-4" />
+            <span>Export .ics</span>
+          </button>
+        )}
+      </div>
+
+      {info.image && (
+        <img src={info.image} alt={info.title} loading="lazy" className="w-full max-h-64 object-cover rounded-lg" />
+      )}
+      {info.summary && <p className="text-slate-700">{info.summary}</p>}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-slate-800">
+        <div className="flex items-start space-x-2">
+          <Clock className="h-4 w-4 text-slate-500 mt-0.5" />
+          <div>
+            <div className="text-xs text-slate-500 mb-1">Starts {info.dateBased ? '(all day)' : ''}</div>
+            {renderTime(info.start, info.startTzid)}
+          </div>
+        </div>
+        <div className="flex items-start space-x-2">
+          <Clock className="h-4 w-4 text-slate-500 mt-0.5" />
+          <div>
+            <div className="text-xs text-slate-500 mb-1">Ends {info.dateBased ? '(exclusive)' : ''}</div>
+            {info.end === null && event.tags.every(t => t[0] !== 'end')
+              ? <span className="text-slate-500 italic">No end given</span>
+              : renderTime(info.end, info.endTzid)}
+          </div>
+        </div>
+        {info.locations.length > 0 && (
+          <div className="flex items-start space-x-2 md:col-span-2">
+            <MapPin className="h-4 w-4 text-slate-500 mt-0.5" />
+            <div>
+              {info.locations.map((location, index) => <div key={index}>{location}</div>)}
+              {info.geohash && <div className="text-xs text-slate-500 font-mono">geohash {info.geohash}</div>}
+            </div>
+          </div>
+        )}
+        {info.hashtags.length > 0 && (
+          <div className="flex items-center flex-wrap gap-2 md:col-span-2">
+            <Hash className="h-4 w-4 text-slate-500" />
+            {info.hashtags.map(tag => (
+              <span key={tag} className="bg-blue-100 text-blue-700 px-2 py-0.5 rounded-full text-xs font-medium">#{tag}</span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {info.participants.length > 0 && (
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2 flex items-center space-x-2">
+            <Users className="h-4 w-4" />
+            <span>Participants ({info.participants.length})</span>
+          </label>
+          <div className="space-y-1">
+            {info.participants.map((participant, index) => (
+              <button
+                key={index}
+                onClick={() => onOpenIdentifier({ type: 'nprofile', data: { pubkey: participant.pubkey, relays: participant.relay ? [participant.relay] : undefined } })}
+                className="flex items-center space-x-2 text-sm hover:underline"
+              >
+                <PubkeyLabel pubkey={participant.pubkey} />
+                {participant.role && <span className="text-xs bg-slate-100 px-2 py-0.5 rounded text-slate-600">{participant.role}</span>}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {info.calendars.length > 0 && (
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">Calendars ({info.calendars.length})</label>
+          <div className="space-y-2">
+            {event.tags.filter(t => t[0] === 'a' && t[1]?.startsWith('31924:')).map(renderReference)}
+          </div>
+        </div>
+      )}
+
+      {/* RSVPs */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <label className="block text-sm font-medium text-slate-700">RSVPs</label>
+          <button
+            onClick={handleLoadRsvps}
+            disabled={isLoadingRsvps}
+            className="flex items-center space-x-2 px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className={`h-4 w-4 ${isLoadingRsvps ? 'animate-spin' : ''}`} />
+            <span>{rsvps ? 'Reload RSVPs' : 'Load RSVPs from relays'}</span>
+          </button>
+        </div>
+        {rsvpError && <div className="text-sm text-red-600">{rsvpError}</div>}
+        {rsvps && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <RsvpList label="Accepted" pubkeys={rsvps.accepted} icon={<CheckCircle className="h-4 w-4" />} color="bg-emerald-50 text-emerald-800" />
+            <RsvpList label="Tentative" pubkeys={rsvps.tentative} icon={<HelpCircle className="h-4 w-4" />} color="bg-amber-50 text-amber-800" />
+            <RsvpList label="Declined" pubkeys={rsvps.declined} icon={<XCircle className="h-4 w-4" />} color="bg-red-50 text-red-800" />
+          </div>
+        )}
+        {rsvps && rsvps.unknown.length > 0 && (
+          <div className="text-xs text-slate-500">{rsvps.unknown.length} RSVP{rsvps.unknown.length === 1 ? '' : 's'} with a missing or unknown status</div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import React, { useMemo } from 'react';
+import { ExternalLink, Link, CheckCircle, AlertTriangle } from 'lucide-react';
+import { DecodedIdentifier } from '../types/nostr';
+import { truncateId } from '../utils/nostr';
+import { tokenizeContent, crossCheckReferences, ContentToken } from '../utils/content';
+
+interface ContentRendererProps {
+  content: string;
+  tags: string[][];
+  onOpenIdentifier: (identifier: DecodedIdentifier) => void;
+}
+
+export default function ContentRenderer({ content, tags, onOpenIdentifier }: ContentRendererProps) {
+  const tokens = useMemo(() => tokenizeContent(content, tags), [content, tags]);
+  const checks = useMemo(() => crossCheckReferences(tokens, tags), [tokens, tags]);
+
+  const renderChip = (label: string, identifier: DecodedIdentifier | null, key: number, colorClass: string) => (
+    <button
+      key={key}
+      onClick={() => identifier && onOpenIdentifier(identifier)}
+      disabled={!identifier}
+      title={identifier ? 'Open in decoder' : 'Could not decode reference'}
+      className={`inline-flex items-center space-x-1 px-2 py-0.5 mx-0.5 rounded-full text-xs font-mono align-baseline transition-colors disabled:cursor-not-allowed ${colorClass}`}
+    >
+      <Link className="h-3 w-3" />
+      <span>{label}</span>
+    </button>
+  );
+
+  const renderToken = (token: ContentToken, index: number) => {
+    switch (token.type) {
+      case 'nostr': {
+        const type = token.identifier?.type || 'invalid';
+        const color = token.identifier ? 'bg-purple-100 text-purple-700 hover:bg-purple-200' : 'bg-red-100 text-red-700';
+        return renderChip(`${type}:${truncateId(token.text.slice(6), 6)}`, token.identifier, index, color);
+      }
+      case 'index-mention': {
+        const color = token.identifier ? 'bg-amber-100 text-amber-700 hover:bg-amber-200' : 'bg-red-100 text-red-700';
+        const label = token.tag ? `${token.text} → ${token.tag[0]}:${truncateId(token.tag[1] || '', 6)}` : `${token.text} (missing tag)`;
+        return renderChip(label, token.identifier, index, color);
+      }
+      case 'url':
+        return (
+          <a
+            key={index}
+            href={token.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-blue-600 hover:text-blue-800 underline break-all"
+          >
+            {token.text}
+            <ExternalLink className="h-3 w-3 inline ml-0.5" />
+          </a>
+        );
+      case 'hashtag':
+        return (
+          <span key={index} className="bg-blue-100 text-blue-700 px-1.5 py-0.5 rounded-full text-xs font-medium">
+            {token.text}
+          </span>
+        );
+      default:
+        return <React.Fragment key={index}>{token.text}</React.Fragment>;
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="bg-slate-50 p-4 rounded-lg">
+        <div className="whitespace-pre-wrap text-sm text-slate-800 font-medium leading-relaxed break-words">
+          {tokens.map(renderToken)}
+        </div>
+      </div>
+
+      {checks.length > 0 && (
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">
+            References ({checks.length})
+          </label>
+          <div className="space-y-1">
+            {checks.map((check, index) => (
+              <div key={index} className="flex items-center space-x-2 text-xs">
+                {check.tagged ? (
+                  <CheckCircle className="h-3 w-3 text-emerald-600 flex-shrink-0" />
+                ) : (
+                  <AlertTriangle className="h-3 w-3 text-amber-600 flex-shrink-0" />
+                )}
+                <code className="font-mono text-slate-700">{truncateId(check.text, 12)}</code>
+                <span className={check.tagged ? 'text-emerald-700' : 'text-amber-700'}>
+                  {check.tagged
+                    ? `tagged as "${check.matchedTag}"`
+                    : check.expectedTag
+                      ? `no matching "${check.expectedTag}" tag`
+                      : 'unresolvable reference'}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { Lock, Unlock, Eye, EyeOff, AlertCircle, CheckCircle, XCircle, ArrowRight } from 'lucide-react';
+import { NostrEvent, KIND_NAMES } from '../types/nostr';
+import { truncateId } from '../utils/nostr';
+import { parseSecretKey } from '../utils/signer';
+import { decryptContent, getCounterparty, unwrapGiftWrap, unwrapSeal, DecryptionResult, UnwrapLayer } from '../utils/encryption';
+
+interface DecryptionPanelProps {
+  event: NostrEvent;
+  onInspect: (event: NostrEvent) => void;
+}
+
+export default function DecryptionPanel({ event, onInspect }: DecryptionPanelProps) {
+  const [secretInput, setSecretInput] = useState('');
+  const [showSecret, setShowSecret] = useState(false);
+  const [peerOverride, setPeerOverride] = useState('');
+  const [result, setResult] = useState<DecryptionResult | null>(null);
+  const [layers, setLayers] = useState<UnwrapLayer[]>([]);
+  const [error, setError] = useState('');
+  const [isDecrypting, setIsDecrypting] = useState(false);
+
+  const isWrapped = event.kind === 1059 || event.kind === 13;
+
+  const handleDecrypt = async () => {
+    setError('');
+    setResult(null);
+    setLayers([]);
+    setIsDecrypting(true);
+
+    try {
+      const secretKey = parseSecretKey(secretInput);
+      if (event.kind === 1059) {
+        setLayers(await unwrapGiftWrap(event, secretKey));
+      } else if (event.kind === 13) {
+        setLayers(await unwrapSeal(event, secretKey));
+      } else {
+        const peer = peerOverride.trim() || getCounterparty(event, secretKey);
+        setResult(await decryptContent(event.content, secretKey, peer));
+      }
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm border border-slate-200 rounded-xl p-6 space-y-4">
+      <h3 className="text-xl font-bold text-slate-900 flex items-center space-x-3">
+        <Lock className="h-5 w-5 text-blue-600" />
+        <span>{isWrapped ? 'Unwrap Encrypted Layers' : 'Decrypt Content'}</span>
+      </h3>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">Recipient Secret Key (nsec or hex)</label>
+          <div className="flex items-center space-x-2">
+            <input
+              type={showSecret ? 'text' : 'password'}
+              value={secretInput}
+              onChange={(e) => setSecretInput(e.target.value)}
+              className="w-full px-3 py-2 border border-slate-200 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              autoComplete="off"
+              spellCheck={false}
+            />
+            <button
+              onClick={() => setShowSecret(!showSecret)}
+              className="p-2 text-slate-500 hover:text-slate-700 transition-colors"
+            >
+              {showSecret ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+            </button>
+          </div>
+        </div>
+
+        {!isWrapped && (
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Counterparty Pubkey (optional)</label>
+            <input
+              value={peerOverride}
+              onChange={(e) => setPeerOverride(e.target.value)}
+              placeholder="Defaults to the author, or the p tag if you are the author"
+              className="w-full px-3 py-2 border border-slate-200 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+        )}
+      </div>
+
+      <button
+        onClick={handleDecrypt}
+        disabled={isDecrypting || !secretInput.trim()}
+        className="flex items-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Unlock className="h-4 w-4" />
+        <span>{isDecrypting ? 'Decrypting...' : 'Decrypt'}</span>
+      </button>
+
+      {error && (
+        <div className="flex items-center space-x-2 text-red-600 bg-red-50 px-4 py-3 rounded-lg">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          <span className="text-sm">{error}</span>
+        </div>
+      )}
+
+      {result && <DecryptionOutput result={result} />}
+
+      {layers.length > 0 && (
+        <div className="space-y-3">
+          {layers.map((layer, index) => (
+            <div key={index} className="border border-slate-200 rounded-lg p-4 space-y-3" style={{ marginLeft: `${index * 1.5}rem` }}>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <span className="font-semibold text-slate-900">{layer.label}</span>
+                  <code className="bg-blue-100 text-blue-800 px-2 py-1 rounded text-xs font-mono">
+                    kind {layer.event.kind} - {KIND_NAMES[layer.event.kind] || 'Unknown'}
+                  </code>
+                  <code className="text-xs font-mono text-slate-500">{truncateId(layer.event.pubkey, 6)}</code>
+                </div>
+                {index > 0 && (
+                  <button
+                    onClick={() => onInspect(layer.event)}
+                    className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800 transition-colors group"
+                  >
+                    <span>Inspect</span>
+                    <ArrowRight className="h-4 w-4 group-hover:translate-x-1 transition-transform" />
+                  </button>
+                )}
+              </div>
+
+              {layer.notes.map((note, noteIndex) => (
+                <div key={noteIndex} className="text-xs text-slate-600">• {note}</div>
+              ))}
+
+              {layer.decryption && <DecryptionOutput result={layer.decryption} hidePlaintext />}
+
+              {layer.label === 'Rumor' && (
+                <div className="bg-slate-50 p-3 rounded-lg">
+                  <pre className="whitespace-pre-wrap text-sm text-slate-800">{layer.event.content}</pre>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function DecryptionOutput({ result, hidePlaintext }: { result: DecryptionResult; hidePlaintext?: boolean }) {
+  const diagnostics = result.diagnostics;
+
+  const Flag = ({ ok, label }: { ok: boolean | null; label: string }) => (
+    <span className={`flex items-center space-x-1 ${ok === null ? 'text-slate-400' : ok ? 'text-emerald-600' : 'text-red-600'}`}>
+      {ok ? <CheckCircle className="h-3 w-3" /> : <XCircle className="h-3 w-3" />}
+      <span>{label}</span>
+    </span>
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-3 text-xs">
+        <span className="bg-slate-100 text-slate-700 px-2 py-1 rounded font-medium uppercase">{result.scheme}</span>
+        {diagnostics && (
+          <>
+            <span className="text-slate-600">version {diagnostics.version ?? '?'}</span>
+            <Flag ok={diagnostics.macValid} label="MAC" />
+            <Flag ok={diagnostics.paddingValid} label="Padding" />
+            {diagnostics.declaredLength !== null && (
+              <span className="text-slate-600">
+                {diagnostics.declaredLength} bytes in {diagnostics.paddedLength} padded
+                {diagnostics.expectedPaddedLength !== null && ` (expected ${diagnostics.expectedPaddedLength})`}
+              </span>
+            )}
+            {diagnostics.nonce && <code className="font-mono text-slate-500">nonce {truncateId(diagnostics.nonce, 6)}</code>}
+          </>
+        )}
+      </div>
+
+      {result.error && (
+        <div className="text-sm text-red-600">{result.error}</div>
+      )}
+
+      {result.plaintext !== null && !hidePlaintext && (
+        <div className="bg-slate-50 p-4 rounded-lg">
+          <pre className="whitespace-pre-wrap text-sm text-slate-800 font-medium leading-relaxed">{result.plaintext}</pre>
+        </div>
+      )}
+    </div>
+  );
+}
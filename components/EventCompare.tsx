@@ -0,0 +1,358 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { ArrowLeft, GitCompare, ArrowLeftRight, Clock, Tag, FileText, Eye, AlertCircle, CheckCircle } from 'lucide-react';
+import { NostrEvent, KIND_NAMES } from '../types/nostr';
+import { parseInput, formatTimestamp, truncateId } from '../utils/nostr';
+import { compareEvents, LineDiff, JsonKeyDiff } from '../utils/diff';
+
+interface EventCompareProps {
+  left: NostrEvent | null;
+  right: NostrEvent | null;
+  onChange: (left: NostrEvent | null, right: NostrEvent | null) => void;
+  onInspect: (event: NostrEvent) => void;
+  onBack: () => void;
+}
+
+type Side = 'left' | 'right';
+
+interface SideBySideRow {
+  left?: LineDiff;
+  right?: LineDiff;
+}
+
+const JSON_STATUS_STYLES: Record<JsonKeyDiff['status'], string> = {
+  added: 'bg-emerald-50',
+  removed: 'bg-red-50',
+  changed: 'bg-amber-50',
+  unchanged: ''
+};
+
+export default function EventCompare({ left, right, onChange, onInspect, onBack }: EventCompareProps) {
+  const [inputs, setInputs] = useState<Record<Side, string>>({ left: '', right: '' });
+  const [errors, setErrors] = useState<Record<Side, string>>({ left: '', right: '' });
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  useEffect(() => {
+    setInputs({
+      left: left ? JSON.stringify(left, null, 2) : '',
+      right: right ? JSON.stringify(right, null, 2) : ''
+    });
+    setErrors({ left: '', right: '' });
+  }, [left, right]);
+
+  const comparison = useMemo(() => (left && right ? compareEvents(left, right) : null), [left, right]);
+
+  const handleLoad = (side: Side) => {
+    const parsed = parseInput(inputs[side]);
+    if (parsed?.type !== 'event') {
+      setErrors({ ...errors, [side]: 'Paste a single event as JSON' });
+      return;
+    }
+    setErrors({ ...errors, [side]: '' });
+    onChange(side === 'left' ? parsed.data : left, side === 'right' ? parsed.data : right);
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-slate-200 rounded-lg text-xs font-mono resize-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all duration-200';
+
+  const renderInput = (side: Side, event: NostrEvent | null) => (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-slate-700">{side === 'left' ? 'Left (A)' : 'Right (B)'}</label>
+        {event && (
+          <button
+            onClick={() => onInspect(event)}
+            className="flex items-center space-x-1 text-xs text-blue-600 hover:text-blue-800 transition-colors"
+          >
+            <Eye className="h-3 w-3" />
+            <span>Inspect</span>
+          </button>
+        )}
+      </div>
+      <textarea
+        value={inputs[side]}
+        onChange={(e) => setInputs({ ...inputs, [side]: e.target.value })}
+        className={inputClass}
+        rows={8}
+        placeholder='{"id": "...", "pubkey": "...", ...}'
+        spellCheck={false}
+      />
+      <div className="flex items-center justify-between">
+        {errors[side] ? (
+          <div className="flex items-center space-x-1 text-red-600 text-xs">
+            <AlertCircle className="h-3 w-3" />
+            <span>{errors[side]}</span>
+          </div>
+        ) : <span />}
+        <button
+          onClick={() => handleLoad(side)}
+          disabled={!inputs[side].trim()}
+          className="px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Load
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderLine = (line: LineDiff | undefined, side: Side) => {
+    if (!line) return <td className="bg-slate-50" colSpan={2} />;
+    const style = line.status === 'added' ? 'bg-emerald-50 text-emerald-900' : line.status === 'removed' ? 'bg-red-50 text-red-900' : 'text-slate-700';
+    return (
+      <>
+        <td className="px-2 py-0.5 text-right text-slate-400 select-none align-top w-10">
+          {side === 'left' ? line.leftLine : line.rightLine}
+        </td>
+        <td className={`px-2 py-0.5 whitespace-pre-wrap break-all align-top ${style}`}>{line.text || ' '}</td>
+      </>
+    );
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <button
+          onClick={onBack}
+          className="flex items-center space-x-2 text-slate-600 hover:text-slate-900 transition-colors group"
+        >
+          <ArrowLeft className="h-5 w-5 group-hover:-translate-x-1 transition-transform" />
+          <span>Back to Input</span>
+        </button>
+
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => onChange(right, left)}
+            disabled={!left && !right}
+            className="flex items-center space-x-2 px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <ArrowLeftRight className="h-4 w-4" />
+            <span>Swap</span>
+          </button>
+          <div className="flex items-center space-x-2 px-3 py-1 rounded-full text-sm font-medium bg-blue-100 text-blue-700">
+            <GitCompare className="h-4 w-4" />
+            <span>COMPARE</span>
+          </div>
+        </div>
+      </div>
+
+      {/* Inputs */}
+      <div className="bg-white/80 backdrop-blur-sm border border-slate-200 rounded-xl p-6 space-y-6">
+        <h2 className="text-2xl font-bold text-slate-900 flex items-center space-x-3">
+          <GitCompare className="h-6 w-6 text-blue-600" />
+          <span>Compare Events</span>
+        </h2>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {renderInput('left', left)}
+          {renderInput('right', right)}
+        </div>
+      </div>
+
+      {left && right && comparison && (
+        <>
+          {/* Summary */}
+          <div className="bg-white/80 backdrop-blur-sm border border-slate-200 rounded-xl p-6 space-y-4">
+            <h3 className="text-xl font-bold text-slate-900 flex items-center space-x-3">
+              <Clock className="h-5 w-5 text-blue-600" />
+              <span>Summary</span>
+            </h3>
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-slate-500 uppercase tracking-wider">
+                    <th className="py-2 pr-4"></th>
+                    <th className="py-2 pr-4">A</th>
+                    <th className="py-2">B</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  <tr>
+                    <td className="py-2 pr-4 text-slate-500">Event ID</td>
+                    <td className="py-2 pr-4 font-mono text-xs">{truncateId(left.id, 10)}</td>
+                    <td className="py-2 font-mono text-xs">{truncateId(right.id, 10)}</td>
+                  </tr>
+                  <tr>
+                    <td className="py-2 pr-4 text-slate-500">Kind</td>
+                    <td className="py-2 pr-4">{left.kind} - {KIND_NAMES[left.kind] || 'Unknown'}</td>
+                    <td className={`py-2 ${left.kind !== right.kind ? 'text-amber-700 font-medium' : ''}`}>{right.kind} - {KIND_NAMES[right.kind] || 'Unknown'}</td>
+                  </tr>
+                  <tr>
+                    <td className="py-2 pr-4 text-slate-500">Author</td>
+                    <td className="py-2 pr-4 font-mono text-xs">{truncateId(left.pubkey, 10)}</td>
+                    <td className={`py-2 font-mono text-xs ${left.pubkey !== right.pubkey ? 'text-amber-700' : ''}`}>{truncateId(right.pubkey, 10)}</td>
+                  </tr>
+                  <tr>
+                    <td className="py-2 pr-4 text-slate-500">Created</td>
+                    <td className="py-2 pr-4">{formatTimestamp(left.created_at).absolute}</td>
+                    <td className="py-2">{formatTimestamp(right.created_at).absolute}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+
+            <div className="space-y-2 text-sm">
+              <div className="text-slate-700">
+                {comparison.sameId
+                  ? 'Both sides are the same event.'
+                  : comparison.createdAtDelta === 0
+                    ? 'Both events have the same created_at.'
+                    : `${comparison.createdAtDelta > 0 ? 'B' : 'A'} is newer by ${formatDuration(Math.abs(comparison.createdAtDelta))}.`}
+              </div>
+              {comparison.sameCoordinate ? (
+                <div className="flex items-start space-x-2 text-emerald-700">
+                  <CheckCircle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+                  <span>
+                    Same replaceable coordinate <code className="font-mono text-xs break-all">{comparison.leftCoordinate}</code>
+                    {comparison.winner && `; relays keep ${comparison.winner === 'left' ? 'A' : 'B'}`}
+                    {comparison.winner && left.created_at === right.created_at && ' (lowest id on a created_at tie)'}
+                  </span>
+                </div>
+              ) : (
+                <div className="flex items-start space-x-2 text-slate-600">
+                  <AlertCircle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+                  <span>
+                    {comparison.leftCoordinate || comparison.rightCoordinate
+                      ? 'Different replaceable coordinates; these are not versions of the same event'
+                      : 'Neither event is replaceable; both are kept by relays'}
+                  </span>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Tags */}
+          <div className="bg-white/80 backdrop-blur-sm border border-slate-200 rounded-xl p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-xl font-bold text-slate-900 flex items-center space-x-3">
+                <Tag className="h-5 w-5 text-blue-600" />
+                <span>Tags</span>
+              </h3>
+              <span className="text-sm text-slate-600">
+                <span className="text-emerald-700">+{comparison.tags.added.length}</span>{' '}
+                <span className="text-red-700">−{comparison.tags.removed.length}</span>{' '}
+                <span>{comparison.tags.unchanged} unchanged</span>
+              </span>
+            </div>
+
+            {comparison.tags.added.length + comparison.tags.removed.length === 0 ? (
+              <div className="text-sm text-slate-500 italic">Both events have the same tags</div>
+            ) : (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {(['removed', 'added'] as const).map(status => (
+                  <div key={status} className="space-y-1">
+                    <div className="text-xs font-medium text-slate-500 uppercase tracking-wide">
+                      {status === 'added' ? 'Only in B' : 'Only in A'} ({comparison.tags[status].length})
+                      {summarizeTagNames(comparison.tags[status]) && ` · ${summarizeTagNames(comparison.tags[status])}`}
+                    </div>
+                    {comparison.tags[status].map((tag, index) => (
+                      <div
+                        key={index}
+                        className={`px-3 py-1 rounded font-mono text-xs break-all ${status === 'added' ? 'bg-emerald-50 text-emerald-900' : 'bg-red-50 text-red-900'}`}
+                      >
+                        {status === 'added' ? '+ ' : '− '}{JSON.stringify(tag)}
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Content */}
+          <div className="bg-white/80 backdrop-blur-sm border border-slate-200 rounded-xl p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-xl font-bold text-slate-900 flex items-center space-x-3">
+                <FileText className="h-5 w-5 text-blue-600" />
+                <span>Content</span>
+              </h3>
+              {comparison.content.type === 'json' && (
+                <label className="flex items-center space-x-2 text-sm text-slate-600">
+                  <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} />
+                  <span>Show unchanged keys</span>
+                </label>
+              )}
+            </div>
+
+            {comparison.content.type === 'json' ? (
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-slate-500 uppercase tracking-wider">
+                      <th className="py-2 px-2">Key</th>
+                      <th className="py-2 px-2">A</th>
+                      <th className="py-2 px-2">B</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {comparison.content.entries
+                      .filter(entry => showUnchanged || entry.status !== 'unchanged')
+                      .map(entry => (
+                        <tr key={entry.key} className={JSON_STATUS_STYLES[entry.status]}>
+                          <td className="py-2 px-2 font-mono text-xs font-medium align-top">{entry.key}</td>
+                          <td className="py-2 px-2 font-mono text-xs break-all align-top text-slate-700">{entry.before ?? '—'}</td>
+                          <td className="py-2 px-2 font-mono text-xs break-all align-top text-slate-700">{entry.after ?? '—'}</td>
+                        </tr>
+                      ))}
+                  </tbody>
+                </table>
+                {comparison.content.entries.every(entry => entry.status === 'unchanged') && (
+                  <div className="text-sm text-slate-500 italic mt-2">All keys are unchanged</div>
+                )}
+              </div>
+            ) : left.content === right.content ? (
+              <div className="text-sm text-slate-500 italic">Content is identical</div>
+            ) : (
+              <div className="overflow-x-auto border border-slate-200 rounded-lg">
+                <table className="min-w-full font-mono text-xs table-fixed">
+                  <tbody>
+                    {pairLines(comparison.content.lines).map((row, index) => (
+                      <tr key={index}>
+                        {renderLine(row.left, 'left')}
+                        {renderLine(row.right, 'right')}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+// Lines up each run of removals with the additions that follow it
+function pairLines(lines: LineDiff[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].status === 'unchanged') {
+      rows.push({ left: lines[i], right: lines[i] });
+      i++;
+      continue;
+    }
+    const removed: LineDiff[] = [];
+    const added: LineDiff[] = [];
+    while (i < lines.length && lines[i].status !== 'unchanged') {
+      (lines[i].status === 'removed' ? removed : added).push(lines[i]);
+      i++;
+    }
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ left: removed[k], right: added[k] });
+    }
+  }
+  return rows;
+}
+
+function summarizeTagNames(tags: string[][]): string {
+  const counts = new Map<string, number>();
+  tags.forEach(tag => counts.set(tag[0], (counts.get(tag[0]) ?? 0) + 1));
+  return Array.from(counts, ([name, count]) => `${count} ${name}`).join(', ');
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m`;
+  if (seconds < 86400) return `${Math.round(seconds / 3600)}h`;
+  return `${Math.round(seconds / 86400)}d`;
+}
@@ -0,0 +1,383 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ArrowLeft, PenTool, Key, Clock, AlertCircle, ArrowRight, Eye, EyeOff, Puzzle, Upload, Cpu, X } from 'lucide-react';
+import { NostrEvent, EventTemplate, UnsignedEvent, KIND_NAMES } from '../types/nostr';
+import { parseSecretKey, getPublicKey, finalizeTemplate, signEvent, hasNip07Signer, signWithNip07, getNip07PublicKey } from '../utils/signer';
+import { mineEvent, formatHashRate, estimateMiningTime, PowProgress, MAX_POW_TARGET } from '../utils/pow';
+import { icsToCalendarTemplate } from '../utils/calendar';
+
+interface EventComposerProps {
+  onSigned: (event: NostrEvent) => void;
+  onBack: () => void;
+}
+
+type SignerMode = 'local' | 'nip07';
+
+export default function EventComposer({ onSigned, onBack }: EventComposerProps) {
+  const [kind, setKind] = useState('1');
+  const [createdAt, setCreatedAt] = useState(String(Math.floor(Date.now() / 1000)));
+  const [tagsInput, setTagsInput] = useState('[]');
+  const [content, setContent] = useState('');
+  const [signerMode, setSignerMode] = useState<SignerMode>(hasNip07Signer() ? 'nip07' : 'local');
+  const [secretInput, setSecretInput] = useState('');
+  const [showSecret, setShowSecret] = useState(false);
+  const [preview, setPreview] = useState<UnsignedEvent | null>(null);
+  const [error, setError] = useState('');
+  const [isSigning, setIsSigning] = useState(false);
+  const [importNotes, setImportNotes] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [powTarget, setPowTarget] = useState('');
+  const [miningProgress, setMiningProgress] = useState<PowProgress | null>(null);
+  const [isMining, setIsMining] = useState(false);
+  const miningAbortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => miningAbortRef.current?.abort(), []);
+
+  const buildTemplate = (): EventTemplate => {
+    const kindNumber = Number(kind);
+    if (!Number.isInteger(kindNumber) || kindNumber < 0 || kindNumber > 65535) {
+      throw new Error('Kind must be an integer between 0 and 65535');
+    }
+    const created = Number(createdAt);
+    if (!Number.isInteger(created) || created < 0) {
+      throw new Error('created_at must be a non-negative integer');
+    }
+
+    let tags: unknown;
+    try {
+      tags = JSON.parse(tagsInput || '[]');
+    } catch {
+      throw new Error('Tags must be valid JSON');
+    }
+    if (!Array.isArray(tags) || !tags.every(tag => Array.isArray(tag) && tag.every(item => typeof item === 'string'))) {
+      throw new Error('Tags must be an array of string arrays, e.g. [["t", "nostr"]]');
+    }
+
+    return { kind: kindNumber, created_at: created, tags: tags as string[][], content };
+  };
+
+  // Keep a live preview of the id so fixtures can be checked before signing
+  useEffect(() => {
+    let cancelled = false;
+
+    async function updatePreview() {
+      try {
+        const template = buildTemplate();
+        const pubkey = signerMode === 'local' && secretInput.trim()
+          ? getPublicKey(parseSecretKey(secretInput))
+          : '0'.repeat(64);
+        const unsigned = await finalizeTemplate(template, pubkey);
+        if (!cancelled) {
+          setPreview(unsigned);
+          setError('');
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setPreview(null);
+          setError((err as Error).message);
+        }
+      }
+    }
+    updatePreview();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [kind, createdAt, tagsInput, content, signerMode, secretInput]);
+
+  const parsePowTarget = (): number | null => {
+    if (!powTarget.trim()) return null;
+    const target = Number(powTarget);
+    if (!Number.isInteger(target) || target < 1 || target > MAX_POW_TARGET) {
+      throw new Error(`Proof of work target must be between 1 and ${MAX_POW_TARGET} bits`);
+    }
+    return target;
+  };
+
+  const handleSign = async () => {
+    setError('');
+    setIsSigning(true);
+    try {
+      let template = buildTemplate();
+      const target = parsePowTarget();
+
+      if (target !== null) {
+        // The id commits to the pubkey, so it has to be known before mining
+        const pubkey = signerMode === 'nip07' ? await getNip07PublicKey() : getPublicKey(parseSecretKey(secretInput));
+        const controller = new AbortController();
+        miningAbortRef.current = controller;
+        setMiningProgress(null);
+        setIsMining(true);
+        try {
+          const { event: mined } = await mineEvent({ ...template, pubkey }, target, {
+            signal: controller.signal,
+            onProgress: setMiningProgress
+          });
+          template = { created_at: mined.created_at, kind: mined.kind, tags: mined.tags, content: mined.content };
+        } finally {
+          setIsMining(false);
+        }
+      }
+
+      const event = signerMode === 'nip07'
+        ? await signWithNip07(template)
+        : await signEvent(template, parseSecretKey(secretInput));
+      onSigned(event);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  const handleImportIcs = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const { template, warnings } = icsToCalendarTemplate(await file.text());
+      setKind(String(template.kind));
+      setCreatedAt(String(template.created_at));
+      setTagsInput(JSON.stringify(template.tags, null, 2));
+      setContent(template.content);
+      setImportNotes([`Imported "${file.name}" as a kind ${template.kind} template`, ...warnings]);
+    } catch (err) {
+      setImportNotes([]);
+      setError(`Could not import ${file.name}: ${(err as Error).message}`);
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all duration-200';
+  const kindName = KIND_NAMES[Number(kind)];
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <button
+          onClick={onBack}
+          className="flex items-center space-x-2 text-slate-600 hover:text-slate-900 transition-colors group"
+        >
+          <ArrowLeft className="h-5 w-5 group-hover:-translate-x-1 transition-transform" />
+          <span>Back to Input</span>
+        </button>
+
+        <div className="flex items-center space-x-2 px-3 py-1 rounded-full text-sm font-medium bg-blue-100 text-blue-700">
+          <PenTool className="h-4 w-4" />
+          <span>COMPOSE</span>
+        </div>
+      </div>
+
+      {/* Event Fields */}
+      <div className="bg-white/80 backdrop-blur-sm border border-slate-200 rounded-xl p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-slate-900 flex items-center space-x-3">
+            <PenTool className="h-6 w-6 text-blue-600" />
+            <span>Event Composer</span>
+          </h2>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center space-x-2 px-3 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-sm transition-colors"
+          >
+            <Upload className="h-4 w-4" />
+            <span>Import .ics</span>
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".ics,text/calendar"
+            className="hidden"
+            onChange={(e) => handleImportIcs(e.target.files?.[0])}
+          />
+        </div>
+
+        {importNotes.length > 0 && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 text-sm text-blue-800 space-y-1">
+            {importNotes.map((note, index) => <div key={index}>{note}</div>)}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Kind</label>
+            <input value={kind} onChange={(e) => setKind(e.target.value)} className={`${inputClass} font-mono`} inputMode="numeric" />
+            <div className="text-xs text-slate-500 mt-1">{kindName || 'Unknown kind'}</div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Created At (Unix)</label>
+            <div className="flex items-center space-x-2">
+              <input value={createdAt} onChange={(e) => setCreatedAt(e.target.value)} className={`${inputClass} font-mono`} inputMode="numeric" />
+              <button
+                onClick={() => setCreatedAt(String(Math.floor(Date.now() / 1000)))}
+                className="flex items-center space-x-1 px-3 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-sm transition-colors"
+              >
+                <Clock className="h-4 w-4" />
+                <span>Now</span>
+              </button>
+            </div>
+          </div>
+
+          <div className="lg:col-span-2">
+            <label className="block text-sm font-medium text-slate-700 mb-2">Tags (JSON)</label>
+            <textarea
+              value={tagsInput}
+              onChange={(e) => setTagsInput(e.target.value)}
+              className={`${inputClass} font-mono resize-none`}
+              rows={4}
+              placeholder='[["t", "nostr"], ["p", "<hex pubkey>"]]'
+            />
+          </div>
+
+          <div className="lg:col-span-2">
+            <label className="block text-sm font-medium text-slate-700 mb-2">Content</label>
+            <textarea
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              className={`${inputClass} resize-none`}
+              rows={6}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Signer */}
+      <div className="bg-white/80 backdrop-blur-sm border border-slate-200 rounded-xl p-6 space-y-4">
+        <h3 className="text-xl font-bold text-slate-900 flex items-center space-x-3">
+          <Key className="h-5 w-5 text-blue-600" />
+          <span>Signer</span>
+        </h3>
+
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setSignerMode('local')}
+            className={`flex items-center space-x-2 px-3 py-2 rounded-lg text-sm border transition-colors ${
+              signerMode === 'local' ? 'bg-blue-50 border-blue-300 text-blue-700' : 'bg-white border-slate-200 text-slate-700 hover:bg-slate-50'
+            }`}
+          >
+            <Key className="h-4 w-4" />
+            <span>Local key</span>
+          </button>
+          <button
+            onClick={() => setSignerMode('nip07')}
+            disabled={!hasNip07Signer()}
+            className={`flex items-center space-x-2 px-3 py-2 rounded-lg text-sm border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+              signerMode === 'nip07' ? 'bg-blue-50 border-blue-300 text-blue-700' : 'bg-white border-slate-200 text-slate-700 hover:bg-slate-50'
+            }`}
+          >
+            <Puzzle className="h-4 w-4" />
+            <span>{hasNip07Signer() ? 'NIP-07 extension' : 'NIP-07 (not detected)'}</span>
+          </button>
+        </div>
+
+        {signerMode === 'local' && (
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Secret Key (nsec or hex)</label>
+            <div className="flex items-center space-x-2">
+              <input
+                type={showSecret ? 'text' : 'password'}
+                value={secretInput}
+                onChange={(e) => setSecretInput(e.target.value)}
+                className={`${inputClass} font-mono`}
+                autoComplete="off"
+                spellCheck={false}
+              />
+              <button
+                onClick={() => setShowSecret(!showSecret)}
+                className="p-2 text-slate-500 hover:text-slate-700 transition-colors"
+              >
+                {showSecret ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+              </button>
+            </div>
+            <div className="text-red-600 text-xs mt-1 font-medium">
+              ⚠️ The key never leaves this page, but only use test keys here.
+            </div>
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">Proof of Work (NIP-13)</label>
+          <div className="flex items-center space-x-2">
+            <input
+              value={powTarget}
+              onChange={(e) => setPowTarget(e.target.value)}
+              className={`${inputClass} font-mono w-32`}
+              inputMode="numeric"
+              placeholder="off"
+              disabled={isSigning}
+            />
+            <span className="text-sm text-slate-500">leading zero bits</span>
+          </div>
+          <div className="text-xs text-slate-500 mt-1">
+            Adds a committed nonce tag and mines in a background worker before signing. Each extra bit doubles the expected work.
+          </div>
+          {(isMining || miningProgress) && (
+            <div className="mt-3 bg-slate-50 p-3 rounded-lg flex items-center justify-between text-sm">
+              <div className="flex items-center space-x-4 text-slate-700">
+                <Cpu className={`h-4 w-4 text-blue-600 ${isMining ? 'animate-pulse' : ''}`} />
+                <span>{(miningProgress?.hashes ?? 0).toLocaleString()} hashes</span>
+                {miningProgress && <span>{formatHashRate(miningProgress.hashRate)}</span>}
+                {miningProgress && <span>best {miningProgress.bestDifficulty} bits</span>}
+                {isMining && miningProgress && Number(powTarget) > 0 && (
+                  <span className="text-slate-500">
+                    ~{Math.ceil(estimateMiningTime(Number(powTarget), miningProgress.hashRate) ?? 0)}s expected
+                  </span>
+                )}
+              </div>
+              {isMining && (
+                <button
+                  onClick={() => miningAbortRef.current?.abort()}
+                  className="flex items-center space-x-1 px-2 py-1 text-slate-600 hover:text-slate-900 transition-colors"
+                >
+                  <X className="h-4 w-4" />
+                  <span>Cancel</span>
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
+        {preview && (
+          <div className="bg-slate-50 p-4 rounded-lg space-y-2 text-sm">
+            {signerMode === 'local' && secretInput.trim() && (
+              <div className="flex items-center space-x-2">
+                <span className="w-20 text-slate-500">Pubkey</span>
+                <code className="font-mono break-all text-slate-800">{preview.pubkey}</code>
+              </div>
+            )}
+            <div className="flex items-center space-x-2">
+              <span className="w-20 text-slate-500">Event ID</span>
+              <code className="font-mono break-all text-slate-800">
+                {signerMode === 'local' && secretInput.trim() ? preview.id : 'Depends on the signing pubkey'}
+              </code>
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center space-x-2 text-red-600 bg-red-50 px-4 py-3 rounded-lg">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            <span className="text-sm">{error}</span>
+          </div>
+        )}
+
+        <button
+          onClick={handleSign}
+          disabled={isSigning || !!error || (signerMode === 'local' && !secretInput.trim())}
+          className="w-full bg-blue-600 hover:bg-blue-700 text-white px-6 py-4 rounded-xl font-semibold transition-all duration-200 flex items-center justify-center space-x-2 group disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSigning ? (
+            <>
+              <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent"></div>
+              <span>{isMining ? 'Mining...' : 'Signing...'}</span>
+            </>
+          ) : (
+            <>
+              <span>{powTarget.trim() ? 'Mine, Sign & Inspect' : 'Sign & Inspect'}</span>
+              <ArrowRight className="h-4 w-4 group-hover:translate-x-1 transition-transform" />
+            </>
+          )}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,31 +1,57 @@
-import React, { useState, useEffect } from 'react';
-import { ArrowLeft, Copy, Check, Shield, AlertTriangle, Clock, Hash, User, Tag, FileText, RefreshCw, Eye, X, BookOpen, Calendar, Globe, Image as ImageIcon } from 'lucide-react';
-import { NostrEvent, KIND_NAMES, ValidationResult } from '../types/nostr';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { ArrowLeft, Copy, Check, Shield, AlertTriangle, Clock, Hash, User, Users, Tag, FileText, RefreshCw, Eye, X, BookOpen, Calendar, Globe, Image as ImageIcon, Binary, GitCompare } from 'lucide-react';
+import { NostrEvent, DecodedIdentifier, KIND_NAMES, ValidationResult } from '../types/nostr';
 import { validateEvent, formatTimestamp, copyToClipboard, truncateId } from '../utils/nostr';
+import { lintEvent, getKindCategory, getKindSchema } from '../utils/schema';
+import { verifyNip05, Nip05Verification } from '../utils/nip05';
+import { analyzePow } from '../utils/pow';
+import { recordVersions } from '../utils/history';
+import { recordProfile, requestProfiles } from '../utils/profiles';
 import TagTable from './TagTable';
 import NIP23Renderer from './NIP23Renderer';
+import DecryptionPanel from './DecryptionPanel';
+import ContentRenderer from './ContentRenderer';
+import ZapRenderer from './ZapRenderer';
+import CalendarRenderer from './CalendarRenderer';
+import RelayListRenderer from './RelayListRenderer';
+import ListRenderer from './ListRenderer';
+import ThreadView from './ThreadView';
+import PubkeyLabel from './PubkeyLabel';
 
 interface EventInspectorProps {
   event: NostrEvent;
+  onOpenIdentifier: (identifier: DecodedIdentifier) => void;
+  // Opens a referenced event (gift-wrap layer, zap request, thread node) as its own history entry
+  onInspect: (event: NostrEvent) => void;
+  onCompare?: (event: NostrEvent) => void;
   onBack: () => void;
 }
 
-export default function EventInspector({ event, onBack }: EventInspectorProps) {
+export default function EventInspector({ event, onOpenIdentifier, onInspect, onCompare, onBack }: EventInspectorProps) {
   const [validation, setValidation] = useState<ValidationResult | null>(null);
   const [copiedField, setCopiedField] = useState<string | null>(null);
   const [isValidating, setIsValidating] = useState(true);
   const [showRawJsonModal, setShowRawJsonModal] = useState(false);
+  const [showPreimageModal, setShowPreimageModal] = useState(false);
 
   useEffect(() => {
     async function validate() {
       setIsValidating(true);
       const result = await validateEvent(event);
       setValidation(result);
+      // Keep earlier versions of replaceable events around for the history view
+      if (result.isValid) {
+        recordVersions([event]);
+        recordProfile(event);
+      }
       setIsValidating(false);
     }
     validate();
   }, [event]);
 
+  const lintIssues = useMemo(() => lintEvent(event), [event]);
+  const pow = useMemo(() => analyzePow(event), [event]);
+
   const handleCopy = async (text: string, field: string) => {
     try {
       await copyToClipboard(text);
@@ -38,8 +64,10 @@ export default function EventInspector({ event, onBack }: EventInspectorProps) {
 
   const timestamp = formatTimestamp(event.created_at);
   const kindName = KIND_NAMES[event.kind] || `Kind ${event.kind}`;
+  const kindSchema = getKindSchema(event.kind);
   const isNIP23 = event.kind === 30023 || event.kind === 30024;
   const isProfile = event.kind === 0;
+  const isTextNote = event.kind === 1;
   const isFollowList = event.kind === 3;
   const isChannelMessage = [40, 41, 42].includes(event.kind);
   const isCalendarEvent = [31922, 31923, 31924, 31925].includes(event.kind);
@@ -50,6 +78,8 @@ export default function EventInspector({ event, onBack }: EventInspectorProps) {
   const isReporting = event.kind === 1984;
   const isLabel = event.kind === 1985;
   const isList = [10000, 10001, 10002, 10003, 10004, 10005, 10006, 10007, 10009, 10015, 10030].includes(event.kind);
+  const isRelayList = [10002, 10006, 10007, 10050].includes(event.kind);
+  const isListSet = [30000, 30001, 30002, 30003, 30004, 30015, 30030].includes(event.kind);
   const isCommunity = event.kind === 34550;
   const isGroup = [39000, 39001, 39002].includes(event.kind);
   const isRepository = [32123, 1617, 1621, 1622].includes(event.kind);
@@ -58,6 +88,7 @@ export default function EventInspector({ event, onBack }: EventInspectorProps) {
   const isPicture = event.kind === 20;
   const isChat = [9, 14, 15, 42, 1311].includes(event.kind);
   const isDeprecated = [2, 4, 10, 12].includes(event.kind);
+  const isEncrypted = [4, 13, 1059].includes(event.kind);
 
   return (
     <div className="space-y-8">
@@ -72,6 +103,25 @@ export default function EventInspector({ event, onBack }: EventInspectorProps) {
         </button>
         
         <div className="flex items-center space-x-4">
+          {onCompare && (
+            <button
+              onClick={() => onCompare(event)}
+              className="flex items-center space-x-2 px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg transition-colors"
+            >
+              <GitCompare className="h-4 w-4" />
+              <span>Compare</span>
+            </button>
+          )}
+
+          <button
+            onClick={() => setShowPreimageModal(true)}
+            disabled={!validation?.serialized}
+            className="flex items-center space-x-2 px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Binary className="h-4 w-4" />
+            <span>View Preimage</span>
+          </button>
+
           <button
             onClick={() => setShowRawJsonModal(true)}
             className="flex items-center space-x-2 px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg transition-colors"
@@ -144,10 +194,39 @@ export default function EventInspector({ event, onBack }: EventInspectorProps) {
                   {validation.idMatch ? '✓ ID matches computed hash' : '✗ ID does not match computed hash'}
                 </div>
               )}
+              {pow.status !== 'none' && (
+                <div className={`text-xs mt-1 ${
+                  pow.status === 'met' ? 'text-emerald-600' : pow.status === 'overclaimed' ? 'text-red-600' : 'text-amber-600'
+                }`}>
+                  {pow.status === 'met' && `✓ Proof of work: ${pow.difficulty} leading zero bits, meets committed target ${pow.target}`}
+                  {pow.status === 'overclaimed' && `✗ Proof of work: commits to ${pow.target} bits but the ID has only ${pow.difficulty}`}
+                  {pow.status === 'uncommitted' && `Proof of work: ${pow.difficulty} leading zero bits, no target committed in the nonce tag`}
+                  {pow.status === 'invalid_target' && `Proof of work: ${pow.difficulty} leading zero bits, nonce target is not a number`}
+                </div>
+              )}
+              {validation && !validation.idMatch && validation.computedId && (
+                <div className="mt-2">
+                  <label className="block text-xs font-medium text-slate-500 mb-1">Computed ID</label>
+                  <div className="flex items-center space-x-2">
+                    <code className="bg-red-50 text-red-800 px-3 py-2 rounded-lg font-mono text-sm flex-1 break-all">
+                      {validation.computedId}
+                    </code>
+                    <button
+                      onClick={() => handleCopy(validation.computedId!, 'computed-id')}
+                      className="p-2 text-slate-500 hover:text-slate-700 transition-colors"
+                    >
+                      {copiedField === 'computed-id' ? <Check className="h-4 w-4 text-emerald-600" /> : <Copy className="h-4 w-4" />}
+                    </button>
+                  </div>
+                </div>
+              )}
             </div>
 
             <div>
               <label className="block text-sm font-medium text-slate-700 mb-2">Public Key</label>
+              <div className="mb-2">
+                <PubkeyLabel pubkey={event.pubkey} onOpenIdentifier={onOpenIdentifier} verify size="md" />
+              </div>
               <div className="flex items-center space-x-2">
                 <code className="bg-slate-100 px-3 py-2 rounded-lg font-mono text-sm flex-1 break-all">
                   {event.pubkey}
@@ -190,6 +269,10 @@ export default function EventInspector({ event, onBack }: EventInspectorProps) {
                 <div className="bg-blue-50 text-blue-700 px-3 py-2 rounded-lg font-medium">
                   {event.kind} - {kindName} {isDeprecated && '(Deprecated)'}
                 </div>
+                <div className="text-xs text-slate-500 mt-1">
+                  {getKindCategory(event.kind)}
+                  {kindSchema && ` · NIP-${kindSchema.nips.join(', NIP-')}`}
+                </div>
               </div>
             </div>
 
@@ -206,14 +289,36 @@ export default function EventInspector({ event, onBack }: EventInspectorProps) {
               </div>
             </div>
 
-            {validation && validation.errors.length > 0 && (
+            {validation && validation.issues.length > 0 && (
               <div>
                 <label className="block text-sm font-medium text-red-700 mb-2">Validation Errors</label>
-                <div className="bg-red-50 border border-red-200 rounded-lg p-3">
-                  {validation.errors.map((error, index) => (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-3 space-y-1">
+                  {validation.issues.map((issue, index) => (
                     <div key={index} className="text-sm text-red-700 flex items-center space-x-2">
                       <AlertTriangle className="h-3 w-3 flex-shrink-0" />
-                      <span>{error}</span>
+                      <code className="bg-red-100 px-1 rounded text-xs font-mono">{issue.code}</code>
+                      <span>{issue.message}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {lintIssues.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-amber-700 mb-2">Lint Warnings</label>
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 space-y-1">
+                  {lintIssues.map((issue, index) => (
+                    <div
+                      key={index}
+                      className={`text-sm flex items-center space-x-2 ${issue.severity === 'error' ? 'text-red-700' : issue.severity === 'info' ? 'text-slate-600' : 'text-amber-800'}`}
+                    >
+                      <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+                      <code className="bg-amber-100 px-1 rounded text-xs font-mono">{issue.code}</code>
+                      <span>
+                        {issue.message}
+                        {issue.tagIndex !== undefined && <span className="text-slate-500"> (tag {issue.tagIndex})</span>}
+                      </span>
                     </div>
                   ))}
                 </div>
@@ -231,7 +336,7 @@ export default function EventInspector({ event, onBack }: EventInspectorProps) {
             <span>Profile Information</span>
           </h3>
           {event.content ? (
-            <ProfileRenderer content={event.content} onCopy={handleCopy} copiedField={copiedField} />
+            <ProfileRenderer content={event.content} pubkey={event.pubkey} onOpenIdentifier={onOpenIdentifier} onCopy={handleCopy} copiedField={copiedField} />
           ) : (
             <div className="text-slate-500 italic">No profile data</div>
           )}
@@ -244,7 +349,7 @@ export default function EventInspector({ event, onBack }: EventInspectorProps) {
             <Users className="h-5 w-5 text-blue-600" />
             <span>Follow List ({event.tags.filter(t => t[0] === 'p').length} follows)</span>
           </h3>
-          <FollowListRenderer tags={event.tags} />
+          <FollowListRenderer tags={event.tags} onOpenIdentifier={onOpenIdentifier} />
         </div>
       )}
 
@@ -266,15 +371,41 @@ export default function EventInspector({ event, onBack }: EventInspectorProps) {
             </span>
             <span>Reaction</span>
           </h3>
-          <ReactionRenderer tags={event.tags} content={event.content} />
+          <ReactionRenderer tags={event.tags} content={event.content} onOpenIdentifier={onOpenIdentifier} />
         </div>
       )}
 
+      {/* Relay lists (10002, 10006, 10007) go to the relay view only, so their relays are not listed twice */}
+      {((isList && !isRelayList) || isListSet) && (
+        <ListRenderer event={event} onOpenIdentifier={onOpenIdentifier} />
+      )}
+
+      {isRelayList && (
+        <RelayListRenderer event={event} />
+      )}
+
+      {isCalendarEvent && (
+        <CalendarRenderer event={event} onOpenIdentifier={onOpenIdentifier} />
+      )}
+
+      {isTextNote && (
+        <ThreadView event={event} onInspect={onInspect} onOpenIdentifier={onOpenIdentifier} />
+      )}
+
+      {isZap && (
+        <ZapRenderer event={event} onInspect={onInspect} onCopy={handleCopy} copiedField={copiedField} />
+      )}
+
+      {isEncrypted && (
+        <DecryptionPanel event={event} onInspect={onInspect} />
+      )}
+
       {/* Content Section */}
       {isNIP23 ? (
         <NIP23Renderer 
           event={event} 
           onCopy={handleCopy}
+          onOpenIdentifier={onOpenIdentifier}
           copiedField={copiedField}
         />
       ) : (
@@ -286,11 +417,7 @@ export default function EventInspector({ event, onBack }: EventInspectorProps) {
           
           {event.content ? (
             <div className="space-y-3">
-              <div className="bg-slate-50 p-4 rounded-lg">
-                <pre className="whitespace-pre-wrap text-sm text-slate-800 font-medium leading-relaxed">
-                  {event.content}
-                </pre>
-              </div>
+              <ContentRenderer content={event.content} tags={event.tags} onOpenIdentifier={onOpenIdentifier} />
               <button
                 onClick={() => handleCopy(event.content, 'content')}
                 className="flex items-center space-x-2 text-sm text-slate-600 hover:text-slate-900 transition-colors"
@@ -311,9 +438,64 @@ export default function EventInspector({ event, onBack }: EventInspectorProps) {
           <Tag className="h-5 w-5 text-blue-600" />
           <span>Tags ({event.tags.length})</span>
         </h3>
-        <TagTable tags={event.tags} />
+        <TagTable tags={event.tags} kind={event.kind} issues={lintIssues} onOpenIdentifier={onOpenIdentifier} />
       </div>
 
+      {/* Preimage Modal */}
+      {showPreimageModal && validation?.serialized && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-xl shadow-2xl max-w-4xl w-full max-h-[80vh] flex flex-col">
+            {/* Modal Header */}
+            <div className="flex items-center justify-between p-6 border-b border-slate-200">
+              <h3 className="text-xl font-bold text-slate-900 flex items-center space-x-3">
+                <Binary className="h-5 w-5 text-blue-600" />
+                <span>Serialized Preimage</span>
+              </h3>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => handleCopy(validation.serialized!, 'modal-preimage')}
+                  className="flex items-center space-x-2 px-3 py-1 text-sm text-slate-600 hover:text-slate-900 transition-colors"
+                >
+                  {copiedField === 'modal-preimage' ? <Check className="h-4 w-4 text-emerald-600" /> : <Copy className="h-4 w-4" />}
+                  <span>Copy Preimage</span>
+                </button>
+                <button
+                  onClick={() => setShowPreimageModal(false)}
+                  className="p-2 text-slate-500 hover:text-slate-700 transition-colors"
+                >
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
+            </div>
+
+            {/* Modal Content */}
+            <div className="flex-1 overflow-auto p-6 space-y-4">
+              <p className="text-sm text-slate-600">
+                The exact NIP-01 string that is UTF-8 encoded and hashed with SHA-256 to produce the event ID
+                ({new TextEncoder().encode(validation.serialized).length} bytes).
+              </p>
+              <div className="bg-slate-900 text-slate-100 p-4 rounded-lg overflow-x-auto">
+                <pre className="text-sm whitespace-pre-wrap break-all">
+                  {validation.serialized}
+                </pre>
+              </div>
+              <div className="grid grid-cols-1 gap-2 text-sm">
+                <div className="flex items-center space-x-2">
+                  <span className="w-24 text-slate-500">Computed</span>
+                  <code className="font-mono break-all text-slate-800">{validation.computedId}</code>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <span className="w-24 text-slate-500">Claimed</span>
+                  <code className={`font-mono break-all ${validation.idMatch ? 'text-emerald-700' : 'text-red-700'}`}>
+                    {validation.claimedId}
+                  </code>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Raw JSON Modal */}
       {showRawJsonModal && (
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
@@ -357,7 +539,7 @@ export default function EventInspector({ event, onBack }: EventInspectorProps) {
 }
 
 // Profile renderer component
-function ProfileRenderer({ content, onCopy, copiedField }: { content: string, onCopy: (text: string, field: string) => void, copiedField: string | null }) {
+function ProfileRenderer({ content, pubkey, onOpenIdentifier, onCopy, copiedField }: { content: string, pubkey: string, onOpenIdentifier: (identifier: DecodedIdentifier) => void, onCopy: (text: string, field: string) => void, copiedField: string | null }) {
   try {
     const profile = JSON.parse(content);
     return (
@@ -397,10 +579,11 @@ function ProfileRenderer({ content, onCopy, copiedField }: { content: string, on
             </div>
           )}
           
-          {profile.nip05 && (
+          {typeof profile.nip05 === 'string' && profile.nip05 && (
             <div>
               <label className="block text-sm font-medium text-slate-700 mb-1">NIP-05</label>
               <code className="bg-slate-100 px-2 py-1 rounded text-sm">{profile.nip05}</code>
+              <Nip05Badge nip05={profile.nip05} pubkey={pubkey} onOpenIdentifier={onOpenIdentifier} />
             </div>
           )}
           
@@ -431,22 +614,117 @@ function ProfileRenderer({ content, onCopy, copiedField }: { content: string, on
   }
 }
 
+// Resolves the profile's NIP-05 address and checks it points back at the event author
+function Nip05Badge({ nip05, pubkey, onOpenIdentifier }: { nip05: string, pubkey: string, onOpenIdentifier: (identifier: DecodedIdentifier) => void }) {
+  const [verification, setVerification] = useState<Nip05Verification | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const check = async (refresh: boolean) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsChecking(true);
+
+    const result = await verifyNip05(nip05, pubkey, { signal: controller.signal, refresh });
+    if (controller.signal.aborted) return;
+    setVerification(result);
+    setIsChecking(false);
+  };
+
+  useEffect(() => {
+    setVerification(null);
+    check(false);
+    return () => abortRef.current?.abort();
+  }, [nip05, pubkey]);
+
+  if (!verification) {
+    return (
+      <div className="flex items-center space-x-1 text-xs text-slate-500 mt-2">
+        <RefreshCw className="h-3 w-3 animate-spin" />
+        <span>Verifying...</span>
+      </div>
+    );
+  }
+
+  const { status, resolution } = verification;
+
+  return (
+    <div className="mt-2 space-y-2">
+      <div className="flex items-center space-x-2">
+        {status === 'verified' && (
+          <span className="flex items-center space-x-1 bg-emerald-100 text-emerald-700 px-2 py-0.5 rounded-full text-xs font-medium">
+            <Shield className="h-3 w-3" />
+            <span>Verified</span>
+          </span>
+        )}
+        {status === 'mismatch' && (
+          <span className="flex items-center space-x-1 bg-red-100 text-red-700 px-2 py-0.5 rounded-full text-xs font-medium">
+            <AlertTriangle className="h-3 w-3" />
+            <span>Points to a different key</span>
+          </span>
+        )}
+        {status === 'error' && (
+          <span className="flex items-center space-x-1 bg-amber-100 text-amber-700 px-2 py-0.5 rounded-full text-xs font-medium">
+            <AlertTriangle className="h-3 w-3" />
+            <span>Unverified: {verification.error}</span>
+          </span>
+        )}
+        {verification.cached && <span className="text-xs text-slate-400">cached</span>}
+        <button
+          onClick={() => check(true)}
+          disabled={isChecking}
+          className="p-1 text-slate-400 hover:text-slate-700 transition-colors disabled:opacity-50"
+          title="Check again"
+        >
+          <RefreshCw className={`h-3 w-3 ${isChecking ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {status === 'mismatch' && resolution && (
+        <button
+          onClick={() => onOpenIdentifier({ type: 'npub', data: { pubkey: resolution.pubkey } })}
+          className="block text-xs font-mono text-red-700 hover:underline break-all text-left"
+        >
+          nostr.json: {truncateId(resolution.pubkey, 10)}
+        </button>
+      )}
+
+      {resolution && resolution.relays.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-xs font-medium text-slate-500">Advertised relays</div>
+          {resolution.relays.map(relay => (
+            <code key={relay} className="block bg-slate-50 px-2 py-1 rounded text-xs text-slate-700 break-all">{relay}</code>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 // Follow list renderer
-function FollowListRenderer({ tags }: { tags: string[][] }) {
-  const follows = tags.filter(t => t[0] === 'p');
-  
+const FOLLOW_PAGE_SIZE = 50;
+
+function FollowListRenderer({ tags, onOpenIdentifier }: { tags: string[][], onOpenIdentifier: (identifier: DecodedIdentifier) => void }) {
+  const [visible, setVisible] = useState(FOLLOW_PAGE_SIZE);
+  const follows = tags.filter(t => t[0] === 'p' && t[1]);
+
+  // Queue every follow at once so the whole list resolves in a few batched REQs, not one per page
+  useEffect(() => {
+    requestProfiles(follows.map(f => f[1]));
+    setVisible(FOLLOW_PAGE_SIZE);
+  }, [tags]);
+
   if (follows.length === 0) {
     return <div className="text-slate-500 italic">No follows found</div>;
   }
-  
+
   return (
-    <div className="space-y-2 max-h-64 overflow-y-auto">
-      {follows.slice(0, 50).map((follow, index) => (
+    <div className="space-y-2 max-h-96 overflow-y-auto">
+      {follows.slice(0, visible).map((follow, index) => (
         <div key={index} className="flex items-center justify-between bg-slate-50 p-3 rounded-lg">
           <div className="flex-1 min-w-0">
-            <code className="text-sm font-mono text-slate-700 break-all">
-              {follow[1].slice(0, 16)}...{follow[1].slice(-8)}
-            </code>
+            <PubkeyLabel pubkey={follow[1]} onOpenIdentifier={onOpenIdentifier} />
             {follow[3] && (
               <div className="text-sm text-slate-600 mt-1">"{follow[3]}"</div>
             )}
@@ -458,10 +736,13 @@ function FollowListRenderer({ tags }: { tags: string[][] }) {
           )}
         </div>
       ))}
-      {follows.length > 50 && (
-        <div className="text-sm text-slate-500 text-center py-2">
-          ... and {follows.length - 50} more
-        </div>
+      {follows.length > visible && (
+        <button
+          onClick={() => setVisible(visible + FOLLOW_PAGE_SIZE)}
+          className="w-full text-sm text-blue-600 hover:text-blue-800 text-center py-2 transition-colors"
+        >
+          Show more ({follows.length - visible} remaining)
+        </button>
       )}
     </div>
   );
@@ -536,7 +817,7 @@ function FileMetadataRenderer({ tags, content }: { tags: string[][], content: st
 }
 
 // Reaction renderer
-function ReactionRenderer({ tags, content }: { tags: string[][], content: string }) {
+function ReactionRenderer({ tags, content, onOpenIdentifier }: { tags: string[][], content: string, onOpenIdentifier: (identifier: DecodedIdentifier) => void }) {
   const targetEvent = tags.find(t => t[0] === 'e')?.[1];
   const targetAuthor = tags.find(t => t[0] === 'p')?.[1];
   const targetKind = tags.find(t => t[0] === 'k')?.[1];
@@ -566,7 +847,8 @@ function ReactionRenderer({ tags, content }: { tags: string[][], content: string
             {targetAuthor && (
               <div>
                 <label className="block text-sm font-medium text-slate-700 mb-1">Target Author</label>
-                <code className="bg-white px-2 py-1 rounded text-sm font-mono break-all">
+                <PubkeyLabel pubkey={targetAuthor} onOpenIdentifier={onOpenIdentifier} />
+                <code className="block bg-white px-2 py-1 mt-1 rounded text-xs font-mono break-all text-slate-500">
                   {targetAuthor}
                 </code>
               </div>
@@ -0,0 +1,300 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ArrowLeft, Binary, Hash, Key, KeyRound, RefreshCw, CheckCircle, AlertTriangle, Search, Copy, Check } from 'lucide-react';
+import { DecodedIdentifier, NostrEvent, HexInput, KIND_NAMES } from '../types/nostr';
+import { copyToClipboard, computeEventId, formatTimestamp } from '../utils/nostr';
+import { getDefaultRelays } from '../utils/relay';
+import { lookupHex, possibleReadings, signatureParts, getHexAutoLookup, setHexAutoLookup, HexLookup, HexReading } from '../utils/hex';
+
+interface HexDisambiguatorProps {
+  input: HexInput;
+  onOpenIdentifier: (identifier: DecodedIdentifier) => void;
+  onOpenEvent: (event: NostrEvent) => void;
+  onOpenKeys: (secretKey: string) => void;
+  onBack: () => void;
+}
+
+const READINGS: Array<{ reading: HexReading; label: string; description: string; icon: typeof Hash }> = [
+  { reading: 'event_id', label: 'Event ID', description: 'Open as a note and fetch the event', icon: Hash },
+  { reading: 'pubkey', label: 'Public Key', description: 'Open as an npub with profile and history', icon: Key },
+  { reading: 'secret_key', label: 'Secret Key', description: 'Derive the public key in the Key Toolbox', icon: KeyRound }
+];
+
+export default function HexDisambiguator({ input, onOpenIdentifier, onOpenEvent, onOpenKeys, onBack }: HexDisambiguatorProps) {
+  const [lookup, setLookup] = useState<HexLookup | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [computedId, setComputedId] = useState<string | null>(null);
+  const [copiedField, setCopiedField] = useState<string | null>(null);
+  const [autoLookup, setAutoLookup] = useState(getHexAutoLookup);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const openReading = (reading: HexReading, found: HexLookup | null = lookup) => {
+    if (reading === 'event_id') {
+      if (found?.event) {
+        onOpenEvent(found.event);
+      } else {
+        onOpenIdentifier({ type: 'note', data: { id: input.hex } });
+      }
+    } else if (reading === 'pubkey') {
+      onOpenIdentifier({ type: 'npub', data: { pubkey: input.hex } });
+    } else {
+      onOpenKeys(input.hex);
+    }
+  };
+
+  useEffect(() => {
+    setLookup(null);
+    setError('');
+    setComputedId(null);
+    setIsLoading(false);
+    if (input.type === 'serialized_event') {
+      computeEventId(input.event).then(setComputedId);
+    }
+    // Only after the user opted in, since the lookup sends the raw value to every relay
+    if (input.type === 'key' && getHexAutoLookup() && getDefaultRelays().length > 0) {
+      handleLookup();
+    }
+    return () => abortRef.current?.abort();
+  }, [input]);
+
+  const handleAutoLookupChange = (enabled: boolean) => {
+    setAutoLookup(enabled);
+    setHexAutoLookup(enabled);
+  };
+
+  // The lookup sends the raw value, which may be a secret key, to every relay
+  const handleLookup = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsLoading(true);
+    setError('');
+    setLookup(null);
+
+    try {
+      const result = await lookupHex(input.hex, getDefaultRelays(), { signal: controller.signal });
+      if (controller.signal.aborted) return;
+      setLookup(result);
+      // The hex view is never in the URL, so jumping ahead leaves nothing to bounce back into
+      if (result.pick) openReading(result.pick, result);
+    } catch (err) {
+      if (!controller.signal.aborted) setError((err as Error).message);
+    } finally {
+      if (!controller.signal.aborted) setIsLoading(false);
+    }
+  };
+
+  const handleCopy = async (text: string, field: string) => {
+    try {
+      await copyToClipboard(text);
+      setCopiedField(field);
+      setTimeout(() => setCopiedField(null), 2000);
+    } catch (error) {
+      console.error('Failed to copy:', error);
+    }
+  };
+
+  const renderField = (label: string, value: string, field: string) => (
+    <div>
+      <label className="block text-sm font-medium text-slate-700 mb-2">{label}</label>
+      <div className="flex items-center space-x-2">
+        <code className="bg-slate-100 px-3 py-2 rounded-lg font-mono text-sm flex-1 break-all">{value}</code>
+        <button
+          onClick={() => handleCopy(value, field)}
+          className="p-2 text-slate-500 hover:text-slate-700 transition-colors"
+        >
+          {copiedField === field ? <Check className="h-4 w-4 text-emerald-600" /> : <Copy className="h-4 w-4" />}
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderKey = () => {
+    const readings = possibleReadings(input.hex);
+    const found: Record<HexReading, boolean> = {
+      event_id: !!lookup?.event,
+      pubkey: !!lookup?.profile,
+      secret_key: !!lookup?.derivedProfile
+    };
+
+    return (
+      <>
+        <p className="text-sm text-slate-600">
+          32 bytes of hex can be an event id, a public key or a secret key. Pick how to read it, or ask relays which one it is.
+        </p>
+
+        {getDefaultRelays().length > 0 && !isLoading && (
+          <div className="flex flex-col md:flex-row md:items-center gap-3 bg-amber-50 border border-amber-200 rounded-lg p-4">
+            <div className="flex items-start space-x-2 text-sm text-amber-800 flex-1">
+              <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+              <span>
+                Searching sends this exact value to {getDefaultRelays().length} relay(s) as an event id and an author.
+                If it is a secret key, that publishes it. Open it as a secret key instead.
+              </span>
+            </div>
+            <button
+              onClick={handleLookup}
+              className="flex items-center justify-center space-x-2 px-3 py-2 bg-amber-600 hover:bg-amber-700 text-white rounded-lg text-sm transition-colors"
+            >
+              <Search className="h-4 w-4" />
+              <span>Send to relays and search</span>
+            </button>
+          </div>
+        )}
+        {getDefaultRelays().length > 0 && (
+          <label className="flex items-center space-x-2 text-sm text-slate-600">
+            <input
+              type="checkbox"
+              checked={autoLookup}
+              onChange={e => handleAutoLookupChange(e.target.checked)}
+              className="rounded border-slate-300"
+            />
+            <span>Search relays automatically for every pasted 32-byte hex value (never paste secret keys here)</span>
+          </label>
+        )}
+
+        {isLoading && (
+          <div className="flex items-center space-x-2 text-slate-600 text-sm">
+            <RefreshCw className="h-4 w-4 animate-spin" />
+            <span>Asking relays for an event with this id and a profile by this key...</span>
+          </div>
+        )}
+        {lookup && !lookup.pick && (
+          <div className="text-sm text-slate-600">
+            No relay knows an event or profile for this value
+            ({lookup.result.statuses.filter(s => s.status === 'eose').length}/{lookup.result.statuses.length} relays answered).
+          </div>
+        )}
+        {error && <div className="text-sm text-red-600">{error}</div>}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {READINGS.map(({ reading, label, description, icon: Icon }) => (
+            <button
+              key={reading}
+              onClick={() => openReading(reading)}
+              disabled={!readings[reading]}
+              className={`text-left p-4 rounded-xl border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                found[reading] ? 'border-emerald-300 bg-emerald-50' : 'border-slate-200 hover:border-blue-300 hover:bg-blue-50'
+              }`}
+            >
+              <div className="flex items-center space-x-2 font-medium text-slate-900">
+                <Icon className="h-4 w-4 text-blue-600" />
+                <span>{label}</span>
+                {found[reading] && <CheckCircle className="h-4 w-4 text-emerald-600" />}
+              </div>
+              <div className="text-xs text-slate-600 mt-1">
+                {!readings[reading]
+                  ? (reading === 'pubkey' ? 'Not a point on secp256k1' : 'Outside the secret key range')
+                  : found[reading] ? describeFound(reading, lookup!) : description}
+              </div>
+            </button>
+          ))}
+        </div>
+      </>
+    );
+  };
+
+  const renderSignature = () => {
+    const parts = signatureParts(input.hex);
+    return (
+      <>
+        <p className="text-sm text-slate-600">
+          64 bytes of hex is the size of a BIP-340 Schnorr signature. Relays cannot be searched by signature; paste the full event to verify it.
+        </p>
+        {renderField('R (nonce point x-coordinate)', parts.r, 'r')}
+        {renderField('S', parts.s, 's')}
+        <div className={`flex items-center space-x-2 text-sm ${parts.inRange ? 'text-emerald-700' : 'text-red-600'}`}>
+          {parts.inRange ? <CheckCircle className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />}
+          <span>{parts.inRange ? 'Both halves are in range' : 'R or S is out of range, so this cannot be a valid signature'}</span>
+        </div>
+      </>
+    );
+  };
+
+  const renderSerialized = () => {
+    if (input.type !== 'serialized_event') return null;
+    const { event } = input;
+    return (
+      <>
+        <p className="text-sm text-slate-600">
+          This hex decodes to a NIP-01 serialization array, the bytes that are hashed into an event id.
+        </p>
+        {!input.canonical && (
+          <div className="flex items-center space-x-2 text-sm text-amber-700">
+            <AlertTriangle className="h-4 w-4" />
+            <span>The bytes differ from the canonical serialization, so their hash is not the event id below</span>
+          </div>
+        )}
+        {computedId && renderField('Event ID', computedId, 'id')}
+        {renderField('Author', event.pubkey, 'pubkey')}
+        <div className="grid grid-cols-2 gap-4 text-sm">
+          <div>
+            <span className="text-slate-500">Kind</span>
+            <div className="text-slate-900">{event.kind} - {KIND_NAMES[event.kind] || 'Unknown'}</div>
+          </div>
+          <div>
+            <span className="text-slate-500">Created</span>
+            <div className="text-slate-900">{formatTimestamp(event.created_at).absolute}</div>
+          </div>
+          <div>
+            <span className="text-slate-500">Tags</span>
+            <div className="text-slate-900">{event.tags.length}</div>
+          </div>
+          <div>
+            <span className="text-slate-500">Content</span>
+            <div className="text-slate-900 truncate">{event.content || <em className="text-slate-400">empty</em>}</div>
+          </div>
+        </div>
+        {computedId && (
+          <button
+            onClick={() => onOpenIdentifier({ type: 'note', data: { id: computedId } })}
+            className="flex items-center space-x-2 px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm transition-colors"
+          >
+            <Search className="h-4 w-4" />
+            <span>Find the signed event on relays</span>
+          </button>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="space-y-8">
+      <button
+        onClick={onBack}
+        className="flex items-center space-x-2 text-slate-600 hover:text-slate-900 transition-colors group"
+      >
+        <ArrowLeft className="h-5 w-5 group-hover:-translate-x-1 transition-transform" />
+        <span>Back to Input</span>
+      </button>
+
+      <div className="bg-white/80 backdrop-blur-sm border border-slate-200 rounded-xl p-6 space-y-6">
+        <h2 className="text-2xl font-bold text-slate-900 flex items-center space-x-3">
+          <Binary className="h-6 w-6 text-blue-600" />
+          <span>
+            {input.type === 'key' ? 'Raw 32-byte Hex' : input.type === 'signature' ? 'Raw 64-byte Hex' : 'Hex-encoded Event Serialization'}
+          </span>
+        </h2>
+
+        {input.type !== 'serialized_event' && (
+          <code className="block bg-slate-100 px-3 py-2 rounded-lg font-mono text-sm break-all text-slate-700">{input.hex}</code>
+        )}
+
+        {input.type === 'key' && renderKey()}
+        {input.type === 'signature' && renderSignature()}
+        {input.type === 'serialized_event' && renderSerialized()}
+      </div>
+    </div>
+  );
+}
+
+function describeFound(reading: HexReading, lookup: HexLookup): string {
+  switch (reading) {
+    case 'event_id':
+      return `Found a kind ${lookup.event!.kind} event on ${lookup.result.seenOn[lookup.event!.id]?.length ?? 0} relay(s)`;
+    case 'pubkey':
+      return 'Found a profile published by this key';
+    case 'secret_key':
+      return 'Found a profile for the public key derived from this value';
+  }
+}
@@ -41,19 +41,19 @@ export default function Homepage({ onParsedResult }: HomepageProps) {
     {
       type: 'Raw Event JSON',
       icon: FileText,
-      description: 'Complete Nostr event with all fields',
+      description: 'A single event, or many as a JSON array, JSONL or relay dump',
       example: '{"id": "a1b2c3...", "pubkey": "...", ...}'
     },
     {
       type: 'npub/nsec',
       icon: Key,
-      description: 'Public or private key identifiers',
+      description: 'Public or private keys, including password-encrypted ncryptsec',
       example: 'npub1abc123...'
     },
     {
       type: 'Event ID',
       icon: Hash,
-      description: 'Raw hex or note1... format',
+      description: 'note1... or raw hex, checked against relays to tell ids from keys',
       example: 'note1abc123...'
     },
     {
@@ -94,7 +94,7 @@ export default function Homepage({ onParsedResult }: HomepageProps) {
             <textarea
               value={input}
               onChange={(e) => setInput(e.target.value)}
-              placeholder="Paste your Nostr event JSON, npub, note ID, or any supported identifier..."
+              placeholder="Paste your Nostr event JSON, npub, note ID, name@domain address, or any supported identifier... Multiple events as a JSON array, JSONL or relay EVENT messages open in batch mode."
               className="w-full pl-12 pr-4 py-4 border border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all duration-200 resize-none bg-white/80 backdrop-blur-sm"
               rows={6}
             />
@@ -1,16 +1,44 @@
-import React, { useState } from 'react';
-import { ArrowLeft, Copy, Check, Key, Hash, Users, FileText, ExternalLink, Eye, X } from 'lucide-react';
-import { DecodedIdentifier } from '../types/nostr';
-import { copyToClipboard } from '../utils/nostr';
+import React, { useState, useMemo } from 'react';
+import { ArrowLeft, Copy, Check, Key, Hash, Users, FileText, ExternalLink, Eye, X, Code, AtSign, KeyRound } from 'lucide-react';
+import { DecodedIdentifier, NostrEvent, KIND_NAMES } from '../types/nostr';
+import { copyToClipboard, formatTimestamp, tlvEntriesToBytes } from '../utils/nostr';
+import { Nip05Resolution } from '../utils/nip05';
+import { historyTargetFromIdentifier, PROFILE_HISTORY_KINDS } from '../utils/history';
+import { keysFromSecret } from '../utils/keys';
+import RelayFetchPanel from './RelayFetchPanel';
+import TlvHexDump from './TlvHexDump';
+import SecretValue from './SecretValue';
+import VersionHistory from './VersionHistory';
+import PubkeyLabel from './PubkeyLabel';
 
 interface IdentifierDecoderProps {
   identifier: DecodedIdentifier;
+  // Set when the identifier was resolved from a NIP-05 address
+  nip05?: Nip05Resolution;
+  onEncode: (identifier: DecodedIdentifier) => void;
+  onOpenEvent: (event: NostrEvent) => void;
+  onCompare: (left: NostrEvent, right: NostrEvent) => void;
+  onOpenKeys?: (secretKey: string) => void;
+  onOpenIdentifier?: (identifier: DecodedIdentifier) => void;
   onBack: () => void;
 }
 
-export default function IdentifierDecoder({ identifier, onBack }: IdentifierDecoderProps) {
+export default function IdentifierDecoder({ identifier, nip05, onEncode, onOpenEvent, onCompare, onOpenKeys, onOpenIdentifier, onBack }: IdentifierDecoderProps) {
   const [copiedField, setCopiedField] = useState<string | null>(null);
   const [showRawJsonModal, setShowRawJsonModal] = useState(false);
+  const [historyKind, setHistoryKind] = useState(PROFILE_HISTORY_KINDS[0]);
+  const historyTarget = historyTargetFromIdentifier(identifier, historyKind);
+  const isProfileIdentifier = identifier.type === 'npub' || identifier.type === 'nprofile';
+
+  // nsec keeps the secret in data.pubkey; the real public key has to be derived
+  const derivedKeys = useMemo(() => {
+    if (identifier.type !== 'nsec' || !identifier.data.pubkey) return null;
+    try {
+      return { keys: keysFromSecret(identifier.data.pubkey, 'nsec'), error: '' };
+    } catch (error) {
+      return { keys: null, error: (error as Error).message };
+    }
+  }, [identifier]);
 
   const handleCopy = async (text: string, field: string) => {
     try {
@@ -73,6 +101,14 @@ export default function IdentifierDecoder({ identifier, onBack }: IdentifierDeco
         </button>
         
         <div className="flex items-center space-x-4">
+          <button
+            onClick={() => onEncode(identifier)}
+            className="flex items-center space-x-2 px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg transition-colors"
+          >
+            <Code className="h-4 w-4" />
+            <span>Re-encode</span>
+          </button>
+
           <button
             onClick={() => setShowRawJsonModal(true)}
             className="flex items-center space-x-2 px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg transition-colors"
@@ -96,6 +132,28 @@ export default function IdentifierDecoder({ identifier, onBack }: IdentifierDeco
         </h2>
 
         <div className="space-y-4">
+          {nip05 && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">NIP-05 Address</label>
+              <div className="flex items-center space-x-2">
+                <div className="bg-emerald-50 text-emerald-800 px-3 py-2 rounded-lg text-sm flex-1 flex items-center space-x-2">
+                  <AtSign className="h-4 w-4 flex-shrink-0" />
+                  <span className="break-all">{nip05.address}</span>
+                </div>
+                <button
+                  onClick={() => handleCopy(nip05.address, 'nip05')}
+                  className="p-2 text-slate-500 hover:text-slate-700 transition-colors"
+                >
+                  {copiedField === 'nip05' ? <Check className="h-4 w-4 text-emerald-600" /> : <Copy className="h-4 w-4" />}
+                </button>
+              </div>
+              <div className="text-xs text-slate-500 mt-1">
+                Resolved via nostr.json at {formatTimestamp(Math.floor(nip05.resolvedAt / 1000)).absolute}
+                {nip05.relays.length === 0 && ', no relays advertised'}
+              </div>
+            </div>
+          )}
+
           {identifier.data.id && (
             <div>
               <label className="block text-sm font-medium text-slate-700 mb-2">Event ID</label>
@@ -113,11 +171,73 @@ export default function IdentifierDecoder({ identifier, onBack }: IdentifierDeco
             </div>
           )}
 
-          {identifier.data.pubkey && (
+          {identifier.type === 'nsec' && identifier.data.pubkey && (
             <div>
-              <label className="block text-sm font-medium text-slate-700 mb-2">
-                {identifier.type === 'nsec' ? 'Private Key' : 'Public Key'}
-              </label>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Private Key</label>
+              <SecretValue value={identifier.data.pubkey} />
+              <div className="text-red-600 text-xs mt-1 font-medium">
+                ⚠️ This is a private key - keep it secure!
+              </div>
+            </div>
+          )}
+
+          {derivedKeys && (
+            <div className="space-y-4">
+              {derivedKeys.keys ? (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-2">Public Key (derived)</label>
+                    <div className="mb-2">
+                      <PubkeyLabel pubkey={derivedKeys.keys.publicKey} onOpenIdentifier={onOpenIdentifier} size="md" />
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <code className="bg-slate-100 px-3 py-2 rounded-lg font-mono text-sm flex-1 break-all">
+                        {derivedKeys.keys.publicKey}
+                      </code>
+                      <button
+                        onClick={() => handleCopy(derivedKeys.keys!.publicKey, 'derived-pubkey')}
+                        className="p-2 text-slate-500 hover:text-slate-700 transition-colors"
+                      >
+                        {copiedField === 'derived-pubkey' ? <Check className="h-4 w-4 text-emerald-600" /> : <Copy className="h-4 w-4" />}
+                      </button>
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-2">npub (derived)</label>
+                    <div className="flex items-center space-x-2">
+                      <code className="bg-slate-100 px-3 py-2 rounded-lg font-mono text-sm flex-1 break-all">
+                        {derivedKeys.keys.npub}
+                      </code>
+                      <button
+                        onClick={() => handleCopy(derivedKeys.keys!.npub, 'derived-npub')}
+                        className="p-2 text-slate-500 hover:text-slate-700 transition-colors"
+                      >
+                        {copiedField === 'derived-npub' ? <Check className="h-4 w-4 text-emerald-600" /> : <Copy className="h-4 w-4" />}
+                      </button>
+                    </div>
+                  </div>
+                </>
+              ) : (
+                <div className="text-red-600 text-sm">Cannot derive a public key: {derivedKeys.error}</div>
+              )}
+              {onOpenKeys && (
+                <button
+                  onClick={() => onOpenKeys(identifier.data.pubkey!)}
+                  className="flex items-center space-x-2 px-3 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-sm transition-colors"
+                >
+                  <KeyRound className="h-4 w-4" />
+                  <span>Open in Key Toolbox</span>
+                </button>
+              )}
+            </div>
+          )}
+
+          {identifier.type !== 'nsec' && identifier.data.pubkey && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Public Key</label>
+              <div className="mb-2">
+                <PubkeyLabel pubkey={identifier.data.pubkey} verify size="md" />
+              </div>
               <div className="flex items-center space-x-2">
                 <code className="bg-slate-100 px-3 py-2 rounded-lg font-mono text-sm flex-1 break-all">
                   {identifier.data.pubkey}
@@ -129,17 +249,15 @@ export default function IdentifierDecoder({ identifier, onBack }: IdentifierDeco
                   {copiedField === 'pubkey' ? <Check className="h-4 w-4 text-emerald-600" /> : <Copy className="h-4 w-4" />}
                 </button>
               </div>
-              {identifier.type === 'nsec' && (
-                <div className="text-red-600 text-xs mt-1 font-medium">
-                  ⚠️ This is a private key - keep it secure!
-                </div>
-              )}
             </div>
           )}
 
           {identifier.data.author && (
             <div>
               <label className="block text-sm font-medium text-slate-700 mb-2">Author</label>
+              <div className="mb-2">
+                <PubkeyLabel pubkey={identifier.data.author} onOpenIdentifier={onOpenIdentifier} verify size="md" />
+              </div>
               <div className="flex items-center space-x-2">
                 <code className="bg-slate-100 px-3 py-2 rounded-lg font-mono text-sm flex-1 break-all">
                   {identifier.data.author}
@@ -211,6 +329,37 @@ export default function IdentifierDecoder({ identifier, onBack }: IdentifierDeco
         </div>
       </div>
 
+      {/* Relay Fetch */}
+      <RelayFetchPanel identifier={identifier} onOpenEvent={onOpenEvent} />
+
+      {/* Version History */}
+      {historyTarget && (
+        <div className="space-y-3">
+          {isProfileIdentifier && (
+            <div className="flex items-center space-x-2 text-sm">
+              <span className="text-slate-600">History of</span>
+              {PROFILE_HISTORY_KINDS.map(kind => (
+                <button
+                  key={kind}
+                  onClick={() => setHistoryKind(kind)}
+                  className={`px-3 py-1 rounded-lg border transition-colors ${
+                    historyKind === kind ? 'bg-blue-50 border-blue-300 text-blue-700' : 'bg-white border-slate-200 text-slate-700 hover:bg-slate-50'
+                  }`}
+                >
+                  {kind} - {KIND_NAMES[kind]}
+                </button>
+              ))}
+            </div>
+          )}
+          <VersionHistory
+            target={historyTarget}
+            relays={identifier.data.relays}
+            onInspect={onOpenEvent}
+            onCompare={onCompare}
+          />
+        </div>
+      )}
+
       {/* TLV Breakdown */}
       {identifier.tlv && identifier.tlv.length > 0 && (
         <div className="bg-white/80 backdrop-blur-sm border border-slate-200 rounded-xl p-6">
@@ -223,6 +372,9 @@ export default function IdentifierDecoder({ identifier, onBack }: IdentifierDeco
             <table className="min-w-full divide-y divide-slate-200">
               <thead className="bg-slate-50">
                 <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                    Offset
+                  </th>
                   <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
                     Type
                   </th>
@@ -240,6 +392,9 @@ export default function IdentifierDecoder({ identifier, onBack }: IdentifierDeco
               <tbody className="bg-white divide-y divide-slate-200">
                 {identifier.tlv.map((tlv, index) => (
                   <tr key={index} className="hover:bg-slate-50 transition-colors">
+                    <td className="px-4 py-3 text-sm text-slate-600 font-mono">
+                      {tlv.offset}
+                    </td>
                     <td className="px-4 py-3 whitespace-nowrap">
                       <code className="bg-blue-100 text-blue-800 px-2 py-1 rounded text-sm font-mono">
                         {tlv.type}
@@ -269,6 +424,11 @@ export default function IdentifierDecoder({ identifier, onBack }: IdentifierDeco
               </tbody>
             </table>
           </div>
+
+          <div className="mt-6">
+            <h4 className="text-sm font-medium text-slate-700 mb-2">Payload Bytes</h4>
+            <TlvHexDump bytes={tlvEntriesToBytes(identifier.tlv)} tlv={identifier.tlv} />
+          </div>
         </div>
       )}
 
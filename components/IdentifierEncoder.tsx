@@ -0,0 +1,253 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, Copy, Check, Code, AlertCircle, ArrowRight, Link } from 'lucide-react';
+import { DecodedIdentifier } from '../types/nostr';
+import { encodeBech32Identifier, decodeBech32Identifier, copyToClipboard } from '../utils/nostr';
+
+interface IdentifierEncoderProps {
+  initial?: DecodedIdentifier | null;
+  onDecode: (identifier: DecodedIdentifier) => void;
+  onBack: () => void;
+}
+
+type IdentifierType = DecodedIdentifier['type'];
+
+const TYPE_OPTIONS: Array<{ type: IdentifierType; description: string }> = [
+  { type: 'npub', description: 'Public key' },
+  { type: 'nsec', description: 'Private key' },
+  { type: 'note', description: 'Event ID' },
+  { type: 'nevent', description: 'Event with relays, author and kind' },
+  { type: 'nprofile', description: 'Profile with relays' },
+  { type: 'naddr', description: 'Addressable event coordinate' }
+];
+
+export default function IdentifierEncoder({ initial, onDecode, onBack }: IdentifierEncoderProps) {
+  const [type, setType] = useState<IdentifierType>(initial?.type || 'nevent');
+  const [id, setId] = useState(initial?.data.id || '');
+  const [pubkey, setPubkey] = useState(initial?.data.pubkey || '');
+  const [author, setAuthor] = useState(initial?.data.author || '');
+  const [kind, setKind] = useState(initial?.data.kind !== undefined ? String(initial.data.kind) : '');
+  const [dTag, setDTag] = useState(initial?.data.dTag || '');
+  const [relays, setRelays] = useState((initial?.data.relays || []).join('\n'));
+  const [copiedField, setCopiedField] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!initial) return;
+    setType(initial.type);
+    setId(initial.data.id || '');
+    setPubkey(initial.data.pubkey || '');
+    setAuthor(initial.data.author || '');
+    setKind(initial.data.kind !== undefined ? String(initial.data.kind) : '');
+    setDTag(initial.data.dTag || '');
+    setRelays((initial.data.relays || []).join('\n'));
+  }, [initial]);
+
+  const usesId = type === 'note' || type === 'nevent';
+  const usesPubkey = type === 'npub' || type === 'nsec' || type === 'nprofile';
+  const usesAuthor = type === 'nevent' || type === 'naddr';
+  const usesKind = type === 'nevent' || type === 'naddr';
+  const usesDTag = type === 'naddr';
+  const usesRelays = type === 'nevent' || type === 'nprofile' || type === 'naddr';
+
+  const buildIdentifier = (): DecodedIdentifier => {
+    const data: DecodedIdentifier['data'] = {};
+    if (usesId) data.id = id.trim();
+    if (usesPubkey) data.pubkey = pubkey.trim();
+    if (usesAuthor && author.trim()) data.author = author.trim();
+    if (usesKind && kind.trim()) data.kind = Number(kind.trim());
+    if (usesDTag) data.dTag = dTag;
+    if (usesRelays) {
+      const relayList = relays.split('\n').map(r => r.trim()).filter(Boolean);
+      if (relayList.length > 0) data.relays = relayList;
+    }
+    return { type, data };
+  };
+
+  let encoded: string | null = null;
+  let error = '';
+  try {
+    encoded = encodeBech32Identifier(buildIdentifier());
+  } catch (err) {
+    error = (err as Error).message;
+  }
+
+  const handleOpenInDecoder = () => {
+    const decoded = encoded ? decodeBech32Identifier(encoded) : null;
+    if (decoded) onDecode(decoded);
+  };
+
+  const handleCopy = async (text: string, field: string) => {
+    try {
+      await copyToClipboard(text);
+      setCopiedField(field);
+      setTimeout(() => setCopiedField(null), 2000);
+    } catch (error) {
+      console.error('Failed to copy:', error);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-slate-200 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all duration-200';
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <button
+          onClick={onBack}
+          className="flex items-center space-x-2 text-slate-600 hover:text-slate-900 transition-colors group"
+        >
+          <ArrowLeft className="h-5 w-5 group-hover:-translate-x-1 transition-transform" />
+          <span>Back to Input</span>
+        </button>
+
+        <div className="flex items-center space-x-2 px-3 py-1 rounded-full text-sm font-medium bg-blue-100 text-blue-700">
+          <Code className="h-4 w-4" />
+          <span>ENCODE</span>
+        </div>
+      </div>
+
+      {/* Encoder Form */}
+      <div className="bg-white/80 backdrop-blur-sm border border-slate-200 rounded-xl p-6 space-y-6">
+        <h2 className="text-2xl font-bold text-slate-900 flex items-center space-x-3">
+          <Code className="h-6 w-6 text-blue-600" />
+          <span>Identifier Encoder</span>
+        </h2>
+
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">Identifier Type</label>
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-2">
+            {TYPE_OPTIONS.map(option => (
+              <button
+                key={option.type}
+                onClick={() => setType(option.type)}
+                className={`px-3 py-2 rounded-lg text-sm text-left transition-colors border ${
+                  type === option.type
+                    ? 'bg-blue-50 border-blue-300 text-blue-700'
+                    : 'bg-white border-slate-200 text-slate-700 hover:bg-slate-50'
+                }`}
+              >
+                <div className="font-mono font-semibold">{option.type}</div>
+                <div className="text-xs text-slate-500">{option.description}</div>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {usesId && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Event ID (hex)</label>
+              <input value={id} onChange={(e) => setId(e.target.value)} className={inputClass} placeholder="64 hex characters" />
+            </div>
+          )}
+
+          {usesPubkey && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">
+                {type === 'nsec' ? 'Private Key (hex)' : 'Public Key (hex)'}
+              </label>
+              <input value={pubkey} onChange={(e) => setPubkey(e.target.value)} className={inputClass} placeholder="64 hex characters" />
+              {type === 'nsec' && (
+                <div className="text-red-600 text-xs mt-1 font-medium">
+                  ⚠️ This is a private key - keep it secure!
+                </div>
+              )}
+            </div>
+          )}
+
+          {usesAuthor && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">
+                Author (hex){type === 'nevent' && ' - optional'}
+              </label>
+              <input value={author} onChange={(e) => setAuthor(e.target.value)} className={inputClass} placeholder="64 hex characters" />
+            </div>
+          )}
+
+          {usesKind && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">
+                Kind{type === 'nevent' && ' - optional'}
+              </label>
+              <input value={kind} onChange={(e) => setKind(e.target.value)} className={inputClass} placeholder="e.g. 30023" inputMode="numeric" />
+            </div>
+          )}
+
+          {usesDTag && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">D-Tag</label>
+              <input value={dTag} onChange={(e) => setDTag(e.target.value)} className={inputClass} placeholder="Identifier (may be empty)" />
+            </div>
+          )}
+
+          {usesRelays && (
+            <div className="lg:col-span-2">
+              <label className="block text-sm font-medium text-slate-700 mb-2">Relay Hints (one per line)</label>
+              <textarea
+                value={relays}
+                onChange={(e) => setRelays(e.target.value)}
+                className={`${inputClass} resize-none`}
+                rows={3}
+                placeholder="wss://relay.example.com"
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Result */}
+      <div className="bg-white/80 backdrop-blur-sm border border-slate-200 rounded-xl p-6 space-y-4">
+        <h3 className="text-xl font-bold text-slate-900 flex items-center space-x-3">
+          <Link className="h-5 w-5 text-blue-600" />
+          <span>Encoded Identifier</span>
+        </h3>
+
+        {encoded ? (
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Bech32</label>
+              <div className="flex items-center space-x-2">
+                <code className="bg-slate-100 px-3 py-2 rounded-lg font-mono text-sm flex-1 break-all">
+                  {encoded}
+                </code>
+                <button
+                  onClick={() => handleCopy(encoded!, 'encoded')}
+                  className="p-2 text-slate-500 hover:text-slate-700 transition-colors"
+                >
+                  {copiedField === 'encoded' ? <Check className="h-4 w-4 text-emerald-600" /> : <Copy className="h-4 w-4" />}
+                </button>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">NIP-21 URI</label>
+              <div className="flex items-center space-x-2">
+                <code className="bg-slate-100 px-3 py-2 rounded-lg font-mono text-sm flex-1 break-all">
+                  nostr:{encoded}
+                </code>
+                <button
+                  onClick={() => handleCopy(`nostr:${encoded}`, 'uri')}
+                  className="p-2 text-slate-500 hover:text-slate-700 transition-colors"
+                >
+                  {copiedField === 'uri' ? <Check className="h-4 w-4 text-emerald-600" /> : <Copy className="h-4 w-4" />}
+                </button>
+              </div>
+            </div>
+
+            <button
+              onClick={handleOpenInDecoder}
+              className="flex items-center space-x-2 text-sm text-blue-600 hover:text-blue-800 transition-colors group"
+            >
+              <span>Open in decoder</span>
+              <ArrowRight className="h-4 w-4 group-hover:translate-x-1 transition-transform" />
+            </button>
+          </div>
+        ) : (
+          <div className="flex items-center space-x-2 text-red-600 bg-red-50 px-4 py-3 rounded-lg">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            <span className="text-sm">{error}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import React from 'react';
+import { ArrowLeft, AlertCircle, Hash } from 'lucide-react';
+import { IdentifierDecodeResult } from '../types/nostr';
+import TlvHexDump from './TlvHexDump';
+
+interface InvalidIdentifierProps {
+  result: IdentifierDecodeResult;
+  onBack: () => void;
+}
+
+export default function InvalidIdentifier({ result, onBack }: InvalidIdentifierProps) {
+  const { error, input, bytes, tlv } = result;
+  const position = error?.position;
+  const trimmed = input.trim();
+
+  return (
+    <div className="space-y-8">
+      <button
+        onClick={onBack}
+        className="flex items-center space-x-2 text-slate-600 hover:text-slate-900 transition-colors group"
+      >
+        <ArrowLeft className="h-5 w-5 group-hover:-translate-x-1 transition-transform" />
+        <span>Back to Input</span>
+      </button>
+
+      <div className="bg-white/80 backdrop-blur-sm border border-slate-200 rounded-xl p-6 space-y-4">
+        <h2 className="text-2xl font-bold text-slate-900 flex items-center space-x-3">
+          <AlertCircle className="h-6 w-6 text-red-600" />
+          <span>Invalid {result.prefix ?? 'NIP-19'} identifier</span>
+        </h2>
+
+        {error && (
+          <div className="flex items-start space-x-3 bg-red-50 border border-red-200 rounded-lg p-4">
+            <code className="bg-red-100 text-red-800 px-2 py-1 rounded text-xs font-mono flex-shrink-0">{error.code}</code>
+            <span className="text-sm text-red-800">{error.message}</span>
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">Input</label>
+          <code className="block bg-slate-100 px-3 py-2 rounded-lg font-mono text-sm break-all text-slate-700">
+            {position === undefined ? trimmed : (
+              <>
+                {trimmed.slice(0, position)}
+                <span className="bg-red-200 text-red-900 rounded-sm">{trimmed.slice(position, position + 1) || ' '}</span>
+                {trimmed.slice(position + 1)}
+              </>
+            )}
+          </code>
+          {position !== undefined && (
+            <p className="text-xs text-slate-500 mt-1">Problem starts at character {position}</p>
+          )}
+        </div>
+      </div>
+
+      {bytes && (
+        <div className="bg-white/80 backdrop-blur-sm border border-slate-200 rounded-xl p-6">
+          <h3 className="text-xl font-bold text-slate-900 flex items-center space-x-3 mb-4">
+            <Hash className="h-5 w-5 text-blue-600" />
+            <span>Payload Bytes</span>
+          </h3>
+          <p className="text-sm text-slate-600 mb-4">
+            {bytes.length} bytes{tlv.length > 0 && `, ${tlv.length} TLV entr${tlv.length === 1 ? 'y' : 'ies'} decoded before the error`}
+          </p>
+          <TlvHexDump bytes={bytes} tlv={tlv} error={error} />
+        </div>
+      )}
+    </div>
+  );
+}
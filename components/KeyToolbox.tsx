@@ -0,0 +1,354 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { ArrowLeft, Copy, Check, Key, KeyRound, RefreshCw, Eye, EyeOff, ExternalLink, AlertCircle, Lock } from 'lucide-react';
+import { DecodedIdentifier } from '../types/nostr';
+import { copyToClipboard } from '../utils/nostr';
+import { parseKeyInput, looksLikeMnemonic, generateKeys, generateMnemonicKeys, KeySet, KeySource, MNEMONIC_WORD_COUNTS } from '../utils/keys';
+import { encryptNcryptsec, formatScryptMemory, DEFAULT_LOG_N, KEY_SECURITY_LABELS } from '../utils/nip49';
+import SecretValue from './SecretValue';
+
+interface KeyToolboxProps {
+  // Secret handed over from a decoded nsec; never taken from the URL
+  initialSecret: string | null;
+  onOpenIdentifier: (identifier: DecodedIdentifier) => void;
+  onBack: () => void;
+}
+
+const SOURCE_LABELS: Record<KeySource, string> = {
+  generated: 'Generated',
+  nsec: 'From nsec',
+  npub: 'From npub (public only)',
+  hex_secret: 'From hex secret key',
+  hex_public: 'From hex public key (public only)',
+  mnemonic: 'From NIP-06 mnemonic'
+};
+
+const BACKUP_LOG_N_OPTIONS = [DEFAULT_LOG_N, 18, 20];
+
+export default function KeyToolbox({ initialSecret, onOpenIdentifier, onBack }: KeyToolboxProps) {
+  const [input, setInput] = useState(initialSecret ?? '');
+  const [showInput, setShowInput] = useState(false);
+  const [hexAs, setHexAs] = useState<'secret' | 'public'>('secret');
+  const [passphrase, setPassphrase] = useState('');
+  const [account, setAccount] = useState('0');
+  const [copiedField, setCopiedField] = useState<string | null>(null);
+  const [backupPassword, setBackupPassword] = useState('');
+  const [backupConfirm, setBackupConfirm] = useState('');
+  const [backupLogN, setBackupLogN] = useState(DEFAULT_LOG_N);
+  const [backupSecurity, setBackupSecurity] = useState(0x02);
+  const [backup, setBackup] = useState<string | null>(null);
+  const [backupProgress, setBackupProgress] = useState<number | null>(null);
+  const [backupError, setBackupError] = useState('');
+  // scrypt cannot be cancelled, so results for an earlier key are dropped
+  const backupRunRef = useRef(0);
+
+  const isMnemonic = looksLikeMnemonic(input);
+  const isHex = /^[0-9a-f]{64}$/i.test(input.trim());
+
+  const { keys, error } = useMemo((): { keys: KeySet | null; error: string } => {
+    if (!input.trim()) return { keys: null, error: '' };
+    try {
+      const accountNumber = Number(account || '0');
+      return { keys: parseKeyInput(input, hexAs, { passphrase, account: accountNumber }), error: '' };
+    } catch (err) {
+      return { keys: null, error: (err as Error).message };
+    }
+  }, [input, hexAs, passphrase, account]);
+
+  useEffect(() => {
+    backupRunRef.current++;
+    setBackup(null);
+    setBackupError('');
+    setBackupProgress(null);
+  }, [keys?.secretKey]);
+
+  const handleBackup = async () => {
+    if (!keys?.secretKey) return;
+    if (backupPassword !== backupConfirm) {
+      setBackupError('Passwords do not match');
+      return;
+    }
+    const run = ++backupRunRef.current;
+    setBackup(null);
+    setBackupError('');
+    setBackupProgress(0);
+
+    try {
+      const ncryptsec = await encryptNcryptsec(keys.secretKey, backupPassword, {
+        logN: backupLogN,
+        keySecurity: backupSecurity,
+        onProgress: p => run === backupRunRef.current && setBackupProgress(p)
+      });
+      if (run === backupRunRef.current) setBackup(ncryptsec);
+    } catch (err) {
+      if (run === backupRunRef.current) setBackupError((err as Error).message);
+    } finally {
+      if (run === backupRunRef.current) setBackupProgress(null);
+    }
+  };
+
+  const handleCopy = async (text: string, field: string) => {
+    try {
+      await copyToClipboard(text);
+      setCopiedField(field);
+      setTimeout(() => setCopiedField(null), 2000);
+    } catch (error) {
+      console.error('Failed to copy:', error);
+    }
+  };
+
+  const handleGenerate = (wordCount: 12 | 24 | null) => {
+    const generated = wordCount ? generateMnemonicKeys(wordCount) : generateKeys();
+    setInput(generated.mnemonic ?? generated.nsec ?? '');
+    setShowInput(false);
+    setPassphrase('');
+    setAccount('0');
+  };
+
+  const renderPublic = (label: string, value: string, field: string) => (
+    <div>
+      <label className="block text-sm font-medium text-slate-700 mb-2">{label}</label>
+      <div className="flex items-center space-x-2">
+        <code className="bg-slate-100 px-3 py-2 rounded-lg font-mono text-sm flex-1 break-all">{value}</code>
+        <button
+          onClick={() => handleCopy(value, field)}
+          className="p-2 text-slate-500 hover:text-slate-700 transition-colors"
+        >
+          {copiedField === field ? <Check className="h-4 w-4 text-emerald-600" /> : <Copy className="h-4 w-4" />}
+        </button>
+      </div>
+    </div>
+  );
+
+  const inputClass = 'w-full px-3 py-2 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all duration-200';
+
+  return (
+    <div className="space-y-8">
+      <button
+        onClick={onBack}
+        className="flex items-center space-x-2 text-slate-600 hover:text-slate-900 transition-colors group"
+      >
+        <ArrowLeft className="h-5 w-5 group-hover:-translate-x-1 transition-transform" />
+        <span>Back to Input</span>
+      </button>
+
+      <div className="bg-white/80 backdrop-blur-sm border border-slate-200 rounded-xl p-6 space-y-6">
+        <h2 className="text-2xl font-bold text-slate-900 flex items-center space-x-3">
+          <KeyRound className="h-6 w-6 text-blue-600" />
+          <span>Key Toolbox</span>
+        </h2>
+        <p className="text-sm text-slate-600">
+          Keys are generated and converted in this browser and never leave it. Use throwaway keys for testing.
+        </p>
+
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => handleGenerate(null)}
+            className="flex items-center space-x-2 px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm transition-colors"
+          >
+            <RefreshCw className="h-4 w-4" />
+            <span>New keypair</span>
+          </button>
+          {MNEMONIC_WORD_COUNTS.map(count => (
+            <button
+              key={count}
+              onClick={() => handleGenerate(count)}
+              className="flex items-center space-x-2 px-3 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-sm transition-colors"
+            >
+              <RefreshCw className="h-4 w-4" />
+              <span>New {count}-word mnemonic</span>
+            </button>
+          ))}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">nsec, npub, hex key or mnemonic</label>
+          <div className="flex items-center space-x-2">
+            <input
+              type={showInput ? 'text' : 'password'}
+              value={input}
+              onChange={e => setInput(e.target.value)}
+              autoComplete="off"
+              spellCheck={false}
+              className={`${inputClass} font-mono`}
+            />
+            <button
+              onClick={() => setShowInput(!showInput)}
+              title={showInput ? 'Hide' : 'Reveal'}
+              className="p-2 text-slate-500 hover:text-slate-700 transition-colors"
+            >
+              {showInput ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+            </button>
+          </div>
+        </div>
+
+        {isHex && (
+          <div className="flex items-center space-x-4 text-sm text-slate-700">
+            <span>This hex key is a</span>
+            {(['secret', 'public'] as const).map(option => (
+              <label key={option} className="flex items-center space-x-1">
+                <input type="radio" checked={hexAs === option} onChange={() => setHexAs(option)} />
+                <span>{option} key</span>
+              </label>
+            ))}
+          </div>
+        )}
+
+        {isMnemonic && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">BIP-39 passphrase (optional)</label>
+              <input
+                type="password"
+                value={passphrase}
+                onChange={e => setPassphrase(e.target.value)}
+                autoComplete="off"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Account</label>
+              <input
+                type="number"
+                min={0}
+                value={account}
+                onChange={e => setAccount(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center space-x-2 text-red-600 text-sm">
+            <AlertCircle className="h-4 w-4" />
+            <span>{error}</span>
+          </div>
+        )}
+      </div>
+
+      {keys && (
+        <div className="bg-white/80 backdrop-blur-sm border border-slate-200 rounded-xl p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-xl font-bold text-slate-900 flex items-center space-x-3">
+              <Key className="h-5 w-5 text-blue-600" />
+              <span>Keys</span>
+            </h3>
+            <span className="bg-slate-100 text-slate-700 px-3 py-1 rounded-full text-xs font-medium">{SOURCE_LABELS[keys.source]}</span>
+          </div>
+
+          {renderPublic('Public Key (hex)', keys.publicKey, 'publicKey')}
+          <div>
+            {renderPublic('npub', keys.npub, 'npub')}
+            <button
+              onClick={() => onOpenIdentifier({ type: 'npub', data: { pubkey: keys.publicKey } })}
+              className="flex items-center space-x-1 mt-2 text-xs text-blue-600 hover:text-blue-800 transition-colors"
+            >
+              <ExternalLink className="h-3 w-3" />
+              <span>Open profile identifier</span>
+            </button>
+          </div>
+
+          {keys.secretKey && keys.nsec && (
+            <div className="space-y-4 pt-4 border-t border-slate-200">
+              <div className="text-red-600 text-xs font-medium">
+                ⚠️ Anyone with these values controls this identity
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">nsec</label>
+                <SecretValue value={keys.nsec} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Secret Key (hex)</label>
+                <SecretValue value={keys.secretKey} />
+              </div>
+              {keys.mnemonic && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Mnemonic</label>
+                  <SecretValue value={keys.mnemonic} />
+                  <div className="text-xs text-slate-500 mt-1">
+                    Derivation path <code className="font-mono">{keys.path}</code>
+                    {passphrase && ' with passphrase'}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {keys?.secretKey && (
+        <div className="bg-white/80 backdrop-blur-sm border border-slate-200 rounded-xl p-6 space-y-4">
+          <h3 className="text-xl font-bold text-slate-900 flex items-center space-x-3">
+            <Lock className="h-5 w-5 text-blue-600" />
+            <span>Encrypted Backup (NIP-49)</span>
+          </h3>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Password</label>
+              <input
+                type="password"
+                value={backupPassword}
+                onChange={e => setBackupPassword(e.target.value)}
+                autoComplete="new-password"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Confirm Password</label>
+              <input
+                type="password"
+                value={backupConfirm}
+                onChange={e => setBackupConfirm(e.target.value)}
+                autoComplete="new-password"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">scrypt Cost (log_n)</label>
+              <select
+                value={backupLogN}
+                onChange={e => setBackupLogN(Number(e.target.value))}
+                className={inputClass}
+              >
+                {BACKUP_LOG_N_OPTIONS.map(logN => (
+                  <option key={logN} value={logN}>{logN} ({formatScryptMemory(logN)})</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Key Security</label>
+              <select
+                value={backupSecurity}
+                onChange={e => setBackupSecurity(Number(e.target.value))}
+                className={inputClass}
+              >
+                {Object.entries(KEY_SECURITY_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>0x0{value} - {label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <button
+            onClick={handleBackup}
+            disabled={backupProgress !== null || !backupPassword}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm transition-colors disabled:opacity-50"
+          >
+            {backupProgress !== null ? <RefreshCw className="h-4 w-4 animate-spin" /> : <Lock className="h-4 w-4" />}
+            <span>{backupProgress !== null ? `Deriving key ${Math.round(backupProgress * 100)}%` : 'Encrypt to ncryptsec'}</span>
+          </button>
+
+          {backupError && (
+            <div className="flex items-center space-x-2 text-red-600 text-sm">
+              <AlertCircle className="h-4 w-4" />
+              <span>{backupError}</span>
+            </div>
+          )}
+
+          {backup && renderPublic('ncryptsec', backup, 'ncryptsec')}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { List, Lock, Unlock, Eye, EyeOff, AlertCircle, Copy as CopyIcon, Link } from 'lucide-react';
+import { NostrEvent, DecodedIdentifier, KIND_NAMES } from '../types/nostr';
+import { truncateId } from '../utils/nostr';
+import { parseSecretKey } from '../utils/signer';
+import { tagToIdentifier } from '../utils/content';
+import { buildListItems, groupListItems, decryptPrivateItems, ListItem, ListItemGroup, PrivateListItems, LIST_GROUP_LABELS } from '../utils/lists';
+import PubkeyLabel from './PubkeyLabel';
+
+interface ListRendererProps {
+  event: NostrEvent;
+  onOpenIdentifier: (identifier: DecodedIdentifier) => void;
+}
+
+export default function ListRenderer({ event, onOpenIdentifier }: ListRendererProps) {
+  const [secretInput, setSecretInput] = useState('');
+  const [showSecret, setShowSecret] = useState(false);
+  const [privateItems, setPrivateItems] = useState<PrivateListItems | null>(null);
+  const [error, setError] = useState('');
+  const [isDecrypting, setIsDecrypting] = useState(false);
+
+  useEffect(() => {
+    setPrivateItems(null);
+    setError('');
+  }, [event]);
+
+  const publicItems = useMemo(() => buildListItems(event.tags, privateItems?.tags || []), [event, privateItems]);
+  const privateListItems = useMemo(() => buildListItems(privateItems?.tags || [], event.tags), [event, privateItems]);
+
+  const title = event.tags.find(t => t[0] === 'title' || t[0] === 'name')?.[1];
+  const description = event.tags.find(t => t[0] === 'description')?.[1];
+  const dTag = event.tags.find(t => t[0] === 'd')?.[1];
+  const hasPrivateContent = event.content.trim().length > 0;
+
+  const handleDecrypt = async () => {
+    setError('');
+    setPrivateItems(null);
+    setIsDecrypting(true);
+    try {
+      const result = await decryptPrivateItems(event, parseSecretKey(secretInput));
+      if (result.error) {
+        setError(result.error);
+      } else {
+        setPrivateItems(result);
+      }
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  const renderItem = (item: ListItem, index: number) => {
+    const [name, value, ...rest] = item.tag;
+    const identifier = tagToIdentifier(item.tag);
+    const display = item.group === 'pubkeys' || item.group === 'events' ? truncateId(value || '', 10) : value;
+
+    return (
+      <div key={index} className="flex items-center justify-between bg-slate-50 px-3 py-2 rounded-lg text-sm">
+        <div className="flex items-center space-x-2 min-w-0">
+          {item.group === 'emojis' && rest[0] && (
+            <img src={rest[0]} alt={value} loading="lazy" className="h-5 w-5 object-contain flex-shrink-0" />
+          )}
+          {identifier ? (
+            <button
+              onClick={() => onOpenIdentifier(identifier)}
+              className="flex items-center space-x-1 font-mono text-xs text-purple-700 hover:underline truncate"
+            >
+              <Link className="h-3 w-3 flex-shrink-0" />
+              {item.group === 'pubkeys' && value ? <PubkeyLabel pubkey={value} /> : <span className="truncate">{display}</span>}
+            </button>
+          ) : (
+            <span className={`truncate ${item.group === 'hashtags' ? 'text-blue-700' : 'text-slate-800'}`}>
+              {item.group === 'hashtags' ? `#${value}` : item.group === 'emojis' ? `:${value}:` : display}
+            </span>
+          )}
+          {item.group === 'other' && <code className="text-xs text-slate-500">{name}</code>}
+        </div>
+        <div className="flex items-center space-x-1 flex-shrink-0">
+          {item.duplicate && (
+            <span className="flex items-center space-x-1 bg-amber-100 text-amber-700 px-2 py-0.5 rounded-full text-xs">
+              <CopyIcon className="h-3 w-3" />
+              <span>Duplicate</span>
+            </span>
+          )}
+          {item.inBoth && (
+            <span className="bg-purple-100 text-purple-700 px-2 py-0.5 rounded-full text-xs">Public & private</span>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderSection = (label: string, items: ListItem[], icon: React.ReactNode, emptyText: string) => {
+    const groups = groupListItems(items);
+    const duplicates = items.filter(i => i.duplicate).length;
+
+    return (
+      <div className="space-y-4">
+        <h4 className="text-sm font-semibold text-slate-900 flex items-center space-x-2">
+          {icon}
+          <span>{label} ({items.length})</span>
+          {duplicates > 0 && <span className="text-xs font-normal text-amber-700">{duplicates} duplicate{duplicates === 1 ? '' : 's'}</span>}
+        </h4>
+        {items.length === 0 ? (
+          <div className="text-sm text-slate-500 italic">{emptyText}</div>
+        ) : (
+          (Object.keys(groups) as ListItemGroup[]).map(group => (
+            <div key={group} className="space-y-1">
+              <div className="text-xs font-medium text-slate-500 uppercase tracking-wide">
+                {LIST_GROUP_LABELS[group]} ({groups[group]!.length})
+              </div>
+              {groups[group]!.map(renderItem)}
+            </div>
+          ))
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm border border-slate-200 rounded-xl p-6 space-y-6">
+      <div>
+        <h3 className="text-xl font-bold text-slate-900 flex items-center space-x-3">
+          <List className="h-5 w-5 text-blue-600" />
+          <span>{title || KIND_NAMES[event.kind] || 'List'}</span>
+        </h3>
+        {dTag && <div className="text-xs text-slate-500 font-mono mt-1">d: {dTag}</div>}
+        {description && <p className="text-sm text-slate-700 mt-2">{description}</p>}
+      </div>
+
+      {hasPrivateContent && !privateItems && (
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-slate-700">
+            This list has encrypted private items. Author secret key (nsec or hex)
+          </label>
+          <div className="flex items-center space-x-2">
+            <input
+              type={showSecret ? 'text' : 'password'}
+              value={secretInput}
+              onChange={(e) => setSecretInput(e.target.value)}
+              className="flex-1 px-3 py-2 border border-slate-200 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              autoComplete="off"
+              spellCheck={false}
+            />
+            <button
+              onClick={() => setShowSecret(!showSecret)}
+              className="p-2 text-slate-500 hover:text-slate-700 transition-colors"
+            >
+              {showSecret ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+            </button>
+            <button
+              onClick={handleDecrypt}
+              disabled={!secretInput.trim() || isDecrypting}
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Unlock className="h-4 w-4" />
+              <span>{isDecrypting ? 'Decrypting...' : 'Decrypt'}</span>
+            </button>
+          </div>
+          {error && (
+            <div className="flex items-center space-x-2 text-red-600 text-sm">
+              <AlertCircle className="h-4 w-4" />
+              <span>{error}</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {renderSection('Public', publicItems, <List className="h-4 w-4 text-slate-500" />, 'No public items')}
+        {renderSection(
+          privateItems?.scheme ? `Private (${privateItems.scheme.replace('nip', 'NIP-')})` : 'Private',
+          privateListItems,
+          privateItems ? <Unlock className="h-4 w-4 text-emerald-600" /> : <Lock className="h-4 w-4 text-slate-500" />,
+          !hasPrivateContent ? 'No private items' : privateItems ? 'Encrypted list is empty' : 'Encrypted, supply the author key to view'
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,19 @@
-import React, { useState } from 'react';
-import { Copy, Check, BookOpen, Calendar, Globe, Image as ImageIcon, Tag, ExternalLink, AlertTriangle, FileText, Eye, X } from 'lucide-react';
-import { NostrEvent } from '../types/nostr';
-import { formatTimestamp } from '../utils/nostr';
+import React, { useState, useMemo } from 'react';
+import ReactMarkdown, { Components, defaultUrlTransform } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { Copy, Check, BookOpen, Calendar, Globe, Image as ImageIcon, Tag, ExternalLink, AlertTriangle, FileText, Eye, X, Clock, List, Link } from 'lucide-react';
+import { NostrEvent, DecodedIdentifier } from '../types/nostr';
+import { formatTimestamp, decodeBech32Identifier } from '../utils/nostr';
+import { createSlugger, extractOutline, estimateReadingTime, remarkNostrLinks } from '../utils/markdown';
 
 interface NIP23RendererProps {
   event: NostrEvent;
   onCopy: (text: string, field: string) => void;
+  onOpenIdentifier: (identifier: DecodedIdentifier) => void;
   copiedField: string | null;
 }
 
-export default function NIP23Renderer({ event, onCopy, copiedField }: NIP23RendererProps) {
+export default function NIP23Renderer({ event, onCopy, onOpenIdentifier, copiedField }: NIP23RendererProps) {
   const [showMarkdownModal, setShowMarkdownModal] = useState(false);
   
   // Extract NIP-23 metadata from tags
@@ -39,30 +43,80 @@ export default function NIP23Renderer({ event, onCopy, copiedField }: NIP23Rende
   const publishedTimestamp = publishedAt ? formatTimestamp(parseInt(publishedAt)) : null;
   const createdTimestamp = formatTimestamp(event.created_at);
 
-  // Simple markdown to HTML converter for basic formatting
-  const renderMarkdown = (content: string): string => {
-    return content
-      // Headers
-      .replace(/^### (.*$)/gim, '<h3 class="text-lg font-bold text-slate-900 mt-6 mb-3">$1</h3>')
-      .replace(/^## (.*$)/gim, '<h2 class="text-xl font-bold text-slate-900 mt-8 mb-4">$1</h2>')
-      .replace(/^# (.*$)/gim, '<h1 class="text-2xl font-bold text-slate-900 mt-8 mb-4">$1</h1>')
-      // Bold and italic
-      .replace(/\*\*(.*?)\*\*/g, '<strong class="font-semibold">$1</strong>')
-      .replace(/\*(.*?)\*/g, '<em class="italic">$1</em>')
-      // Links
-      .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '<a href="$2" target="_blank" rel="noopener noreferrer" class="text-blue-600 hover:text-blue-800 underline">$1</a>')
-      // Images
-      .replace(/!\[([^\]]*)\]\(([^)]+)\)/g, '<img src="$2" alt="$1" class="max-w-full h-auto rounded-lg my-4" />')
-      // Code blocks
-      .replace(/```([\s\S]*?)```/g, '<pre class="bg-slate-100 p-4 rounded-lg overflow-x-auto my-4"><code class="text-sm font-mono">$1</code></pre>')
-      // Inline code
-      .replace(/`([^`]+)`/g, '<code class="bg-slate-100 px-2 py-1 rounded text-sm font-mono">$1</code>')
-      // Line breaks
-      .replace(/\n\n/g, '</p><p class="mb-4">')
-      .replace(/\n/g, '<br />');
-  };
+  const outline = useMemo(() => extractOutline(event.content), [event.content]);
+  const readingTime = useMemo(() => estimateReadingTime(event.content), [event.content]);
+
+  // Raw HTML is never rendered; only nostr: is allowed on top of react-markdown's safe URL schemes
+  const urlTransform = (url: string) => (url.startsWith('nostr:') ? url : defaultUrlTransform(url));
+
+  const slug = createSlugger();
+  const heading = (level: number, className: string) =>
+    ({ children }: { children?: React.ReactNode }) =>
+      React.createElement(`h${level}`, { id: slug(nodeText(children)), className }, children);
 
-  const renderedContent = `<p class="mb-4">${renderMarkdown(event.content)}</p>`;
+  const markdownComponents: Components = {
+    h1: heading(1, 'text-2xl font-bold text-slate-900 mt-8 mb-4 scroll-mt-20'),
+    h2: heading(2, 'text-xl font-bold text-slate-900 mt-8 mb-4 scroll-mt-20'),
+    h3: heading(3, 'text-lg font-bold text-slate-900 mt-6 mb-3 scroll-mt-20'),
+    h4: heading(4, 'text-base font-bold text-slate-900 mt-6 mb-3 scroll-mt-20'),
+    h5: heading(5, 'text-sm font-bold text-slate-900 mt-4 mb-2 scroll-mt-20'),
+    h6: heading(6, 'text-sm font-semibold text-slate-700 mt-4 mb-2 scroll-mt-20'),
+    p: ({ children }) => <p className="mb-4">{children}</p>,
+    strong: ({ children }) => <strong className="font-semibold">{children}</strong>,
+    em: ({ children }) => <em className="italic">{children}</em>,
+    del: ({ children }) => <del className="line-through text-slate-500">{children}</del>,
+    ul: ({ children, className }) => (
+      <ul className={`mb-4 pl-6 space-y-1 ${className?.includes('contains-task-list') ? 'list-none' : 'list-disc'}`}>{children}</ul>
+    ),
+    ol: ({ children, start }) => <ol start={start} className="mb-4 pl-6 space-y-1 list-decimal">{children}</ol>,
+    blockquote: ({ children }) => (
+      <blockquote className="border-l-4 border-slate-300 pl-4 my-4 text-slate-600 italic">{children}</blockquote>
+    ),
+    hr: () => <hr className="my-8 border-slate-200" />,
+    pre: ({ children }) => <pre className="bg-slate-100 p-4 rounded-lg overflow-x-auto my-4">{children}</pre>,
+    code: ({ children, className }) => (
+      <code className={`text-sm font-mono ${className ? '' : 'bg-slate-100 px-2 py-1 rounded'}`}>{children}</code>
+    ),
+    table: ({ children }) => (
+      <div className="overflow-x-auto my-4">
+        <table className="min-w-full divide-y divide-slate-200 border border-slate-200">{children}</table>
+      </div>
+    ),
+    th: ({ children, style }) => (
+      <th style={style} className="px-4 py-2 bg-slate-50 text-left text-sm font-semibold text-slate-700">{children}</th>
+    ),
+    td: ({ children, style }) => <td style={style} className="px-4 py-2 text-sm border-t border-slate-200">{children}</td>,
+    img: ({ src, alt }) => <img src={src} alt={alt || ''} loading="lazy" className="max-w-full h-auto rounded-lg my-4" />,
+    a: ({ href, children }) => {
+      if (href?.startsWith('nostr:')) {
+        const identifier = decodeBech32Identifier(href.slice(6));
+        return (
+          <button
+            onClick={() => identifier && onOpenIdentifier(identifier)}
+            disabled={!identifier}
+            title={identifier ? 'Open in decoder' : 'Could not decode reference'}
+            className="inline-flex items-center space-x-1 bg-purple-100 text-purple-700 hover:bg-purple-200 px-2 py-0.5 rounded-full text-xs font-mono align-baseline transition-colors disabled:cursor-not-allowed"
+          >
+            <Link className="h-3 w-3" />
+            <span className="truncate max-w-xs">{children}</span>
+          </button>
+        );
+      }
+      if (href?.startsWith('#')) {
+        // Changing location.hash would hand the fragment to the app router, so scroll to the target instead
+        return (
+          <a href={href} onClick={event => scrollToFragment(event, href)} className="text-blue-600 hover:text-blue-800 underline">
+            {children}
+          </a>
+        );
+      }
+      return (
+        <a href={href} target="_blank" rel="noopener noreferrer nofollow" className="text-blue-600 hover:text-blue-800 underline">
+          {children}
+        </a>
+      );
+    }
+  };
 
   return (
     <div className="space-y-6">
@@ -127,6 +181,11 @@ export default function NIP23Renderer({ event, onCopy, copiedField }: NIP23Rende
               </div>
             )}
 
+            <div className="flex items-center space-x-1">
+              <Clock className="h-4 w-4" />
+              <span>{readingTime.minutes} min read ({readingTime.words} words)</span>
+            </div>
+
             {lang && (
               <div className="flex items-center space-x-1">
                 <Globe className="h-4 w-4" />
@@ -176,6 +235,28 @@ export default function NIP23Renderer({ event, onCopy, copiedField }: NIP23Rende
         </div>
       </div>
 
+      {/* Outline */}
+      {outline.length > 1 && (
+        <div className="bg-white/80 backdrop-blur-sm border border-slate-200 rounded-xl p-6">
+          <h3 className="text-xl font-bold text-slate-900 flex items-center space-x-3 mb-4">
+            <List className="h-5 w-5 text-blue-600" />
+            <span>Outline</span>
+          </h3>
+          <nav className="space-y-1">
+            {outline.map((item, index) => (
+              <button
+                key={index}
+                onClick={() => document.getElementById(item.slug)?.scrollIntoView({ behavior: 'smooth' })}
+                className="block text-left text-sm text-slate-700 hover:text-blue-700 transition-colors"
+                style={{ paddingLeft: `${(item.level - 1) * 1}rem` }}
+              >
+                {item.text}
+              </button>
+            ))}
+          </nav>
+        </div>
+      )}
+
       {/* Article Content */}
       <div className="bg-white/80 backdrop-blur-sm border border-slate-200 rounded-xl p-6">
         <div className="flex items-center justify-between mb-6">
@@ -205,10 +286,15 @@ export default function NIP23Renderer({ event, onCopy, copiedField }: NIP23Rende
 
         {/* Rendered Content */}
         <div className="prose prose-slate max-w-none">
-          <div 
-            className="text-slate-800 leading-relaxed"
-            dangerouslySetInnerHTML={{ __html: renderedContent }}
-          />
+          <div className="text-slate-800 leading-relaxed">
+            <ReactMarkdown
+              remarkPlugins={[remarkGfm, remarkNostrLinks]}
+              urlTransform={urlTransform}
+              components={markdownComponents}
+            >
+              {event.content}
+            </ReactMarkdown>
+          </div>
         </div>
       </div>
 
@@ -298,4 +384,23 @@ export default function NIP23Renderer({ event, onCopy, copiedField }: NIP23Rende
       )}
     </div>
   );
-}
\ No newline at end of file
+}
+
+// Flattens rendered heading children back to plain text for slug generation
+function nodeText(node: React.ReactNode): string {
+  if (typeof node === 'string' || typeof node === 'number') return String(node);
+  if (Array.isArray(node)) return node.map(nodeText).join('');
+  if (React.isValidElement(node)) return nodeText((node.props as { children?: React.ReactNode }).children);
+  return '';
+}
+
+function scrollToFragment(event: React.MouseEvent, href: string) {
+  event.preventDefault();
+  let id = href.slice(1);
+  try {
+    id = decodeURIComponent(id);
+  } catch {
+    // Keep the raw fragment
+  }
+  document.getElementById(id)?.scrollIntoView({ behavior: 'smooth' });
+}
@@ -0,0 +1,189 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { ArrowLeft, Lock, Unlock, Copy, Check, KeyRound, AlertCircle, RefreshCw } from 'lucide-react';
+import { copyToClipboard } from '../utils/nostr';
+import { decodeNcryptsec, decryptNcryptsec, KEY_SECURITY_LABELS, MAX_LOG_N, formatScryptMemory } from '../utils/nip49';
+import { keysFromSecret, KeySet } from '../utils/keys';
+import SecretValue from './SecretValue';
+
+interface NcryptsecDecoderProps {
+  value: string;
+  onOpenKeys: (secretKey: string) => void;
+  onBack: () => void;
+}
+
+export default function NcryptsecDecoder({ value, onOpenKeys, onBack }: NcryptsecDecoderProps) {
+  const [password, setPassword] = useState('');
+  const [keys, setKeys] = useState<KeySet | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState('');
+  const [copiedField, setCopiedField] = useState<string | null>(null);
+  // Stale scrypt runs cannot be cancelled, so their results are ignored instead
+  const runRef = useRef(0);
+
+  const { payload, decodeError } = useMemo(() => {
+    try {
+      return { payload: decodeNcryptsec(value), decodeError: '' };
+    } catch (err) {
+      return { payload: null, decodeError: (err as Error).message };
+    }
+  }, [value]);
+
+  useEffect(() => {
+    setKeys(null);
+    setError('');
+    setProgress(null);
+    return () => {
+      runRef.current++;
+    };
+  }, [value]);
+
+  const handleCopy = async (text: string, field: string) => {
+    try {
+      await copyToClipboard(text);
+      setCopiedField(field);
+      setTimeout(() => setCopiedField(null), 2000);
+    } catch (error) {
+      console.error('Failed to copy:', error);
+    }
+  };
+
+  const handleDecrypt = async () => {
+    const run = ++runRef.current;
+    setKeys(null);
+    setError('');
+    setProgress(0);
+
+    try {
+      const secretKey = await decryptNcryptsec(value, password, {
+        onProgress: p => run === runRef.current && setProgress(p)
+      });
+      if (run === runRef.current) setKeys(keysFromSecret(secretKey, 'nsec'));
+    } catch (err) {
+      if (run === runRef.current) setError((err as Error).message);
+    } finally {
+      if (run === runRef.current) setProgress(null);
+    }
+  };
+
+  const fields = payload ? [
+    { label: 'Version', value: `0x${payload.version.toString(16).padStart(2, '0')}` },
+    { label: 'log_n', value: `${payload.logN} (scrypt N = 2^${payload.logN}, ${formatScryptMemory(payload.logN)})` },
+    { label: 'Salt', value: payload.salt },
+    { label: 'Nonce', value: payload.nonce },
+    { label: 'Key Security', value: `0x${payload.keySecurity.toString(16).padStart(2, '0')} - ${KEY_SECURITY_LABELS[payload.keySecurity] ?? 'Unknown value'}` },
+    { label: 'Ciphertext', value: payload.ciphertext }
+  ] : [];
+
+  return (
+    <div className="space-y-8">
+      <button
+        onClick={onBack}
+        className="flex items-center space-x-2 text-slate-600 hover:text-slate-900 transition-colors group"
+      >
+        <ArrowLeft className="h-5 w-5 group-hover:-translate-x-1 transition-transform" />
+        <span>Back to Input</span>
+      </button>
+
+      <div className="bg-white/80 backdrop-blur-sm border border-slate-200 rounded-xl p-6 space-y-6">
+        <h2 className="text-2xl font-bold text-slate-900 flex items-center space-x-3">
+          <Lock className="h-6 w-6 text-blue-600" />
+          <span>Encrypted Secret Key (NIP-49)</span>
+        </h2>
+
+        {decodeError && (
+          <div className="flex items-center space-x-2 text-red-600 text-sm">
+            <AlertCircle className="h-4 w-4" />
+            <span>{decodeError}</span>
+          </div>
+        )}
+
+        <div className="space-y-4">
+          {fields.map(field => (
+            <div key={field.label}>
+              <label className="block text-sm font-medium text-slate-700 mb-2">{field.label}</label>
+              <div className="flex items-center space-x-2">
+                <code className="bg-slate-100 px-3 py-2 rounded-lg font-mono text-sm flex-1 break-all">{field.value}</code>
+                <button
+                  onClick={() => handleCopy(field.value, field.label)}
+                  className="p-2 text-slate-500 hover:text-slate-700 transition-colors"
+                >
+                  {copiedField === field.label ? <Check className="h-4 w-4 text-emerald-600" /> : <Copy className="h-4 w-4" />}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {payload && (
+        <div className="bg-white/80 backdrop-blur-sm border border-slate-200 rounded-xl p-6 space-y-4">
+          <h3 className="text-xl font-bold text-slate-900 flex items-center space-x-3">
+            <Unlock className="h-5 w-5 text-blue-600" />
+            <span>Decrypt</span>
+          </h3>
+
+          {payload.logN > MAX_LOG_N ? (
+            <div className="text-sm text-red-600">
+              log_n {payload.logN} needs {formatScryptMemory(payload.logN)}, more than a browser tab can allocate.
+            </div>
+          ) : (
+            <div className="flex items-center space-x-2">
+              <input
+                type="password"
+                value={password}
+                onChange={e => setPassword(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && progress === null && handleDecrypt()}
+                placeholder="Password"
+                autoComplete="off"
+                className="flex-1 px-3 py-2 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all duration-200"
+              />
+              <button
+                onClick={handleDecrypt}
+                disabled={progress !== null}
+                className="flex items-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm transition-colors disabled:opacity-50"
+              >
+                {progress !== null ? <RefreshCw className="h-4 w-4 animate-spin" /> : <Unlock className="h-4 w-4" />}
+                <span>{progress !== null ? `Deriving key ${Math.round(progress * 100)}%` : 'Decrypt'}</span>
+              </button>
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-center space-x-2 text-red-600 text-sm">
+              <AlertCircle className="h-4 w-4" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {keys && keys.secretKey && keys.nsec && (
+            <div className="space-y-4 pt-4 border-t border-slate-200">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">nsec</label>
+                <SecretValue value={keys.nsec} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">npub</label>
+                <div className="flex items-center space-x-2">
+                  <code className="bg-slate-100 px-3 py-2 rounded-lg font-mono text-sm flex-1 break-all">{keys.npub}</code>
+                  <button
+                    onClick={() => handleCopy(keys.npub, 'npub')}
+                    className="p-2 text-slate-500 hover:text-slate-700 transition-colors"
+                  >
+                    {copiedField === 'npub' ? <Check className="h-4 w-4 text-emerald-600" /> : <Copy className="h-4 w-4" />}
+                  </button>
+                </div>
+              </div>
+              <button
+                onClick={() => onOpenKeys(keys.secretKey!)}
+                className="flex items-center space-x-2 px-3 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-sm transition-colors"
+              >
+                <KeyRound className="h-4 w-4" />
+                <span>Open in Key Toolbox</span>
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ArrowLeft, AtSign, RefreshCw, AlertCircle } from 'lucide-react';
+import { DecodedIdentifier, NostrEvent } from '../types/nostr';
+import { resolveNip05, nip05Url, Nip05Resolution } from '../utils/nip05';
+import { parseNip05 } from '../utils/formats';
+import IdentifierDecoder from './IdentifierDecoder';
+
+interface Nip05ResolverProps {
+  address: string;
+  onEncode: (identifier: DecodedIdentifier) => void;
+  onOpenEvent: (event: NostrEvent) => void;
+  onCompare: (left: NostrEvent, right: NostrEvent) => void;
+  onBack: () => void;
+}
+
+export default function Nip05Resolver({ address, onEncode, onOpenEvent, onCompare, onBack }: Nip05ResolverProps) {
+  const [resolution, setResolution] = useState<Nip05Resolution | null>(null);
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const abortRef = useRef<AbortController | null>(null);
+
+  const lookup = async (refresh: boolean) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setResolution(null);
+    setError('');
+    setIsLoading(true);
+
+    try {
+      const result = await resolveNip05(address, { signal: controller.signal, refresh });
+      if (!controller.signal.aborted) setResolution(result);
+    } catch (err) {
+      if (!controller.signal.aborted) setError((err as Error).message);
+    } finally {
+      if (!controller.signal.aborted) setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    lookup(false);
+    return () => abortRef.current?.abort();
+  }, [address]);
+
+  if (resolution) {
+    const identifier: DecodedIdentifier = {
+      type: 'nprofile',
+      data: { pubkey: resolution.pubkey, relays: resolution.relays }
+    };
+    return (
+      <IdentifierDecoder
+        identifier={identifier}
+        nip05={resolution}
+        onEncode={onEncode}
+        onOpenEvent={onOpenEvent}
+        onCompare={onCompare}
+        onBack={onBack}
+      />
+    );
+  }
+
+  const parsed = parseNip05(address);
+
+  return (
+    <div className="space-y-8">
+      <button
+        onClick={onBack}
+        className="flex items-center space-x-2 text-slate-600 hover:text-slate-900 transition-colors group"
+      >
+        <ArrowLeft className="h-5 w-5 group-hover:-translate-x-1 transition-transform" />
+        <span>Back to Input</span>
+      </button>
+
+      <div className="bg-white/80 backdrop-blur-sm border border-slate-200 rounded-xl p-6 space-y-4">
+        <h2 className="text-2xl font-bold text-slate-900 flex items-center space-x-3">
+          <AtSign className="h-6 w-6 text-blue-600" />
+          <span>{address}</span>
+        </h2>
+        {parsed && (
+          <code className="block bg-slate-100 px-3 py-2 rounded-lg font-mono text-xs break-all text-slate-600">
+            {nip05Url(parsed)}
+          </code>
+        )}
+
+        {isLoading && (
+          <div className="flex items-center space-x-2 text-slate-600 text-sm">
+            <RefreshCw className="h-4 w-4 animate-spin" />
+            <span>Resolving NIP-05 address...</span>
+          </div>
+        )}
+
+        {error && (
+          <div className="space-y-3">
+            <div className="flex items-center space-x-2 text-red-600 text-sm">
+              <AlertCircle className="h-4 w-4" />
+              <span>Could not resolve {address}: {error}</span>
+            </div>
+            <button
+              onClick={() => lookup(true)}
+              className="flex items-center space-x-2 px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm transition-colors"
+            >
+              <RefreshCw className="h-4 w-4" />
+              <span>Retry</span>
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
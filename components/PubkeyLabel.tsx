@@ -0,0 +1,90 @@
+import React, { useState, useEffect } from 'react';
+import { User, Shield, AtSign } from 'lucide-react';
+import { DecodedIdentifier } from '../types/nostr';
+import { truncateId } from '../utils/nostr';
+import { subscribeProfile, getProfile, ProfileSummary } from '../utils/profiles';
+import { verifyNip05 } from '../utils/nip05';
+
+interface PubkeyLabelProps {
+  pubkey: string;
+  onOpenIdentifier?: (identifier: DecodedIdentifier) => void;
+  // Checks the NIP-05 address over HTTP; only worth it for a single prominent author
+  verify?: boolean;
+  size?: 'sm' | 'md';
+}
+
+export function useProfile(pubkey: string): ProfileSummary | null {
+  const [profile, setProfile] = useState<ProfileSummary | null>(() => getProfile(pubkey));
+
+  useEffect(() => {
+    setProfile(getProfile(pubkey));
+    return subscribeProfile(pubkey, setProfile);
+  }, [pubkey]);
+
+  return profile;
+}
+
+// Shows a pubkey as avatar, display name and NIP-05 address once its profile is known
+export default function PubkeyLabel({ pubkey, onOpenIdentifier, verify = false, size = 'sm' }: PubkeyLabelProps) {
+  const profile = useProfile(pubkey);
+  const [verified, setVerified] = useState(false);
+  const [avatarFailed, setAvatarFailed] = useState(false);
+
+  useEffect(() => setAvatarFailed(false), [profile?.picture]);
+
+  useEffect(() => {
+    setVerified(false);
+    if (!verify || !profile?.nip05) return;
+    const controller = new AbortController();
+    verifyNip05(profile.nip05, pubkey, { signal: controller.signal })
+      .then(result => !controller.signal.aborted && setVerified(result.status === 'verified'));
+    return () => controller.abort();
+  }, [verify, profile?.nip05, pubkey]);
+
+  const avatarSize = size === 'md' ? 'h-8 w-8' : 'h-5 w-5';
+  const content = (
+    <>
+      {profile?.picture && !avatarFailed ? (
+        <img
+          src={profile.picture}
+          alt=""
+          loading="lazy"
+          className={`${avatarSize} rounded-full object-cover flex-shrink-0`}
+          onError={() => setAvatarFailed(true)}
+        />
+      ) : (
+        <span className={`${avatarSize} rounded-full bg-slate-200 flex items-center justify-center flex-shrink-0`}>
+          <User className="h-3 w-3 text-slate-500" />
+        </span>
+      )}
+      <span className="min-w-0">
+        <span className={`block truncate ${size === 'md' ? 'text-sm font-medium' : 'text-sm'} text-slate-900`}>
+          {profile?.name ?? <code className="font-mono text-xs text-slate-700">{truncateId(pubkey, 8)}</code>}
+        </span>
+        {profile?.nip05 && (
+          <span
+            className={`flex items-center space-x-1 text-xs truncate ${verified ? 'text-emerald-700' : 'text-slate-500'}`}
+            title={verified ? 'NIP-05 verified' : 'NIP-05 address claimed by the profile'}
+          >
+            {verified ? <Shield className="h-3 w-3 flex-shrink-0" /> : <AtSign className="h-3 w-3 flex-shrink-0" />}
+            <span className="truncate">{profile.nip05}</span>
+          </span>
+        )}
+      </span>
+    </>
+  );
+
+  if (!onOpenIdentifier) {
+    return <span className="inline-flex items-center space-x-2 min-w-0" title={pubkey}>{content}</span>;
+  }
+
+  return (
+    <button
+      onClick={() => onOpenIdentifier({ type: 'npub', data: { pubkey } })}
+      title={pubkey}
+      className="inline-flex items-center space-x-2 min-w-0 text-left rounded-lg hover:bg-blue-50 transition-colors"
+    >
+      {content}
+    </button>
+  );
+}
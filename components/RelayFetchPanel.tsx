@@ -0,0 +1,199 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Radio, RefreshCw, CheckCircle, XCircle, Clock, Settings, ArrowRight, AlertCircle } from 'lucide-react';
+import { DecodedIdentifier, NostrEvent, RelayQueryStatus } from '../types/nostr';
+import {
+  fetchIdentifierTarget,
+  relaysForIdentifier,
+  getDefaultRelays,
+  setDefaultRelays,
+  uniqueRelays,
+  DEFAULT_TIMEOUT_MS
+} from '../utils/relay';
+
+interface RelayFetchPanelProps {
+  identifier: DecodedIdentifier;
+  onOpenEvent: (event: NostrEvent) => void;
+}
+
+export default function RelayFetchPanel({ identifier, onOpenEvent }: RelayFetchPanelProps) {
+  const [defaultRelays, setDefaultRelaysState] = useState<string[]>(getDefaultRelays());
+  const [relayDraft, setRelayDraft] = useState(defaultRelays.join('\n'));
+  const [showSettings, setShowSettings] = useState(false);
+  const [timeoutSeconds, setTimeoutSeconds] = useState(DEFAULT_TIMEOUT_MS / 1000);
+  const [statuses, setStatuses] = useState<RelayQueryStatus[]>([]);
+  const [isFetching, setIsFetching] = useState(false);
+  const [foundEvent, setFoundEvent] = useState<NostrEvent | null>(null);
+  const [error, setError] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    setStatuses([]);
+    setFoundEvent(null);
+    setError('');
+    return () => abortRef.current?.abort();
+  }, [identifier]);
+
+  const isProfileLookup = identifier.type === 'npub' || identifier.type === 'nprofile';
+  const relays = relaysForIdentifier(identifier, defaultRelays);
+
+  const handleFetch = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setIsFetching(true);
+    setFoundEvent(null);
+    setError('');
+
+    try {
+      const { event } = await fetchIdentifierTarget(identifier, relays, {
+        timeoutMs: timeoutSeconds * 1000,
+        signal: controller.signal,
+        onStatus: setStatuses
+      });
+      if (controller.signal.aborted) return;
+      if (event) {
+        setFoundEvent(event);
+      } else {
+        setError(isProfileLookup ? 'No profile metadata found on any relay' : 'Event not found on any relay');
+      }
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsFetching(false);
+    }
+  };
+
+  const handleSaveRelays = () => {
+    const next = uniqueRelays(relayDraft.split('\n'));
+    setDefaultRelays(next);
+    setDefaultRelaysState(next);
+    setRelayDraft(next.join('\n'));
+    setShowSettings(false);
+  };
+
+  const getStatusIcon = (status: RelayQueryStatus) => {
+    switch (status.status) {
+      case 'eose':
+        return <CheckCircle className="h-4 w-4 text-emerald-600" />;
+      case 'timeout':
+        return <Clock className="h-4 w-4 text-amber-600" />;
+      case 'error':
+      case 'closed':
+        return <XCircle className="h-4 w-4 text-red-600" />;
+      default:
+        return <RefreshCw className="h-4 w-4 text-slate-400 animate-spin" />;
+    }
+  };
+
+  if (identifier.type === 'nsec') {
+    return null;
+  }
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm border border-slate-200 rounded-xl p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xl font-bold text-slate-900 flex items-center space-x-3">
+          <Radio className="h-5 w-5 text-blue-600" />
+          <span>{isProfileLookup ? 'Fetch Profile from Relays' : 'Fetch Event from Relays'}</span>
+        </h3>
+
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setShowSettings(!showSettings)}
+            className="p-2 text-slate-500 hover:text-slate-700 transition-colors"
+            title="Default relays"
+          >
+            <Settings className="h-4 w-4" />
+          </button>
+          <button
+            onClick={handleFetch}
+            disabled={isFetching || relays.length === 0}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RefreshCw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+            <span>{isFetching ? 'Fetching...' : 'Fetch'}</span>
+          </button>
+        </div>
+      </div>
+
+      {showSettings && (
+        <div className="bg-slate-50 p-4 rounded-lg space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Default Relays (one per line)</label>
+            <textarea
+              value={relayDraft}
+              onChange={(e) => setRelayDraft(e.target.value)}
+              rows={4}
+              className="w-full px-3 py-2 border border-slate-200 rounded-lg font-mono text-sm resize-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <label className="flex items-center space-x-2 text-sm text-slate-700">
+              <span>Timeout</span>
+              <input
+                type="number"
+                min={1}
+                max={60}
+                value={timeoutSeconds}
+                onChange={(e) => setTimeoutSeconds(Math.max(1, Number(e.target.value) || 1))}
+                className="w-20 px-2 py-1 border border-slate-200 rounded text-sm"
+              />
+              <span>seconds</span>
+            </label>
+            <button
+              onClick={handleSaveRelays}
+              className="px-3 py-1 bg-slate-200 hover:bg-slate-300 text-slate-700 rounded-lg text-sm transition-colors"
+            >
+              Save Relays
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="text-sm text-slate-600">
+        Querying {relays.length} relay{relays.length === 1 ? '' : 's'}
+        {identifier.data.relays && identifier.data.relays.length > 0 && ' (identifier hints first)'}
+      </div>
+
+      {statuses.length > 0 && (
+        <div className="space-y-2">
+          {statuses.map(status => (
+            <div key={status.url} className="flex items-center justify-between bg-slate-50 px-3 py-2 rounded-lg text-sm">
+              <div className="flex items-center space-x-2 min-w-0">
+                {getStatusIcon(status)}
+                <span className="font-mono text-slate-700 truncate">{status.url}</span>
+              </div>
+              <div className="flex items-center space-x-3 text-xs text-slate-500 flex-shrink-0 ml-2">
+                {status.message && <span className="truncate max-w-xs">{status.message}</span>}
+                <span>{status.eventCount} event{status.eventCount === 1 ? '' : 's'}</span>
+                {status.rejectedCount > 0 && <span className="text-red-600">{status.rejectedCount} rejected</span>}
+                {status.elapsedMs !== undefined && <span>{status.elapsedMs}ms</span>}
+                <span className="uppercase font-medium">{status.status}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center space-x-2 text-red-600 bg-red-50 px-4 py-3 rounded-lg">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          <span className="text-sm">{error}</span>
+        </div>
+      )}
+
+      {foundEvent && (
+        <button
+          onClick={() => onOpenEvent(foundEvent)}
+          className="w-full flex items-center justify-between bg-emerald-50 border border-emerald-200 text-emerald-700 px-4 py-3 rounded-lg hover:bg-emerald-100 transition-colors group"
+        >
+          <span className="text-sm font-medium">
+            Found kind {foundEvent.kind} event {foundEvent.id.slice(0, 12)}... - open in inspector
+          </span>
+          <ArrowRight className="h-4 w-4 group-hover:translate-x-1 transition-transform" />
+        </button>
+      )}
+    </div>
+  );
+}
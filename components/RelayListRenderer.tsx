@@ -0,0 +1,194 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { Radio, RefreshCw, CheckCircle, XCircle, AlertTriangle, Lock, CreditCard, BookOpen, Pencil } from 'lucide-react';
+import { NostrEvent, RelayListEntry, RelayProbeResult, RelayFlag, RelayUsage } from '../types/nostr';
+import { parseRelayList, probeRelay, getRequiredNips, setRequiredNips } from '../utils/relay';
+
+interface RelayListRendererProps {
+  event: NostrEvent;
+}
+
+const USAGE_GROUPS: { usage: RelayUsage; label: string; icon: typeof Radio }[] = [
+  { usage: 'both', label: 'Read & Write', icon: Radio },
+  { usage: 'read', label: 'Read (inbox)', icon: BookOpen },
+  { usage: 'write', label: 'Write (outbox)', icon: Pencil }
+];
+
+const FLAG_LABELS: Record<RelayFlag, { label: string; className: string; icon: typeof Radio }> = {
+  invalid_url: { label: 'Invalid URL', className: 'bg-red-100 text-red-700', icon: XCircle },
+  unreachable: { label: 'Unreachable', className: 'bg-red-100 text-red-700', icon: XCircle },
+  payment_required: { label: 'Paid', className: 'bg-amber-100 text-amber-700', icon: CreditCard },
+  auth_required: { label: 'Auth required', className: 'bg-amber-100 text-amber-700', icon: Lock },
+  restricted_writes: { label: 'Restricted writes', className: 'bg-amber-100 text-amber-700', icon: Lock },
+  missing_nips: { label: 'Missing NIPs', className: 'bg-orange-100 text-orange-700', icon: AlertTriangle }
+};
+
+export default function RelayListRenderer({ event }: RelayListRendererProps) {
+  const entries = useMemo(() => parseRelayList(event), [event]);
+  const [requiredNipsInput, setRequiredNipsInput] = useState(getRequiredNips().join(', '));
+  const [probes, setProbes] = useState<Record<string, RelayProbeResult>>({});
+  const [isProbing, setIsProbing] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    setProbes({});
+    setIsProbing(false);
+    return () => abortRef.current?.abort();
+  }, [event]);
+
+  const hasMarkers = event.kind === 10002;
+
+  const handleProbe = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    const requiredNips = requiredNipsInput
+      .split(/[\s,]+/)
+      .filter(Boolean)
+      .map(Number)
+      .filter(n => Number.isInteger(n) && n >= 0);
+    setRequiredNips(requiredNips);
+
+    setIsProbing(true);
+    setProbes({});
+    await Promise.all(entries.map(async entry => {
+      const result = await probeRelay(entry.url, requiredNips, { signal: controller.signal });
+      if (!controller.signal.aborted) {
+        setProbes(prev => ({ ...prev, [entry.url]: result }));
+      }
+    }));
+    if (!controller.signal.aborted) setIsProbing(false);
+  };
+
+  const renderEntry = (entry: RelayListEntry) => {
+    const probe = probes[entry.url];
+    const info = probe?.info;
+
+    return (
+      <div key={entry.url} className="bg-slate-50 rounded-lg p-3 space-y-2">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2 min-w-0">
+            {probe ? (
+              probe.flags.length === 0 ? (
+                <CheckCircle className="h-4 w-4 text-emerald-600 flex-shrink-0" />
+              ) : probe.info ? (
+                <AlertTriangle className="h-4 w-4 text-amber-600 flex-shrink-0" />
+              ) : (
+                <XCircle className="h-4 w-4 text-red-600 flex-shrink-0" />
+              )
+            ) : isProbing && entry.valid ? (
+              <RefreshCw className="h-4 w-4 text-slate-400 animate-spin flex-shrink-0" />
+            ) : (
+              <Radio className="h-4 w-4 text-slate-400 flex-shrink-0" />
+            )}
+            <code className="text-sm font-mono text-slate-800 truncate">{entry.url}</code>
+            {!entry.valid && <span className="text-xs text-red-600">not a ws(s) URL</span>}
+          </div>
+          {probe && <span className="text-xs text-slate-400 flex-shrink-0">{probe.elapsedMs}ms</span>}
+        </div>
+
+        {info && (
+          <div className="text-xs text-slate-600 space-y-1 pl-6">
+            <div>
+              <span className="font-medium text-slate-800">{info.name || 'Unnamed relay'}</span>
+              {info.software && (
+                <span className="ml-2 text-slate-500">
+                  {info.software.replace(/^(git\+)?https?:\/\//, '')}
+                  {info.version && ` ${info.version}`}
+                </span>
+              )}
+            </div>
+            {info.description && <div className="line-clamp-2">{info.description}</div>}
+            {Array.isArray(info.supported_nips) && (
+              <div className="flex flex-wrap gap-1">
+                {info.supported_nips.map(nip => (
+                  <span key={nip} className="bg-white border border-slate-200 px-1.5 py-0.5 rounded font-mono">{nip}</span>
+                ))}
+              </div>
+            )}
+            {info.limitation && (
+              <div className="text-slate-500">
+                {[
+                  info.limitation.max_message_length && `max message ${info.limitation.max_message_length}`,
+                  info.limitation.max_subscriptions && `max subs ${info.limitation.max_subscriptions}`,
+                  info.limitation.max_limit && `max limit ${info.limitation.max_limit}`,
+                  info.limitation.min_pow_difficulty && `min PoW ${info.limitation.min_pow_difficulty}`
+                ].filter(Boolean).join(' · ')}
+              </div>
+            )}
+          </div>
+        )}
+
+        {probe && probe.flags.length > 0 && (
+          <div className="flex flex-wrap gap-2 pl-6">
+            {probe.flags.map(flag => {
+              const { label, className, icon: Icon } = FLAG_LABELS[flag];
+              return (
+                <span key={flag} className={`flex items-center space-x-1 px-2 py-0.5 rounded-full text-xs font-medium ${className}`}>
+                  <Icon className="h-3 w-3" />
+                  <span>{flag === 'missing_nips' ? `${label}: ${probe.missingNips.join(', ')}` : label}</span>
+                </span>
+              );
+            })}
+            {probe.error && probe.flags.includes('unreachable') && (
+              <span className="text-xs text-slate-500">{probe.error} (the relay may also block cross-origin requests)</span>
+            )}
+            {info?.payments_url && (
+              <a href={info.payments_url} target="_blank" rel="noopener noreferrer" className="text-xs text-blue-600 hover:underline">
+                Payment info
+              </a>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm border border-slate-200 rounded-xl p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xl font-bold text-slate-900 flex items-center space-x-3">
+          <Radio className="h-5 w-5 text-blue-600" />
+          <span>Relays ({entries.length})</span>
+        </h3>
+        <div className="flex items-center space-x-2">
+          <label className="text-sm text-slate-600">Required NIPs</label>
+          <input
+            value={requiredNipsInput}
+            onChange={(e) => setRequiredNipsInput(e.target.value)}
+            className="w-32 px-3 py-2 border border-slate-200 rounded-lg text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            placeholder="1, 11, 42"
+          />
+          <button
+            onClick={handleProbe}
+            disabled={isProbing || entries.length === 0}
+            className="flex items-center space-x-2 px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className={`h-4 w-4 ${isProbing ? 'animate-spin' : ''}`} />
+            <span>Probe NIP-11</span>
+          </button>
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="text-slate-500 italic">No relays listed</div>
+      ) : hasMarkers ? (
+        USAGE_GROUPS.map(({ usage, label, icon: Icon }) => {
+          const group = entries.filter(e => e.usage === usage);
+          if (group.length === 0) return null;
+          return (
+            <div key={usage} className="space-y-2">
+              <h4 className="text-sm font-semibold text-slate-700 flex items-center space-x-2">
+                <Icon className="h-4 w-4" />
+                <span>{label} ({group.length})</span>
+              </h4>
+              {group.map(renderEntry)}
+            </div>
+          );
+        })
+      ) : (
+        <div className="space-y-2">{entries.map(renderEntry)}</div>
+      )}
+    </div>
+  );
+}
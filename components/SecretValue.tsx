@@ -0,0 +1,48 @@
+import React, { useState, useEffect } from 'react';
+import { Copy, Check, Eye, EyeOff } from 'lucide-react';
+import { copyToClipboard } from '../utils/nostr';
+
+interface SecretValueProps {
+  value: string;
+}
+
+// Secrets stay masked until the user asks to see them; copying works either way
+export default function SecretValue({ value }: SecretValueProps) {
+  const [revealed, setRevealed] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  // A new secret starts hidden again
+  useEffect(() => setRevealed(false), [value]);
+
+  const handleCopy = async () => {
+    try {
+      await copyToClipboard(value);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy:', error);
+    }
+  };
+
+  return (
+    <div className="flex items-center space-x-2">
+      <code className={`px-3 py-2 rounded-lg font-mono text-sm flex-1 break-all ${revealed ? 'bg-red-50 text-red-900' : 'bg-slate-100 text-slate-400 select-none'}`}>
+        {revealed ? value : '•'.repeat(Math.min(value.length, 64))}
+      </code>
+      <button
+        onClick={() => setRevealed(!revealed)}
+        title={revealed ? 'Hide' : 'Reveal'}
+        className="p-2 text-slate-500 hover:text-slate-700 transition-colors"
+      >
+        {revealed ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+      </button>
+      <button
+        onClick={handleCopy}
+        title="Copy"
+        className="p-2 text-slate-500 hover:text-slate-700 transition-colors"
+      >
+        {copied ? <Check className="h-4 w-4 text-emerald-600" /> : <Copy className="h-4 w-4" />}
+      </button>
+    </div>
+  );
+}
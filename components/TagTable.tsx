@@ -1,13 +1,21 @@
 import React from 'react';
-import { ExternalLink } from 'lucide-react';
-import { TAG_MEANINGS } from '../types/nostr';
+import { ExternalLink, AlertTriangle, Info } from 'lucide-react';
+import { LintIssue, DecodedIdentifier } from '../types/nostr';
 import { truncateId } from '../utils/nostr';
+import { getTagMeaning } from '../utils/schema';
+import PubkeyLabel from './PubkeyLabel';
 
 interface TagTableProps {
   tags: string[][];
+  kind: number;
+  issues?: LintIssue[];
+  onOpenIdentifier?: (identifier: DecodedIdentifier) => void;
 }
 
-export default function TagTable({ tags }: TagTableProps) {
+// Tags whose first value is a pubkey
+const PUBKEY_TAGS = ['p', 'P'];
+
+export default function TagTable({ tags, kind, issues = [], onOpenIdentifier }: TagTableProps) {
   if (tags.length === 0) {
     return (
       <div className="text-slate-500 italic text-center py-8">
@@ -16,7 +24,11 @@ export default function TagTable({ tags }: TagTableProps) {
     );
   }
 
-  const renderTagValue = (value: string, index: number) => {
+  const renderTagValue = (tagType: string, value: string, index: number) => {
+    if (index === 0 && PUBKEY_TAGS.includes(tagType) && value.match(/^[0-9a-f]{64}$/)) {
+      return <PubkeyLabel pubkey={value} onOpenIdentifier={onOpenIdentifier} />;
+    }
+
     // Check if it looks like a hex ID
     if (value.match(/^[0-9a-f]{64}$/i)) {
       return (
@@ -65,10 +77,11 @@ export default function TagTable({ tags }: TagTableProps) {
         <tbody className="bg-white divide-y divide-slate-200">
           {tags.map((tag, index) => {
             const [tagType, ...values] = tag;
-            const meaning = TAG_MEANINGS[tagType] || 'Unknown tag type';
+            const meaning = getTagMeaning(kind, tagType) || 'Unknown tag type';
+            const tagIssues = issues.filter(issue => issue.tagIndex === index);
             
             return (
-              <tr key={index} className="hover:bg-slate-50 transition-colors">
+              <tr key={index} className={`${tagIssues.length > 0 ? 'bg-amber-50/50' : ''} hover:bg-slate-50 transition-colors`}>
                 <td className="px-4 py-3 whitespace-nowrap">
                   <code className="bg-blue-100 text-blue-800 px-2 py-1 rounded text-sm font-mono">
                     {tagType}
@@ -78,13 +91,22 @@ export default function TagTable({ tags }: TagTableProps) {
                   <div className="space-y-1">
                     {values.map((value, valueIndex) => (
                       <div key={valueIndex} className="text-sm">
-                        {renderTagValue(value, valueIndex)}
+                        {renderTagValue(tagType, value, valueIndex)}
                       </div>
                     ))}
                   </div>
                 </td>
                 <td className="px-4 py-3 text-sm text-slate-600">
-                  {meaning}
+                  <div>{meaning}</div>
+                  {tagIssues.map((issue, issueIndex) => (
+                    <div
+                      key={issueIndex}
+                      className={`flex items-center space-x-1 text-xs mt-1 ${issue.severity === 'info' ? 'text-slate-500' : issue.severity === 'error' ? 'text-red-700' : 'text-amber-700'}`}
+                    >
+                      {issue.severity === 'info' ? <Info className="h-3 w-3 flex-shrink-0" /> : <AlertTriangle className="h-3 w-3 flex-shrink-0" />}
+                      <span>{issue.message}</span>
+                    </div>
+                  ))}
                 </td>
               </tr>
             );
@@ -0,0 +1,214 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { GitBranch, RefreshCw, AlertTriangle, ChevronRight, ChevronDown, CornerDownRight, HelpCircle } from 'lucide-react';
+import { NostrEvent, DecodedIdentifier } from '../types/nostr';
+import { formatTimestamp, truncateId } from '../utils/nostr';
+import { getDefaultRelays, uniqueRelays } from '../utils/relay';
+import { tagToIdentifier } from '../utils/content';
+import { analyzeThread, fetchThread, threadPath, ThreadNode, ThreadTree, ThreadRole } from '../utils/thread';
+import PubkeyLabel from './PubkeyLabel';
+
+interface ThreadViewProps {
+  event: NostrEvent;
+  onInspect: (event: NostrEvent) => void;
+  onOpenIdentifier: (identifier: DecodedIdentifier) => void;
+}
+
+const ROLE_STYLES: Record<ThreadRole, string> = {
+  root: 'bg-purple-100 text-purple-700',
+  reply: 'bg-blue-100 text-blue-700',
+  mention: 'bg-slate-100 text-slate-700',
+  quote: 'bg-amber-100 text-amber-700',
+  participant: 'bg-emerald-100 text-emerald-700'
+};
+
+const SCHEME_LABELS = {
+  marked: 'Marked e tags (NIP-10)',
+  positional: 'Positional e tags (deprecated)',
+  mixed: 'Mixed marked and positional',
+  none: 'Not a reply'
+};
+
+export default function ThreadView({ event, onInspect, onOpenIdentifier }: ThreadViewProps) {
+  const analysis = useMemo(() => analyzeThread(event), [event]);
+  const [tree, setTree] = useState<ThreadTree | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    setTree(null);
+    setError('');
+    setIsLoading(false);
+    return () => abortRef.current?.abort();
+  }, [event]);
+
+  const handleLoad = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const hints = analysis.tags.filter(t => t.role !== 'participant' && t.relay).map(t => t.relay!);
+      const result = await fetchThread(event, uniqueRelays([...hints, ...getDefaultRelays()]), { signal: controller.signal });
+      if (controller.signal.aborted) return;
+      setTree(result);
+      // Open the path from the root to the inspected event, plus the event's own replies
+      setExpanded(new Set(threadPath(result, event.id)));
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggle = (id: string) => {
+    const next = new Set(expanded);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setExpanded(next);
+  };
+
+  const renderNode = (node: ThreadNode, depth: number): React.ReactNode => {
+    const isCurrent = node.id === event.id;
+    const isOpen = expanded.has(node.id);
+
+    return (
+      <div key={node.id} style={{ marginLeft: depth > 0 ? '1.25rem' : 0 }} className={depth > 0 ? 'border-l border-slate-200 pl-3' : ''}>
+        <div className={`flex items-start space-x-2 p-2 rounded-lg ${isCurrent ? 'bg-blue-50 ring-1 ring-blue-300' : 'hover:bg-slate-50'}`}>
+          <button
+            onClick={() => toggle(node.id)}
+            disabled={node.children.length === 0}
+            className="mt-0.5 text-slate-400 hover:text-slate-700 disabled:invisible"
+          >
+            {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          </button>
+          {node.event ? (
+            <button
+              onClick={() => !isCurrent && onInspect(node.event!)}
+              className="flex-1 text-left min-w-0"
+              disabled={isCurrent}
+            >
+              <div className="flex items-center space-x-2 text-xs text-slate-500">
+                <PubkeyLabel pubkey={node.event.pubkey} />
+                <span>{formatTimestamp(node.event.created_at).relative}</span>
+                {isCurrent && <span className="text-blue-700 font-medium">inspected event</span>}
+                {node.children.length > 0 && <span>{node.children.length} repl{node.children.length === 1 ? 'y' : 'ies'}</span>}
+              </div>
+              <div className="text-sm text-slate-800 line-clamp-2 break-words">{node.event.content || <em>empty</em>}</div>
+            </button>
+          ) : (
+            <div className="flex-1 flex items-center space-x-2 text-sm text-slate-500 italic">
+              <HelpCircle className="h-4 w-4" />
+              <span>Not found on relays: {truncateId(node.id, 8)}</span>
+            </div>
+          )}
+        </div>
+        {isOpen && node.children.map(child => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm border border-slate-200 rounded-xl p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xl font-bold text-slate-900 flex items-center space-x-3">
+          <GitBranch className="h-5 w-5 text-blue-600" />
+          <span>Thread</span>
+        </h3>
+        <span className="text-sm text-slate-600">{SCHEME_LABELS[analysis.scheme]}</span>
+      </div>
+
+      {analysis.tags.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-slate-500 uppercase tracking-wider">
+                <th className="py-2 pr-4">#</th>
+                <th className="py-2 pr-4">Tag</th>
+                <th className="py-2 pr-4">Role</th>
+                <th className="py-2 pr-4">Target</th>
+                <th className="py-2">Relay hint</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {analysis.tags.map(info => {
+                const identifier = tagToIdentifier(info.tag);
+                return (
+                  <tr key={info.index}>
+                    <td className="py-2 pr-4 text-slate-400">{info.index}</td>
+                    <td className="py-2 pr-4"><code className="font-mono">{info.tag[0]}</code></td>
+                    <td className="py-2 pr-4">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${ROLE_STYLES[info.role]}`}>
+                        {info.role}
+                      </span>
+                      {info.tag[0] === 'e' && !info.marked && analysis.scheme !== 'marked' && (
+                        <span className="ml-1 text-xs text-slate-400">(positional)</span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4">
+                      <button
+                        onClick={() => identifier && onOpenIdentifier(identifier)}
+                        disabled={!identifier}
+                        className="font-mono text-xs text-slate-700 hover:text-blue-700 hover:underline disabled:no-underline disabled:text-red-600"
+                      >
+                        {truncateId(info.value, 10) || '(empty)'}
+                      </button>
+                    </td>
+                    <td className="py-2 text-xs text-slate-500 font-mono truncate max-w-xs">{info.relay || ''}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {analysis.warnings.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 space-y-1">
+          {analysis.warnings.map((warning, index) => (
+            <div key={index} className="flex items-start space-x-2 text-sm text-amber-800">
+              <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+              <span>{warning}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <button
+          onClick={handleLoad}
+          disabled={isLoading}
+          className="flex items-center space-x-2 px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm transition-colors disabled:opacity-50"
+        >
+          <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          <span>{tree ? 'Reload conversation' : 'Load conversation from relays'}</span>
+        </button>
+        {error && <div className="text-sm text-red-600">{error}</div>}
+
+        {tree && (
+          <div className="space-y-4">
+            <div className="text-xs text-slate-500">
+              {Object.keys(tree.nodes).length} events from {tree.result.statuses.filter(s => s.status === 'eose').length}/{tree.result.statuses.length} relays
+            </div>
+            <div>{renderNode(tree.root, 0)}</div>
+            {tree.orphans.length > 0 && (
+              <div className="space-y-1">
+                <div className="flex items-center space-x-2 text-sm font-medium text-slate-700">
+                  <CornerDownRight className="h-4 w-4" />
+                  <span>Replies to events that were not found ({tree.orphans.length})</span>
+                </div>
+                {tree.orphans.map(orphan => renderNode(orphan, 1))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import React from 'react';
+import { TlvEntry, IdentifierDecodeError } from '../types/nostr';
+
+interface TlvHexDumpProps {
+  bytes: Uint8Array;
+  tlv: TlvEntry[];
+  error?: IdentifierDecodeError | null;
+}
+
+const BYTES_PER_ROW = 16;
+
+const TLV_COLORS: Record<number, string> = {
+  0: 'bg-purple-100 text-purple-800',
+  1: 'bg-blue-100 text-blue-800',
+  2: 'bg-emerald-100 text-emerald-800',
+  3: 'bg-amber-100 text-amber-800'
+};
+
+const ERROR_COLOR = 'bg-red-200 text-red-900 ring-1 ring-red-500';
+
+interface ByteInfo {
+  className: string;
+  title: string;
+}
+
+export default function TlvHexDump({ bytes, tlv, error }: TlvHexDumpProps) {
+  const info: ByteInfo[] = Array.from(bytes, (_, i) => ({ className: 'text-slate-500', title: `byte ${i}` }));
+
+  tlv.forEach(entry => {
+    const color = TLV_COLORS[entry.type] ?? 'bg-slate-100 text-slate-700';
+    for (let i = entry.offset; i < entry.offset + 2 + entry.length && i < bytes.length; i++) {
+      const part = i === entry.offset ? 'type' : i === entry.offset + 1 ? 'length' : 'value';
+      info[i] = {
+        // Header bytes are bold so each TLV boundary stands out
+        className: `${color} ${part === 'value' ? '' : 'font-bold'}`,
+        title: `byte ${i} · ${entry.typeName} ${part}`
+      };
+    }
+  });
+
+  const errorStart = error?.offset;
+  const errorEnd = errorStart !== undefined ? errorStart + Math.max(error?.length ?? 0, 1) : undefined;
+  if (errorStart !== undefined && errorEnd !== undefined) {
+    for (let i = errorStart; i < errorEnd && i < bytes.length; i++) {
+      info[i] = { className: ERROR_COLOR, title: `byte ${i} · ${error!.message}` };
+    }
+  }
+
+  const rows: number[] = [];
+  for (let start = 0; start < bytes.length; start += BYTES_PER_ROW) rows.push(start);
+
+  return (
+    <div className="space-y-3">
+      <div className="overflow-x-auto bg-slate-50 rounded-lg p-3">
+        <table className="font-mono text-xs">
+          <tbody>
+            {rows.map(start => (
+              <tr key={start}>
+                <td className="pr-4 text-slate-400 select-none align-top">{start.toString(16).padStart(4, '0')}</td>
+                <td className="pr-4 whitespace-nowrap">
+                  {Array.from(bytes.slice(start, start + BYTES_PER_ROW), (byte, i) => (
+                    <span key={i} title={info[start + i].title} className={`inline-block w-6 text-center rounded-sm ${info[start + i].className}`}>
+                      {byte.toString(16).padStart(2, '0')}
+                    </span>
+                  ))}
+                </td>
+                <td className="whitespace-pre text-slate-600">
+                  {Array.from(bytes.slice(start, start + BYTES_PER_ROW), (byte, i) => (
+                    <span key={i} className={start + i >= (errorStart ?? Infinity) && start + i < (errorEnd ?? -1) ? 'text-red-700 font-bold' : ''}>
+                      {byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.'}
+                    </span>
+                  ))}
+                </td>
+              </tr>
+            ))}
+            {/* A missing TLV points just past the data */}
+            {errorStart !== undefined && errorStart >= bytes.length && (
+              <tr>
+                <td className="pr-4 text-slate-400 select-none">{errorStart.toString(16).padStart(4, '0')}</td>
+                <td className="text-red-700" colSpan={2}>← expected more data here</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap gap-2 text-xs">
+        {Object.entries({ 0: 'special', 1: 'relay', 2: 'author', 3: 'kind' }).map(([type, name]) => (
+          <span key={type} className={`px-2 py-0.5 rounded ${TLV_COLORS[Number(type)]}`}>{type}: {name}</span>
+        ))}
+        <span className="px-2 py-0.5 rounded bg-slate-100 text-slate-700">unknown</span>
+        {error?.offset !== undefined && <span className={`px-2 py-0.5 rounded ${ERROR_COLOR}`}>error</span>}
+        <span className="text-slate-500">Bold bytes are TLV type and length headers</span>
+      </div>
+    </div>
+  );
+}
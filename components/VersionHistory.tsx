@@ -0,0 +1,155 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { History, RefreshCw, Eye, GitCompare, HardDrive, AlertTriangle, CheckCircle } from 'lucide-react';
+import { NostrEvent, KIND_NAMES } from '../types/nostr';
+import { formatTimestamp, truncateId } from '../utils/nostr';
+import { getDefaultRelays, uniqueRelays } from '../utils/relay';
+import { fetchVersionHistory, historyCoordinate, HistoryTarget, VersionHistory as VersionHistoryResult } from '../utils/history';
+
+interface VersionHistoryProps {
+  target: HistoryTarget;
+  // Relay hints from the identifier, tried before the configured defaults
+  relays?: string[];
+  onInspect: (event: NostrEvent) => void;
+  onCompare: (left: NostrEvent, right: NostrEvent) => void;
+}
+
+export default function VersionHistory({ target, relays = [], onInspect, onCompare }: VersionHistoryProps) {
+  const [history, setHistory] = useState<VersionHistoryResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+  const coordinate = historyCoordinate(target);
+
+  useEffect(() => {
+    setHistory(null);
+    setError('');
+    setIsLoading(false);
+    return () => abortRef.current?.abort();
+  }, [coordinate]);
+
+  const handleLoad = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const result = await fetchVersionHistory(target, uniqueRelays([...relays, ...getDefaultRelays()]), { signal: controller.signal });
+      if (controller.signal.aborted) return;
+      setHistory(result);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const current = history?.versions.find(v => v.current)?.event;
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm border border-slate-200 rounded-xl p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xl font-bold text-slate-900 flex items-center space-x-3">
+          <History className="h-5 w-5 text-blue-600" />
+          <span>Version History</span>
+        </h3>
+        <span className="text-sm text-slate-600">
+          {KIND_NAMES[target.kind] || `Kind ${target.kind}`}
+          {target.dTag !== undefined && target.dTag !== '' && ` · d: ${target.dTag}`}
+        </span>
+      </div>
+
+      <button
+        onClick={handleLoad}
+        disabled={isLoading}
+        className="flex items-center space-x-2 px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm transition-colors disabled:opacity-50"
+      >
+        <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+        <span>{history ? 'Reload versions' : 'Find versions on relays and in local history'}</span>
+      </button>
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      {history && (
+        <div className="space-y-3">
+          <div className="text-xs text-slate-500">
+            {history.versions.length} version{history.versions.length === 1 ? '' : 's'}
+            {history.result && ` · ${history.result.statuses.filter(s => s.status === 'eose').length}/${history.result.statuses.length} relays answered`}
+          </div>
+
+          {history.versions.length === 0 ? (
+            <div className="text-sm text-slate-500 italic">No versions found</div>
+          ) : (
+            <div className="divide-y divide-slate-100">
+              {history.versions.map((version, index) => {
+                const previous = history.versions[index + 1]?.event;
+                const timestamp = formatTimestamp(version.event.created_at);
+                return (
+                  <div key={version.event.id} className={`flex items-center justify-between py-2 px-2 rounded-lg ${version.current ? 'bg-emerald-50' : ''}`}>
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center space-x-2 text-sm">
+                        <span className="text-slate-900" title={timestamp.relative}>{timestamp.absolute}</span>
+                        {version.current && (
+                          <span className="flex items-center space-x-1 bg-emerald-100 text-emerald-700 px-2 py-0.5 rounded-full text-xs font-medium">
+                            <CheckCircle className="h-3 w-3" />
+                            <span>Current</span>
+                          </span>
+                        )}
+                        {!version.valid && (
+                          <span className="flex items-center space-x-1 bg-red-100 text-red-700 px-2 py-0.5 rounded-full text-xs font-medium">
+                            <AlertTriangle className="h-3 w-3" />
+                            <span>Invalid</span>
+                          </span>
+                        )}
+                        {version.local && (
+                          <span className="flex items-center space-x-1 bg-slate-100 text-slate-600 px-2 py-0.5 rounded-full text-xs" title="Saved in this browser">
+                            <HardDrive className="h-3 w-3" />
+                            <span>Local</span>
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-3 text-xs text-slate-500">
+                        <code className="font-mono">{truncateId(version.event.id, 8)}</code>
+                        <span>{version.seenOn.length > 0 ? `on ${version.seenOn.length} relay${version.seenOn.length === 1 ? '' : 's'}` : 'not on queried relays'}</span>
+                        {previous && previous.created_at === version.event.created_at && (
+                          <span className="text-amber-700">same created_at as the version below; lowest id wins</span>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-1 flex-shrink-0">
+                      <button
+                        onClick={() => onInspect(version.event)}
+                        className="flex items-center space-x-1 px-2 py-1 text-xs text-slate-600 hover:text-slate-900 transition-colors"
+                      >
+                        <Eye className="h-3 w-3" />
+                        <span>Inspect</span>
+                      </button>
+                      {previous && (
+                        <button
+                          onClick={() => onCompare(previous, version.event)}
+                          className="flex items-center space-x-1 px-2 py-1 text-xs text-slate-600 hover:text-slate-900 transition-colors"
+                        >
+                          <GitCompare className="h-3 w-3" />
+                          <span>vs previous</span>
+                        </button>
+                      )}
+                      {current && !version.current && (
+                        <button
+                          onClick={() => onCompare(version.event, current)}
+                          className="flex items-center space-x-1 px-2 py-1 text-xs text-slate-600 hover:text-slate-900 transition-colors"
+                        >
+                          <GitCompare className="h-3 w-3" />
+                          <span>vs current</span>
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+import React, { useState, useEffect } from 'react';
+import { Zap, CheckCircle, XCircle, MinusCircle, RefreshCw, ArrowRight, Copy, Check } from 'lucide-react';
+import { NostrEvent } from '../types/nostr';
+import { formatTimestamp } from '../utils/nostr';
+import { analyzeZapReceipt, analyzeZapRequest, formatMsats, ZapAnalysis } from '../utils/zap';
+import PubkeyLabel from './PubkeyLabel';
+
+interface ZapRendererProps {
+  event: NostrEvent;
+  onInspect: (event: NostrEvent) => void;
+  onCopy: (text: string, field: string) => void;
+  copiedField: string | null;
+}
+
+export default function ZapRenderer({ event, onInspect, onCopy, copiedField }: ZapRendererProps) {
+  const [analysis, setAnalysis] = useState<ZapAnalysis | null>(null);
+
+  const isReceipt = event.kind === 9735;
+
+  useEffect(() => {
+    let cancelled = false;
+    setAnalysis(null);
+    (isReceipt ? analyzeZapReceipt(event) : analyzeZapRequest(event)).then(result => {
+      if (!cancelled) setAnalysis(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [event, isReceipt]);
+
+  const tag = (source: NostrEvent | null, name: string) => source?.tags.find(t => t[0] === name)?.[1];
+
+  const CopyableField = ({ label, value, field }: { label: string; value: string | null; field: string }) => (
+    <div>
+      <label className="block text-sm font-medium text-slate-700 mb-1">{label}</label>
+      {value ? (
+        <div className="flex items-center space-x-2">
+          <code className="flex-1 text-xs bg-slate-100 px-3 py-2 rounded-lg font-mono text-slate-800 break-all">
+            {value}
+          </code>
+          <button
+            onClick={() => onCopy(value, field)}
+            className="p-2 text-slate-500 hover:text-slate-700 transition-colors"
+          >
+            {copiedField === field ? <Check className="h-4 w-4 text-emerald-600" /> : <Copy className="h-4 w-4" />}
+          </button>
+        </div>
+      ) : (
+        <div className="text-sm text-slate-500 italic">Not present</div>
+      )}
+    </div>
+  );
+
+  const statusIcon = (status: 'pass' | 'fail' | 'skip') => {
+    switch (status) {
+      case 'pass':
+        return <CheckCircle className="h-4 w-4 text-emerald-600 flex-shrink-0" />;
+      case 'fail':
+        return <XCircle className="h-4 w-4 text-red-600 flex-shrink-0" />;
+      default:
+        return <MinusCircle className="h-4 w-4 text-slate-400 flex-shrink-0" />;
+    }
+  };
+
+  const request = analysis?.request || null;
+  const invoice = analysis?.invoice || null;
+  const requestedAmount = tag(request, 'amount');
+  const amountMsat = invoice?.amountMsat ?? (requestedAmount && /^\d+$/.test(requestedAmount) ? Number(requestedAmount) : null);
+  const failed = analysis?.checks.filter(c => c.status === 'fail').length || 0;
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm border border-slate-200 rounded-xl p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xl font-bold text-slate-900 flex items-center space-x-3">
+          <Zap className="h-5 w-5 text-amber-500" />
+          <span>{isReceipt ? 'Zap Receipt' : 'Zap Request'}</span>
+        </h3>
+        {analysis && (
+          <div className={`flex items-center space-x-1 px-3 py-1 rounded-full text-sm font-medium ${
+            failed === 0 ? 'bg-emerald-100 text-emerald-700' : 'bg-red-100 text-red-700'
+          }`}>
+            {failed === 0 ? <CheckCircle className="h-4 w-4" /> : <XCircle className="h-4 w-4" />}
+            <span>{failed === 0 ? 'All checks passed' : `${failed} check${failed === 1 ? '' : 's'} failed`}</span>
+          </div>
+        )}
+      </div>
+
+      {!analysis ? (
+        <div className="flex items-center space-x-2 text-slate-500">
+          <RefreshCw className="h-4 w-4 animate-spin" />
+          <span className="text-sm">Analyzing zap...</span>
+        </div>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+              <div className="text-sm text-amber-700">Amount</div>
+              <div className="text-2xl font-bold text-amber-900">
+                {amountMsat !== null ? formatMsats(amountMsat) : 'Unspecified'}
+              </div>
+            </div>
+            <div className="bg-slate-50 rounded-lg p-4">
+              <div className="text-sm text-slate-500">Sender</div>
+              {request ? <PubkeyLabel pubkey={request.pubkey} /> : <span className="text-sm text-slate-800">Unknown</span>}
+            </div>
+            <div className="bg-slate-50 rounded-lg p-4">
+              <div className="text-sm text-slate-500">Recipient</div>
+              {tag(request, 'p') ? <PubkeyLabel pubkey={tag(request, 'p')!} /> : <span className="text-sm text-slate-800">Unknown</span>}
+            </div>
+          </div>
+
+          {request?.content && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Zap Comment</label>
+              <div className="bg-slate-50 p-3 rounded-lg text-sm text-slate-800 whitespace-pre-wrap break-words">
+                {request.content}
+              </div>
+            </div>
+          )}
+
+          {/* Invoice */}
+          {isReceipt && (
+            <div className="space-y-3">
+              <h4 className="text-sm font-semibold text-slate-900 uppercase tracking-wide">Invoice</h4>
+              {invoice ? (
+                <>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                    <div>
+                      <span className="text-slate-500">Network: </span>
+                      <code className="font-mono text-slate-800">{invoice.network}</code>
+                    </div>
+                    <div>
+                      <span className="text-slate-500">Created: </span>
+                      <span className="text-slate-800">{formatTimestamp(invoice.timestamp).absolute}</span>
+                    </div>
+                    <div>
+                      <span className="text-slate-500">Expires: </span>
+                      <span className="text-slate-800">{formatTimestamp(invoice.timestamp + invoice.expiry).absolute}</span>
+                    </div>
+                  </div>
+                  <CopyableField label="Payment Hash" value={invoice.paymentHash} field="zap-payment-hash" />
+                  <CopyableField label="Description Hash" value={invoice.descriptionHash} field="zap-description-hash" />
+                  {tag(event, 'preimage') && (
+                    <CopyableField label="Preimage" value={tag(event, 'preimage')!} field="zap-preimage" />
+                  )}
+                </>
+              ) : (
+                <div className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-3">
+                  {analysis.invoiceError}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Checks */}
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold text-slate-900 uppercase tracking-wide">Verification</h4>
+            {analysis.checks.map((check, index) => (
+              <div key={index} className="flex items-start space-x-2 text-sm">
+                {statusIcon(check.status)}
+                <span className="font-medium text-slate-800 w-36 flex-shrink-0">{check.label}</span>
+                <span className={`break-all ${check.status === 'fail' ? 'text-red-700' : 'text-slate-600'}`}>
+                  {check.detail}
+                </span>
+              </div>
+            ))}
+            {isReceipt && (
+              <p className="text-xs text-slate-500 pt-2">
+                The receipt author should also match the nostrPubkey advertised by the recipient's LNURL server,
+                which cannot be checked offline.
+              </p>
+            )}
+          </div>
+
+          {isReceipt && request && (
+            <button
+              onClick={() => onInspect(request)}
+              className="flex items-center space-x-2 text-sm text-blue-600 hover:text-blue-800 transition-colors"
+            >
+              <span>Inspect embedded zap request</span>
+              <ArrowRight className="h-4 w-4" />
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
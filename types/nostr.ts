@@ -8,6 +8,15 @@ export interface NostrEvent {
   sig: string;
 }
 
+export type EventTemplate = Pick<NostrEvent, 'created_at' | 'kind' | 'tags' | 'content'>;
+
+export type UnsignedEvent = Omit<NostrEvent, 'sig'>;
+
+export interface Nip07Signer {
+  getPublicKey(): Promise<string>;
+  signEvent(event: EventTemplate): Promise<NostrEvent>;
+}
+
 export interface DecodedIdentifier {
   type: 'npub' | 'nsec' | 'note' | 'nevent' | 'nprofile' | 'naddr';
   data: {
@@ -18,17 +27,184 @@ export interface DecodedIdentifier {
     relays?: string[];
     author?: string;
   };
-  tlv?: Array<{
-    type: number;
-    typeName: string;
-    length: number;
-    value: string;
-  }>;
+  tlv?: TlvEntry[];
+}
+
+export interface TlvEntry {
+  type: number;
+  typeName: string;
+  // Byte offset of the type byte within the decoded payload
+  offset: number;
+  length: number;
+  value: string;
+}
+
+export type IdentifierErrorCode =
+  | 'mixed_case'
+  | 'missing_separator'
+  | 'too_short'
+  | 'invalid_character'
+  | 'unknown_prefix'
+  | 'bad_checksum'
+  | 'invalid_padding'
+  | 'wrong_length'
+  | 'truncated_tlv'
+  | 'wrong_field_length'
+  | 'duplicate_tlv'
+  | 'missing_tlv'
+  | 'invalid_utf8';
+
+export interface IdentifierDecodeError {
+  code: IdentifierErrorCode;
+  message: string;
+  // Character position in the bech32 string, for errors found before the payload is decoded
+  position?: number;
+  // Byte range in the decoded payload
+  offset?: number;
+  length?: number;
+}
+
+export interface IdentifierDecodeResult {
+  input: string;
+  prefix: string | null;
+  // Decoded payload, also set for checksum failures so the bytes can still be examined
+  bytes: Uint8Array | null;
+  // TLV entries read before any error
+  tlv: TlvEntry[];
+  identifier: DecodedIdentifier | null;
+  error: IdentifierDecodeError | null;
+}
+
+export interface BatchParseError {
+  line: number;
+  message: string;
+}
+
+export interface BatchParseResult {
+  events: NostrEvent[];
+  errors: BatchParseError[];
+  duplicates: number;
+}
+
+// Raw hex does not say what it encodes; the hex view works out which reading fits
+export type HexInput =
+  // 32 bytes: an event id, a pubkey or a secret key
+  | { type: 'key'; hex: string }
+  // 64 bytes: a Schnorr signature
+  | { type: 'signature'; hex: string }
+  // UTF-8 of a NIP-01 serialization array, the preimage of an event id
+  | {
+      type: 'serialized_event';
+      hex: string;
+      event: Pick<NostrEvent, 'pubkey' | 'created_at' | 'kind' | 'tags' | 'content'>;
+      // Whether the bytes match our own serialization exactly, so hashing them gives the real id
+      canonical: boolean;
+    };
+
+export type ParsedResult =
+  | { type: 'event'; data: NostrEvent }
+  | { type: 'identifier'; data: DecodedIdentifier }
+  | { type: 'batch'; data: BatchParseResult }
+  // Looks like a bech32 identifier but does not decode
+  | { type: 'invalid_identifier'; data: IdentifierDecodeResult }
+  // NIP-05 address; resolving it to a pubkey needs a network lookup
+  | { type: 'nip05'; data: string }
+  // NIP-49 password-encrypted secret key, decoded by the viewer
+  | { type: 'ncryptsec'; data: string }
+  | { type: 'hex'; data: HexInput };
+
+export interface NostrFilter {
+  ids?: string[];
+  authors?: string[];
+  kinds?: number[];
+  since?: number;
+  until?: number;
+  limit?: number;
+  [tagFilter: `#${string}`]: string[] | undefined;
+}
+
+export type RelayStatus = 'pending' | 'connecting' | 'querying' | 'eose' | 'timeout' | 'closed' | 'error';
+
+export interface RelayQueryStatus {
+  url: string;
+  status: RelayStatus;
+  eventCount: number;
+  // Events dropped for a bad id or signature, or for not matching the filters sent
+  rejectedCount: number;
+  message?: string;
+  elapsedMs?: number;
 }
 
-export interface ParsedResult {
-  type: 'event' | 'identifier';
-  data: NostrEvent | DecodedIdentifier;
+export interface RelayQueryResult {
+  events: NostrEvent[];
+  statuses: RelayQueryStatus[];
+  seenOn: Record<string, string[]>;
+}
+
+export interface RelayLimitation {
+  max_message_length?: number;
+  max_subscriptions?: number;
+  max_limit?: number;
+  max_subid_length?: number;
+  max_event_tags?: number;
+  max_content_length?: number;
+  min_pow_difficulty?: number;
+  auth_required?: boolean;
+  payment_required?: boolean;
+  restricted_writes?: boolean;
+  created_at_lower_limit?: number;
+  created_at_upper_limit?: number;
+}
+
+// NIP-11 relay information document
+export interface RelayInformation {
+  name?: string;
+  description?: string;
+  pubkey?: string;
+  contact?: string;
+  software?: string;
+  version?: string;
+  icon?: string;
+  supported_nips?: number[];
+  limitation?: RelayLimitation;
+  payments_url?: string;
+}
+
+export type RelayUsage = 'read' | 'write' | 'both';
+
+export interface RelayListEntry {
+  url: string;
+  usage: RelayUsage;
+  valid: boolean;
+}
+
+export type RelayFlag = 'invalid_url' | 'unreachable' | 'payment_required' | 'auth_required' | 'restricted_writes' | 'missing_nips';
+
+export interface RelayProbeResult {
+  url: string;
+  info: RelayInformation | null;
+  error?: string;
+  elapsedMs: number;
+  flags: RelayFlag[];
+  missingNips: number[];
+}
+
+export type ValidationCode =
+  | 'invalid_id_format'
+  | 'invalid_pubkey_format'
+  | 'invalid_sig_format'
+  | 'invalid_created_at'
+  | 'invalid_kind'
+  | 'invalid_tags'
+  | 'invalid_content'
+  | 'id_mismatch'
+  | 'invalid_signature'
+  | 'signature_error';
+
+export interface ValidationIssue {
+  code: ValidationCode;
+  field: keyof NostrEvent;
+  message: string;
 }
 
 export interface ValidationResult {
@@ -36,6 +212,54 @@ export interface ValidationResult {
   idMatch: boolean;
   sigValid: boolean;
   errors: string[];
+  issues: ValidationIssue[];
+  claimedId: string;
+  computedId: string | null;
+  serialized: string | null;
+}
+
+export type KindCategory = 'regular' | 'replaceable' | 'ephemeral' | 'addressable';
+
+export type TagValueFormat =
+  | 'hex64'
+  | 'url'
+  | 'relay-url'
+  | 'timestamp'
+  | 'integer'
+  | 'geohash'
+  | 'address'
+  | 'event-or-address'
+  | 'date'
+  | 'kind'
+  | 'text';
+
+export interface TagSchema {
+  name: string;
+  format: TagValueFormat;
+  meaning?: string;
+  required?: boolean;
+  // Whether the tag may appear more than once
+  multiple?: boolean;
+  // Allowed values for position 1
+  values?: string[];
+  // Allowed markers and the position they sit at
+  markers?: { position: number; values: string[] };
+}
+
+export interface KindSchema {
+  nips: string[];
+  content?: 'text' | 'json' | 'empty' | 'encrypted';
+  tags: TagSchema[];
+  deprecated?: string;
+}
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export interface LintIssue {
+  severity: LintSeverity;
+  code: string;
+  message: string;
+  tagIndex?: number;
 }
 
 export const KIND_NAMES: Record<number, string> = {
@@ -92,8 +316,14 @@ export const KIND_NAMES: Record<number, string> = {
   10009: 'User Groups List',
   10015: 'Interests List',
   10030: 'User Emoji List',
+  10050: 'DM Relays List',
   30000: 'Follow Sets',
   30001: 'Generic Lists',
+  30002: 'Relay Sets',
+  30003: 'Bookmark Sets',
+  30004: 'Curation Sets',
+  30015: 'Interest Sets',
+  30030: 'Emoji Sets',
   30023: 'Long-form Content',
   30024: 'Draft Long-form Content',
   30078: 'Application-specific Data',
@@ -134,10 +364,6 @@ export const TAG_MEANINGS: Record<string, string> = {
   'bolt11': 'Lightning invoice',
   'preimage': 'Lightning preimage',
   'description': 'Description',
-  'title': 'Article title',
-  'summary': 'Article summary',
-  'published_at': 'Original publication timestamp',
-  'image': 'Cover image URL',
   'lang': 'Content language (ISO 639-1)',
   'content-warning': 'Content warning',
   'location': 'Geographic location',
@@ -211,7 +437,6 @@ export const TAG_MEANINGS: Record<string, string> = {
   'contact': 'Contact information',
   'comment': 'Comment text',
   'attach': 'Attachment URL',
-  'categories': 'Categories list',
   'resources': 'Required resources',
   'request-status': 'Request status',
   'method': 'Calendar method',
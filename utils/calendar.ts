@@ -0,0 +1,406 @@
+import { NostrEvent, EventTemplate } from '../types/nostr';
+
+export type RsvpStatus = 'accepted' | 'declined' | 'tentative';
+
+export interface CalendarParticipant {
+  pubkey: string;
+  relay?: string;
+  role?: string;
+}
+
+export interface CalendarEventInfo {
+  dTag: string;
+  title: string;
+  summary?: string;
+  image?: string;
+  dateBased: boolean;
+  // Date-based events keep YYYY-MM-DD strings, time-based events unix seconds
+  start: string | number | null;
+  end: string | number | null;
+  startTzid?: string;
+  endTzid?: string;
+  locations: string[];
+  geohash?: string;
+  participants: CalendarParticipant[];
+  hashtags: string[];
+  references: string[];
+  calendars: string[];
+}
+
+export interface RsvpInfo {
+  status: RsvpStatus | null;
+  freeBusy: 'free' | 'busy' | null;
+  target: string | null;
+}
+
+export interface RsvpSummary {
+  accepted: string[];
+  declined: string[];
+  tentative: string[];
+  unknown: string[];
+}
+
+export interface IcsImport {
+  template: EventTemplate;
+  warnings: string[];
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const RSVP_STATUSES: RsvpStatus[] = ['accepted', 'declined', 'tentative'];
+
+export function parseCalendarEvent(event: NostrEvent): CalendarEventInfo {
+  const first = (name: string) => event.tags.find(t => t[0] === name)?.[1];
+  const all = (name: string) => event.tags.filter(t => t[0] === name && t[1]).map(t => t[1]);
+  const dateBased = event.kind === 31922;
+
+  const parseBound = (value: string | undefined): string | number | null => {
+    if (value === undefined) return null;
+    if (dateBased) return DATE_PATTERN.test(value) ? value : null;
+    return /^\d+$/.test(value) ? Number(value) : null;
+  };
+
+  return {
+    dTag: first('d') || '',
+    // Older events only carry the deprecated name tag
+    title: first('title') || first('name') || '',
+    summary: first('summary'),
+    image: first('image'),
+    dateBased,
+    start: parseBound(first('start')),
+    end: parseBound(first('end')),
+    startTzid: first('start_tzid'),
+    endTzid: first('end_tzid') || first('start_tzid'),
+    locations: all('location'),
+    geohash: first('g'),
+    participants: event.tags
+      .filter(t => t[0] === 'p' && t[1])
+      .map(t => ({ pubkey: t[1], relay: t[2] || undefined, role: t[3] || undefined })),
+    hashtags: all('t'),
+    references: all('r'),
+    calendars: all('a').filter(a => a.startsWith('31924:'))
+  };
+}
+
+export function parseRsvp(event: NostrEvent): RsvpInfo {
+  const first = (name: string) => event.tags.find(t => t[0] === name)?.[1];
+  // Early drafts of NIP-52 labelled the status with ["l", <status>, "status"]
+  const status = first('status') ?? event.tags.find(t => t[0] === 'l' && t[2] === 'status')?.[1];
+  const freeBusy = first('fb');
+
+  return {
+    status: RSVP_STATUSES.includes(status as RsvpStatus) ? (status as RsvpStatus) : null,
+    freeBusy: freeBusy === 'free' || freeBusy === 'busy' ? freeBusy : null,
+    target: first('a') || null
+  };
+}
+
+// Only the newest RSVP per author counts, as RSVPs are addressable and replace each other
+export function summarizeRsvps(events: NostrEvent[]): RsvpSummary {
+  const latest = new Map<string, NostrEvent>();
+  for (const event of events) {
+    const current = latest.get(event.pubkey);
+    if (!current || event.created_at > current.created_at) latest.set(event.pubkey, event);
+  }
+
+  const summary: RsvpSummary = { accepted: [], declined: [], tentative: [], unknown: [] };
+  latest.forEach((event, pubkey) => {
+    summary[parseRsvp(event).status || 'unknown'].push(pubkey);
+  });
+  return summary;
+}
+
+export function calendarCoordinate(event: NostrEvent): string {
+  return `${event.kind}:${event.pubkey}:${event.tags.find(t => t[0] === 'd')?.[1] || ''}`;
+}
+
+export function isValidTimeZone(tzid: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tzid });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function formatCalendarTime(timestamp: number, tzid?: string): string {
+  const timeZone = tzid && isValidTimeZone(tzid) ? tzid : undefined;
+  return new Intl.DateTimeFormat(undefined, {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone,
+    timeZoneName: 'short'
+  }).format(new Date(timestamp * 1000));
+}
+
+export function formatCalendarDate(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Intl.DateTimeFormat(undefined, { dateStyle: 'full', timeZone: 'UTC' }).format(
+    new Date(Date.UTC(year, month - 1, day))
+  );
+}
+
+export function calendarEventToIcs(event: NostrEvent): string {
+  const info = parseCalendarEvent(event);
+  if (info.start === null) {
+    throw new Error('Calendar event has no valid start');
+  }
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//decodenote//NIP-52//EN',
+    'BEGIN:VEVENT',
+    `UID:${escapeIcsText(calendarCoordinate(event))}`,
+    `DTSTAMP:${formatIcsUtc(event.created_at)}`
+  ];
+
+  if (info.dateBased) {
+    lines.push(`DTSTART;VALUE=DATE:${(info.start as string).replace(/-/g, '')}`);
+    if (info.end !== null) lines.push(`DTEND;VALUE=DATE:${(info.end as string).replace(/-/g, '')}`);
+  } else {
+    // Instants are exported in UTC so no VTIMEZONE block is needed; the zone is kept for display
+    lines.push(`DTSTART:${formatIcsUtc(info.start as number)}`);
+    if (info.end !== null) lines.push(`DTEND:${formatIcsUtc(info.end as number)}`);
+    if (info.startTzid) lines.push(`X-NOSTR-START-TZID:${escapeIcsText(info.startTzid)}`);
+  }
+
+  if (info.title) lines.push(`SUMMARY:${escapeIcsText(info.title)}`);
+  if (event.content || info.summary) lines.push(`DESCRIPTION:${escapeIcsText(event.content || info.summary || '')}`);
+  if (info.locations.length > 0) lines.push(`LOCATION:${escapeIcsText(info.locations.join(', '))}`);
+  if (info.references[0]) lines.push(`URL:${info.references[0]}`);
+  if (info.hashtags.length > 0) lines.push(`CATEGORIES:${info.hashtags.map(escapeIcsText).join(',')}`);
+  lines.push('END:VEVENT', 'END:VCALENDAR');
+
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+export function icsToCalendarTemplate(ics: string, now: number = Math.floor(Date.now() / 1000)): IcsImport {
+  const properties = readFirstVevent(ics);
+  const warnings: string[] = [];
+  const get = (name: string) => properties.find(p => p.name === name);
+
+  const dtstart = get('DTSTART');
+  if (!dtstart) throw new Error('VEVENT has no DTSTART');
+  const start = parseIcsDateTime(dtstart);
+  const dtend = get('DTEND');
+  let end = dtend ? parseIcsDateTime(dtend) : null;
+
+  if (end && end.dateBased !== start.dateBased) {
+    warnings.push('DTSTART and DTEND use different value types; DTEND was ignored');
+    end = null;
+  }
+  const duration = get('DURATION');
+  if (!end && duration && !start.dateBased) {
+    const seconds = parseIcsDuration(duration.value);
+    if (seconds === null) {
+      warnings.push(`Unsupported DURATION "${duration.value}"`);
+    } else {
+      end = { ...start, timestamp: (start.timestamp as number) + seconds };
+    }
+  }
+  if (get('RRULE') || get('RDATE')) {
+    warnings.push('Recurrence rules are not supported by NIP-52; only the first occurrence was imported');
+  }
+  if (start.floating) {
+    warnings.push('DTSTART has no time zone; it was interpreted in your local time zone');
+  }
+
+  const uid = get('UID')?.value;
+  const tags: string[][] = [['d', uid || Math.random().toString(36).slice(2)]];
+  const summary = get('SUMMARY')?.value;
+  tags.push(['title', summary ? unescapeIcsText(summary) : 'Untitled event']);
+
+  if (start.dateBased) {
+    tags.push(['start', start.date!]);
+    if (end) tags.push(['end', end.date!]);
+  } else {
+    tags.push(['start', String(start.timestamp)]);
+    if (end) tags.push(['end', String(end.timestamp)]);
+    if (start.tzid) tags.push(['start_tzid', start.tzid]);
+    if (end?.tzid && end.tzid !== start.tzid) tags.push(['end_tzid', end.tzid]);
+  }
+
+  const location = get('LOCATION')?.value;
+  if (location) tags.push(['location', unescapeIcsText(location)]);
+  const url = get('URL')?.value;
+  if (url) tags.push(['r', url]);
+  properties
+    .filter(p => p.name === 'CATEGORIES')
+    .flatMap(p => splitIcsList(p.value))
+    .forEach(category => tags.push(['t', category.toLowerCase()]));
+
+  const description = get('DESCRIPTION')?.value;
+  return {
+    template: {
+      kind: start.dateBased ? 31922 : 31923,
+      created_at: now,
+      tags,
+      content: description ? unescapeIcsText(description) : ''
+    },
+    warnings
+  };
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface IcsDateTime {
+  dateBased: boolean;
+  date?: string;
+  timestamp?: number;
+  tzid?: string;
+  floating: boolean;
+}
+
+function readFirstVevent(ics: string): IcsProperty[] {
+  // Content lines are folded by a line break followed by a single space or tab
+  const lines = ics.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const start = lines.findIndex(line => line.trim().toUpperCase() === 'BEGIN:VEVENT');
+  if (start === -1) throw new Error('No VEVENT found in calendar file');
+
+  const properties: IcsProperty[] = [];
+  let depth = 0;
+  for (const line of lines.slice(start + 1)) {
+    const upper = line.trim().toUpperCase();
+    if (upper.startsWith('BEGIN:')) depth++;
+    if (upper.startsWith('END:')) {
+      if (depth === 0) return properties;
+      depth--;
+      continue;
+    }
+    // Nested components such as VALARM are skipped
+    if (depth > 0 || !line.includes(':')) continue;
+
+    const colon = findValueSeparator(line);
+    const [name, ...params] = line.slice(0, colon).split(';');
+    properties.push({
+      name: name.toUpperCase(),
+      params: Object.fromEntries(
+        params.map(param => {
+          const [key, ...value] = param.split('=');
+          return [key.toUpperCase(), value.join('=').replace(/^"|"$/g, '')];
+        })
+      ),
+      value: line.slice(colon + 1)
+    });
+  }
+  throw new Error('VEVENT is not terminated');
+}
+
+// Parameter values may be quoted and contain colons, e.g. TZID="America/New_York:x"
+function findValueSeparator(line: string): number {
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    if (line[i] === ':' && !quoted) return i;
+  }
+  return line.indexOf(':');
+}
+
+function parseIcsDateTime(property: IcsProperty): IcsDateTime {
+  const value = property.value.trim();
+  const date = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (date || property.params.VALUE === 'DATE') {
+    if (!date) throw new Error(`Invalid DATE value "${value}"`);
+    return { dateBased: true, date: `${date[1]}-${date[2]}-${date[3]}`, floating: false };
+  }
+
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/);
+  if (!match) throw new Error(`Invalid DATE-TIME value "${value}"`);
+  const [year, month, day, hour, minute, second] = match.slice(1, 7).map(Number);
+
+  if (match[7]) {
+    return { dateBased: false, timestamp: Date.UTC(year, month - 1, day, hour, minute, second) / 1000, floating: false };
+  }
+
+  const tzid = property.params.TZID;
+  if (tzid && isValidTimeZone(tzid)) {
+    return { dateBased: false, timestamp: zonedTimeToUnix([year, month, day, hour, minute, second], tzid), tzid, floating: false };
+  }
+  return {
+    dateBased: false,
+    timestamp: Math.floor(new Date(year, month - 1, day, hour, minute, second).getTime() / 1000),
+    floating: true
+  };
+}
+
+// Converts wall-clock time in an IANA zone to an instant by correcting for the zone offset twice (DST edges)
+function zonedTimeToUnix(parts: number[], tzid: string): number {
+  const [year, month, day, hour, minute, second] = parts;
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  let instant = wallClock - zoneOffset(wallClock, tzid);
+  instant = wallClock - zoneOffset(instant, tzid);
+  return instant / 1000;
+}
+
+function zoneOffset(instant: number, tzid: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: tzid,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(new Date(instant));
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+function parseIcsDuration(value: string): number | null {
+  const match = value.match(/^\+?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match || value.endsWith('T')) return null;
+  const [weeks, days, hours, minutes, seconds] = match.slice(1).map(v => Number(v || 0));
+  return (((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds;
+}
+
+function formatIcsUtc(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeIcsText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function unescapeIcsText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+function splitIcsList(value: string): string[] {
+  return value
+    .split(/(?<!\\),/)
+    .map(item => unescapeIcsText(item).trim())
+    .filter(Boolean);
+}
+
+// RFC 5545 limits content lines to 75 octets; continuation lines start with a space
+function foldIcsLine(line: string): string {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+
+  const chunks: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const size = new TextEncoder().encode(char).length;
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (currentBytes + size > limit) {
+      chunks.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += size;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+}
@@ -0,0 +1,150 @@
+import { DecodedIdentifier } from '../types/nostr';
+import { decodeBech32Identifier, BECH32_IDENTIFIER_PATTERN } from './nostr';
+
+export type ContentToken =
+  | { type: 'text'; text: string }
+  | { type: 'nostr'; text: string; identifier: DecodedIdentifier | null }
+  | { type: 'url'; text: string; url: string }
+  | { type: 'hashtag'; text: string; hashtag: string }
+  | { type: 'index-mention'; text: string; index: number; tag: string[] | null; identifier: DecodedIdentifier | null };
+
+export interface ReferenceCheck {
+  text: string;
+  expectedTag: 'p' | 'e' | 'q' | 'a' | null;
+  value: string | null;
+  tagged: boolean;
+  matchedTag: string | null;
+}
+
+const TOKEN_REGEX = new RegExp(
+  [
+    `(?<nostr>nostr:${BECH32_IDENTIFIER_PATTERN})`,
+    '(?<url>https?:\\/\\/[^\\s<>"]+)',
+    '(?<index>#\\[(?<indexValue>\\d+)\\])',
+    '(?<hashtag>#[\\p{L}\\p{N}_]+)'
+  ].join('|'),
+  'gu'
+);
+
+export function tokenizeContent(content: string, tags: string[][] = []): ContentToken[] {
+  const tokens: ContentToken[] = [];
+  let lastIndex = 0;
+
+  const pushText = (text: string) => {
+    if (!text) return;
+    const previous = tokens[tokens.length - 1];
+    if (previous && previous.type === 'text') {
+      previous.text += text;
+    } else {
+      tokens.push({ type: 'text', text });
+    }
+  };
+
+  for (const match of content.matchAll(TOKEN_REGEX)) {
+    const start = match.index ?? 0;
+    let text = match[0];
+    const groups = match.groups || {};
+
+    // Hashtags only count at a word boundary, otherwise "a#b" would become a tag
+    if (groups.hashtag && start > 0 && !/\s|\(/.test(content[start - 1])) {
+      continue;
+    }
+
+    pushText(content.slice(lastIndex, start));
+
+    if (groups.nostr) {
+      tokens.push({ type: 'nostr', text, identifier: decodeBech32Identifier(text.slice(6)) });
+    } else if (groups.url) {
+      // Trailing punctuation usually belongs to the sentence, not the URL
+      const trimmedUrl = text.replace(/[.,;:!?)\]]+$/, '');
+      tokens.push({ type: 'url', text: trimmedUrl, url: trimmedUrl });
+      text = trimmedUrl;
+    } else if (groups.index) {
+      const index = Number(groups.indexValue);
+      const tag = tags[index] || null;
+      tokens.push({ type: 'index-mention', text, index, tag, identifier: tag ? tagToIdentifier(tag) : null });
+    } else if (groups.hashtag) {
+      tokens.push({ type: 'hashtag', text, hashtag: text.slice(1) });
+    }
+
+    lastIndex = start + text.length;
+  }
+
+  pushText(content.slice(lastIndex));
+  return tokens;
+}
+
+export function tagToIdentifier(tag: string[]): DecodedIdentifier | null {
+  const [name, value, relay] = tag;
+  const relays = relay ? [relay] : undefined;
+
+  if (name === 'p' && value?.match(/^[0-9a-f]{64}$/i)) {
+    return { type: 'nprofile', data: { pubkey: value.toLowerCase(), relays } };
+  }
+  if ((name === 'e' || name === 'q') && value?.match(/^[0-9a-f]{64}$/i)) {
+    return { type: 'nevent', data: { id: value.toLowerCase(), relays } };
+  }
+  if (name === 'a' && value) {
+    const [kind, author, ...dTag] = value.split(':');
+    if (author?.match(/^[0-9a-f]{64}$/i) && /^\d+$/.test(kind)) {
+      return { type: 'naddr', data: { kind: Number(kind), author: author.toLowerCase(), dTag: dTag.join(':'), relays } };
+    }
+  }
+  return null;
+}
+
+// NIP-27 asks clients to add a matching p/e/q/a tag for every inline reference
+export function crossCheckReferences(tokens: ContentToken[], tags: string[][]): ReferenceCheck[] {
+  const checks: ReferenceCheck[] = [];
+
+  for (const token of tokens) {
+    if (token.type === 'index-mention') {
+      checks.push({
+        text: token.text,
+        expectedTag: null,
+        value: null,
+        tagged: token.tag !== null,
+        matchedTag: token.tag ? token.tag[0] : null
+      });
+      continue;
+    }
+    if (token.type !== 'nostr') continue;
+
+    const identifier = token.identifier;
+    if (!identifier) {
+      checks.push({ text: token.text, expectedTag: null, value: null, tagged: false, matchedTag: null });
+      continue;
+    }
+
+    const { data } = identifier;
+    let candidates: string[] = [];
+    let value: string | null = null;
+    switch (identifier.type) {
+      case 'npub':
+      case 'nprofile':
+        candidates = ['p'];
+        value = data.pubkey || null;
+        break;
+      case 'note':
+      case 'nevent':
+        candidates = ['e', 'q'];
+        value = data.id || null;
+        break;
+      case 'naddr':
+        candidates = ['a'];
+        value = `${data.kind}:${data.author}:${data.dTag ?? ''}`;
+        break;
+    }
+
+    const match = tags.find(tag => candidates.includes(tag[0]) && tag[1] === value);
+    checks.push({
+      text: token.text,
+      expectedTag: (candidates[0] as ReferenceCheck['expectedTag']) ?? null,
+      value,
+      tagged: !!match,
+      matchedTag: match ? match[0] : null
+    });
+  }
+
+  return checks;
+}
@@ -0,0 +1,206 @@
+import { NostrEvent } from '../types/nostr';
+import { getKindCategory } from './schema';
+
+export type DiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface LineDiff {
+  status: 'added' | 'removed' | 'unchanged';
+  text: string;
+  // 1-based line numbers in the left/right content
+  leftLine?: number;
+  rightLine?: number;
+}
+
+export interface JsonKeyDiff {
+  key: string;
+  status: DiffStatus;
+  before?: string;
+  after?: string;
+}
+
+export interface TagDiff {
+  added: string[][];
+  removed: string[][];
+  unchanged: number;
+}
+
+export type ContentDiff =
+  | { type: 'json'; entries: JsonKeyDiff[] }
+  | { type: 'lines'; lines: LineDiff[] };
+
+export interface EventComparison {
+  sameId: boolean;
+  // Seconds from left to right; positive when the right event is newer
+  createdAtDelta: number;
+  leftCoordinate: string | null;
+  rightCoordinate: string | null;
+  sameCoordinate: boolean;
+  // Which version relays keep for a shared replaceable coordinate
+  winner: 'left' | 'right' | null;
+  tags: TagDiff;
+  content: ContentDiff;
+}
+
+// Beyond this many cells the LCS table is too large to build in the page
+const MAX_LCS_CELLS = 4_000_000;
+
+export function replaceableCoordinate(event: NostrEvent): string | null {
+  const category = getKindCategory(event.kind);
+  if (category === 'replaceable') return `${event.kind}:${event.pubkey}:`;
+  if (category === 'addressable') return `${event.kind}:${event.pubkey}:${event.tags.find(t => t[0] === 'd')?.[1] ?? ''}`;
+  return null;
+}
+
+export function compareEvents(left: NostrEvent, right: NostrEvent): EventComparison {
+  const leftCoordinate = replaceableCoordinate(left);
+  const rightCoordinate = replaceableCoordinate(right);
+  const sameCoordinate = leftCoordinate !== null && leftCoordinate === rightCoordinate;
+
+  let winner: 'left' | 'right' | null = null;
+  if (sameCoordinate && left.id !== right.id) {
+    // NIP-01: the newest wins, and on a created_at tie the lowest id
+    winner = left.created_at !== right.created_at
+      ? (left.created_at > right.created_at ? 'left' : 'right')
+      : (left.id < right.id ? 'left' : 'right');
+  }
+
+  return {
+    sameId: left.id === right.id,
+    createdAtDelta: right.created_at - left.created_at,
+    leftCoordinate,
+    rightCoordinate,
+    sameCoordinate,
+    winner,
+    tags: diffTags(left.tags, right.tags),
+    content: diffContent(left.content, right.content)
+  };
+}
+
+// Tags are compared as a multiset; order changes alone are not reported
+export function diffTags(left: string[][], right: string[][]): TagDiff {
+  const remaining = new Map<string, number>();
+  for (const tag of left) {
+    const key = JSON.stringify(tag);
+    remaining.set(key, (remaining.get(key) ?? 0) + 1);
+  }
+
+  const added: string[][] = [];
+  let unchanged = 0;
+  for (const tag of right) {
+    const key = JSON.stringify(tag);
+    const count = remaining.get(key) ?? 0;
+    if (count > 0) {
+      remaining.set(key, count - 1);
+      unchanged++;
+    } else {
+      added.push(tag);
+    }
+  }
+
+  const removed: string[][] = [];
+  for (const tag of left) {
+    const key = JSON.stringify(tag);
+    const count = remaining.get(key) ?? 0;
+    if (count > 0) {
+      remaining.set(key, count - 1);
+      removed.push(tag);
+    }
+  }
+
+  return { added, removed, unchanged };
+}
+
+export function diffContent(left: string, right: string): ContentDiff {
+  const leftJson = parseJsonObject(left);
+  const rightJson = parseJsonObject(right);
+  if (leftJson && rightJson) {
+    return { type: 'json', entries: diffJsonKeys(leftJson, rightJson) };
+  }
+  return { type: 'lines', lines: diffLines(left, right) };
+}
+
+export function diffJsonKeys(left: Record<string, unknown>, right: Record<string, unknown>): JsonKeyDiff[] {
+  const keys = Array.from(new Set([...Object.keys(left), ...Object.keys(right)])).sort();
+
+  return keys.map(key => {
+    const inLeft = Object.prototype.hasOwnProperty.call(left, key);
+    const inRight = Object.prototype.hasOwnProperty.call(right, key);
+    const before = inLeft ? JSON.stringify(left[key]) : undefined;
+    const after = inRight ? JSON.stringify(right[key]) : undefined;
+
+    if (!inLeft) return { key, status: 'added', after };
+    if (!inRight) return { key, status: 'removed', before };
+    return { key, status: before === after ? 'unchanged' : 'changed', before, after };
+  });
+}
+
+export function diffLines(left: string, right: string): LineDiff[] {
+  const a = left === '' ? [] : left.split('\n');
+  const b = right === '' ? [] : right.split('\n');
+
+  // Trim the common prefix and suffix so typical edits only run LCS on the changed middle
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const result: LineDiff[] = [];
+  for (let i = 0; i < start; i++) {
+    result.push({ status: 'unchanged', text: a[i], leftLine: i + 1, rightLine: i + 1 });
+  }
+  result.push(...diffMiddle(a.slice(start, endA), b.slice(start, endB), start));
+  for (let i = endA, j = endB; i < a.length; i++, j++) {
+    result.push({ status: 'unchanged', text: a[i], leftLine: i + 1, rightLine: j + 1 });
+  }
+  return result;
+}
+
+function diffMiddle(a: string[], b: string[], offset: number): LineDiff[] {
+  const removeAll = a.map((text, i): LineDiff => ({ status: 'removed', text, leftLine: offset + i + 1 }));
+  const addAll = b.map((text, j): LineDiff => ({ status: 'added', text, rightLine: offset + j + 1 }));
+  if (a.length === 0 || b.length === 0 || a.length * b.length > MAX_LCS_CELLS) {
+    return [...removeAll, ...addAll];
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const result: LineDiff[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ status: 'unchanged', text: a[i], leftLine: offset + i + 1, rightLine: offset + j + 1 });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      result.push(removeAll[i++]);
+    } else {
+      result.push(addAll[j++]);
+    }
+  }
+  while (i < a.length) result.push(removeAll[i++]);
+  while (j < b.length) result.push(addAll[j++]);
+  return result;
+}
+
+function parseJsonObject(text: string): Record<string, unknown> | null {
+  try {
+    const parsed = JSON.parse(text);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
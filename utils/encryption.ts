@@ -0,0 +1,239 @@
+import { getSharedSecret } from '@noble/secp256k1';
+import { chacha20 } from '@noble/ciphers/chacha';
+import { extract as hkdfExtract, expand as hkdfExpand } from '@noble/hashes/hkdf';
+import { hmac } from '@noble/hashes/hmac';
+import { sha256 } from '@noble/hashes/sha256';
+import { base64 } from '@scure/base';
+import { NostrEvent } from '../types/nostr';
+import { bytesToHex, hexToBytes, isValidEventStructure, validateEvent, computeEventId } from './nostr';
+import { getPublicKey } from './signer';
+
+export interface Nip44Diagnostics {
+  version: number | null;
+  nonce: string | null;
+  payloadLength: number;
+  ciphertextLength: number | null;
+  macValid: boolean | null;
+  declaredLength: number | null;
+  paddedLength: number | null;
+  expectedPaddedLength: number | null;
+  paddingValid: boolean | null;
+}
+
+export interface DecryptionResult {
+  scheme: 'nip04' | 'nip44';
+  plaintext: string | null;
+  error: string | null;
+  diagnostics?: Nip44Diagnostics;
+}
+
+export interface UnwrapLayer {
+  label: 'Gift Wrap' | 'Seal' | 'Rumor';
+  event: NostrEvent;
+  decryption?: DecryptionResult;
+  notes: string[];
+}
+
+function sharedX(secretKey: string, pubkey: string): Uint8Array {
+  return getSharedSecret(hexToBytes(secretKey), hexToBytes('02' + pubkey), true).slice(1, 33);
+}
+
+export function detectScheme(content: string): 'nip04' | 'nip44' | null {
+  if (/^[A-Za-z0-9+/=]+\?iv=[A-Za-z0-9+/=]+$/.test(content.trim())) return 'nip04';
+  if (/^[A-Za-z0-9+/=#]+$/.test(content.trim()) && content.trim().length >= 132) return 'nip44';
+  return null;
+}
+
+export async function decryptNip04(content: string, secretKey: string, pubkey: string): Promise<DecryptionResult> {
+  try {
+    const [ciphertext, iv] = content.trim().split('?iv=');
+    if (!ciphertext || !iv) {
+      throw new Error('Missing ?iv= separator');
+    }
+
+    const key = await crypto.subtle.importKey('raw', sharedX(secretKey, pubkey), { name: 'AES-CBC' }, false, ['decrypt']);
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-CBC', iv: base64.decode(iv) }, key, base64.decode(ciphertext));
+
+    return { scheme: 'nip04', plaintext: new TextDecoder().decode(plaintext), error: null };
+  } catch (error) {
+    return { scheme: 'nip04', plaintext: null, error: (error as Error).message || 'Decryption failed (wrong key?)' };
+  }
+}
+
+export function getConversationKey(secretKey: string, pubkey: string): Uint8Array {
+  return hkdfExtract(sha256, sharedX(secretKey, pubkey), new TextEncoder().encode('nip44-v2'));
+}
+
+export function calcPaddedLength(length: number): number {
+  if (length <= 32) return 32;
+  const nextPower = 1 << (Math.floor(Math.log2(length - 1)) + 1);
+  const chunk = nextPower <= 256 ? 32 : nextPower / 8;
+  return chunk * (Math.floor((length - 1) / chunk) + 1);
+}
+
+export function decryptNip44(payload: string, secretKey: string, pubkey: string): DecryptionResult {
+  const diagnostics: Nip44Diagnostics = {
+    version: null,
+    nonce: null,
+    payloadLength: payload.length,
+    ciphertextLength: null,
+    macValid: null,
+    declaredLength: null,
+    paddedLength: null,
+    expectedPaddedLength: null,
+    paddingValid: null
+  };
+  const fail = (error: string): DecryptionResult => ({ scheme: 'nip44', plaintext: null, error, diagnostics });
+
+  if (payload.startsWith('#')) {
+    return fail('Unsupported encryption version (payload starts with #)');
+  }
+  if (payload.length < 132 || payload.length > 87472) {
+    return fail(`Invalid payload length ${payload.length} (expected 132..87472)`);
+  }
+
+  let data: Uint8Array;
+  try {
+    data = base64.decode(payload);
+  } catch {
+    return fail('Payload is not valid base64');
+  }
+
+  diagnostics.version = data[0];
+  if (data[0] !== 2) {
+    return fail(`Unsupported version ${data[0]} (expected 2)`);
+  }
+  if (data.length < 99) {
+    return fail(`Decoded payload is too short (${data.length} bytes)`);
+  }
+
+  const nonce = data.slice(1, 33);
+  const ciphertext = data.slice(33, data.length - 32);
+  const mac = data.slice(data.length - 32);
+  diagnostics.nonce = bytesToHex(nonce);
+  diagnostics.ciphertextLength = ciphertext.length;
+
+  let conversationKey: Uint8Array;
+  try {
+    conversationKey = getConversationKey(secretKey, pubkey);
+  } catch (error) {
+    return fail('Could not derive conversation key: ' + (error as Error).message);
+  }
+
+  const keys = hkdfExpand(sha256, conversationKey, nonce, 76);
+  const chachaKey = keys.slice(0, 32);
+  const chachaNonce = keys.slice(32, 44);
+  const hmacKey = keys.slice(44, 76);
+
+  const expectedMac = hmac(sha256, hmacKey, concatBytes(nonce, ciphertext));
+  diagnostics.macValid = equalBytes(mac, expectedMac);
+  if (!diagnostics.macValid) {
+    return fail('MAC mismatch (wrong key or tampered payload)');
+  }
+
+  const padded = chacha20(chachaKey, chachaNonce, ciphertext);
+  const declaredLength = (padded[0] << 8) | padded[1];
+  diagnostics.declaredLength = declaredLength;
+  diagnostics.paddedLength = padded.length - 2;
+  diagnostics.expectedPaddedLength = declaredLength > 0 ? calcPaddedLength(declaredLength) : null;
+  diagnostics.paddingValid =
+    declaredLength > 0 && padded.length === 2 + calcPaddedLength(declaredLength);
+  if (!diagnostics.paddingValid) {
+    return fail(`Invalid padding: declared ${declaredLength} bytes in ${padded.length - 2} padded bytes`);
+  }
+
+  return {
+    scheme: 'nip44',
+    plaintext: new TextDecoder().decode(padded.slice(2, 2 + declaredLength)),
+    error: null,
+    diagnostics
+  };
+}
+
+export async function decryptContent(content: string, secretKey: string, pubkey: string): Promise<DecryptionResult> {
+  return detectScheme(content) === 'nip04'
+    ? await decryptNip04(content, secretKey, pubkey)
+    : decryptNip44(content, secretKey, pubkey);
+}
+
+// For kind 4 the peer is whichever side of the conversation we are not
+export function getCounterparty(event: NostrEvent, secretKey: string): string {
+  const ownPubkey = getPublicKey(secretKey);
+  if (event.kind === 4 && event.pubkey === ownPubkey) {
+    return event.tags.find(t => t[0] === 'p')?.[1] || event.pubkey;
+  }
+  return event.pubkey;
+}
+
+export async function unwrapGiftWrap(wrap: NostrEvent, secretKey: string): Promise<UnwrapLayer[]> {
+  const layers: UnwrapLayer[] = [];
+
+  const wrapDecryption = decryptNip44(wrap.content, secretKey, wrap.pubkey);
+  layers.push({ label: 'Gift Wrap', event: wrap, decryption: wrapDecryption, notes: [] });
+  if (wrap.kind !== 1059) {
+    layers[0].notes.push(`Expected kind 1059, got ${wrap.kind}`);
+  }
+  if (!wrapDecryption.plaintext) return layers;
+
+  const seal = parseInnerEvent(wrapDecryption.plaintext);
+  if (!seal) {
+    layers[0].notes.push('Decrypted gift wrap content is not an event');
+    return layers;
+  }
+
+  return [...layers, ...(await unwrapSeal(seal, secretKey))];
+}
+
+export async function unwrapSeal(seal: NostrEvent, secretKey: string): Promise<UnwrapLayer[]> {
+  const sealNotes: string[] = [];
+  if (seal.kind !== 13) sealNotes.push(`Expected kind 13, got ${seal.kind}`);
+  if (seal.tags.length > 0) sealNotes.push('Seal tags should be empty');
+  const sealValidation = await validateEvent(seal);
+  sealNotes.push(sealValidation.isValid ? 'Seal signature is valid' : `Seal is invalid: ${sealValidation.errors.join(', ')}`);
+
+  const sealDecryption = decryptNip44(seal.content, secretKey, seal.pubkey);
+  const layers: UnwrapLayer[] = [{ label: 'Seal', event: seal, decryption: sealDecryption, notes: sealNotes }];
+  if (!sealDecryption.plaintext) return layers;
+
+  const rumor = parseInnerEvent(sealDecryption.plaintext, true);
+  if (!rumor) {
+    sealNotes.push('Decrypted seal content is not an event');
+    return layers;
+  }
+
+  const rumorNotes: string[] = ['Rumors are unsigned by design'];
+  if ((await computeEventId(rumor)) !== rumor.id) {
+    rumorNotes.push('Rumor id does not match its computed hash');
+  }
+  if (rumor.pubkey !== seal.pubkey) {
+    rumorNotes.push('Rumor pubkey does not match seal pubkey - possible impersonation');
+  }
+  layers.push({ label: 'Rumor', event: rumor, notes: rumorNotes });
+  return layers;
+}
+
+function parseInnerEvent(plaintext: string, allowUnsigned = false): NostrEvent | null {
+  try {
+    const parsed = JSON.parse(plaintext);
+    if (allowUnsigned && parsed && typeof parsed.sig !== 'string') {
+      parsed.sig = '';
+    }
+    return isValidEventStructure(parsed) ? parsed as NostrEvent : null;
+  } catch {
+    return null;
+  }
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const result = new Uint8Array(a.length + b.length);
+  result.set(a);
+  result.set(b, a.length);
+  return result;
+}
+
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
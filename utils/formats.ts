@@ -0,0 +1,25 @@
+// Recognizers for the text formats parseInput accepts. This module imports nothing,
+// so parsing input never loads the relay or crypto layers behind the full implementations.
+
+export interface Nip05Address {
+  name: string;
+  domain: string;
+}
+
+export const NIP05_PATTERN = /^(?:([a-z0-9._-]+)@)?((?:[a-z0-9-]+\.)+[a-z0-9-]{2,})$/i;
+
+// A bare domain is shorthand for the root identifier _@domain
+export function parseNip05(identifier: string): Nip05Address | null {
+  const match = identifier.trim().match(NIP05_PATTERN);
+  if (!match) return null;
+  return { name: (match[1] || '_').toLowerCase(), domain: match[2].toLowerCase() };
+}
+
+export function formatNip05(address: Nip05Address): string {
+  return address.name === '_' ? address.domain : `${address.name}@${address.domain}`;
+}
+
+// Only the shape; decodeNcryptsec in nip49.ts checks the checksum and payload
+export function isNcryptsec(input: string): boolean {
+  return /^ncryptsec1[a-z0-9]+$/i.test(input.trim());
+}
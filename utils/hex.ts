@@ -0,0 +1,77 @@
+import { CURVE, utils } from '@noble/secp256k1';
+import { NostrEvent, NostrFilter, RelayQueryResult } from '../types/nostr';
+import { queryRelays, pickLatest, QueryOptions } from './relay';
+import { isValidPublicKey } from './keys';
+import { getPublicKey } from './signer';
+
+export type HexReading = 'event_id' | 'pubkey' | 'secret_key';
+
+const AUTO_LOOKUP_STORAGE_KEY = 'decodenote:hex-auto-lookup';
+
+export interface HexLookup {
+  // Event whose id is the hex
+  event: NostrEvent | null;
+  // Profile published by the hex read as a pubkey
+  profile: NostrEvent | null;
+  // Profile published by the pubkey derived from the hex read as a secret key
+  derivedProfile: NostrEvent | null;
+  derivedPubkey: string | null;
+  // The reading the relays confirmed, if any
+  pick: HexReading | null;
+  result: RelayQueryResult;
+}
+
+// Off unless the user opted in: an automatic lookup would publish any pasted secret key
+export function getHexAutoLookup(): boolean {
+  try {
+    return globalThis.localStorage?.getItem(AUTO_LOOKUP_STORAGE_KEY) === 'true';
+  } catch {
+    return false;
+  }
+}
+
+export function setHexAutoLookup(enabled: boolean): void {
+  try {
+    globalThis.localStorage?.setItem(AUTO_LOOKUP_STORAGE_KEY, String(enabled));
+  } catch (error) {
+    console.error('Failed to store hex lookup setting:', error);
+  }
+}
+
+// Which readings of a 32-byte value are even possible, before asking any relay
+export function possibleReadings(hex: string): Record<HexReading, boolean> {
+  return {
+    event_id: true,
+    pubkey: isValidPublicKey(hex),
+    secret_key: utils.isValidPrivateKey(hex)
+  };
+}
+
+export function signatureParts(hex: string): { r: string; s: string; inRange: boolean } {
+  const r = hex.slice(0, 64);
+  const s = hex.slice(64, 128);
+  // BIP-340: r is an x-coordinate below the field prime, s is below the group order
+  return { r, s, inRange: BigInt(`0x${r}`) < CURVE.P && BigInt(`0x${s}`) < CURVE.n };
+}
+
+// Asks relays for an event with this id and a profile by this pubkey in one subscription.
+// This sends the raw hex to every relay, so a secret key pasted here is exposed; only call it on an explicit request.
+export async function lookupHex(hex: string, relays: string[], options: QueryOptions = {}): Promise<HexLookup> {
+  const readings = possibleReadings(hex);
+  const derivedPubkey = readings.secret_key ? getPublicKey(hex) : null;
+
+  const filters: NostrFilter[] = [{ ids: [hex] }];
+  if (readings.pubkey) filters.push({ kinds: [0], authors: [hex] });
+  if (derivedPubkey) filters.push({ kinds: [0], authors: [derivedPubkey] });
+
+  // queryRelays keeps only signed events that match a filter, so a relay cannot force a reading
+  const result = await queryRelays(relays, filters, options);
+  const event = result.events.find(e => e.id === hex) ?? null;
+  const profile = pickLatest(result.events.filter(e => e.kind === 0 && e.pubkey === hex));
+  const derivedProfile = derivedPubkey
+    ? pickLatest(result.events.filter(e => e.kind === 0 && e.pubkey === derivedPubkey))
+    : null;
+
+  const pick: HexReading | null = event ? 'event_id' : profile ? 'pubkey' : derivedProfile ? 'secret_key' : null;
+  return { event, profile, derivedProfile, derivedPubkey, pick, result };
+}
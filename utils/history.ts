@@ -0,0 +1,162 @@
+import { NostrEvent, DecodedIdentifier, NostrFilter, RelayQueryResult } from '../types/nostr';
+import { isValidEventStructure, validateEvent } from './nostr';
+import { getKindCategory } from './schema';
+import { queryRelays, QueryOptions } from './relay';
+import { replaceableCoordinate } from './diff';
+
+export interface HistoryTarget {
+  kind: number;
+  pubkey: string;
+  // Only used for addressable kinds
+  dTag?: string;
+}
+
+export interface VersionEntry {
+  event: NostrEvent;
+  // The version relays should serve for this coordinate
+  current: boolean;
+  valid: boolean;
+  seenOn: string[];
+  // Found in this browser's saved history
+  local: boolean;
+}
+
+export interface VersionHistory {
+  coordinate: string;
+  // Newest first
+  versions: VersionEntry[];
+  result: RelayQueryResult | null;
+}
+
+// Replaceable kinds offered when starting from a bare pubkey
+export const PROFILE_HISTORY_KINDS = [0, 3, 10002];
+
+const HISTORY_STORAGE_KEY = 'decodenote:version-history';
+const MAX_VERSIONS_PER_COORDINATE = 25;
+const MAX_COORDINATES = 100;
+
+export function historyCoordinate(target: HistoryTarget): string {
+  return `${target.kind}:${target.pubkey}:${getKindCategory(target.kind) === 'addressable' ? target.dTag ?? '' : ''}`;
+}
+
+export function historyTargetFromIdentifier(identifier: DecodedIdentifier, kind = 0): HistoryTarget | null {
+  const { data } = identifier;
+  if (identifier.type === 'naddr' && data.author && data.kind !== undefined) {
+    const category = getKindCategory(data.kind);
+    if (category !== 'replaceable' && category !== 'addressable') return null;
+    return { kind: data.kind, pubkey: data.author, dTag: data.dTag ?? '' };
+  }
+  if ((identifier.type === 'npub' || identifier.type === 'nprofile') && data.pubkey) {
+    return { kind, pubkey: data.pubkey };
+  }
+  return null;
+}
+
+// NIP-01 ordering: newest first, and on equal created_at the lowest id first
+export function compareVersions(a: NostrEvent, b: NostrEvent): number {
+  if (a.created_at !== b.created_at) return b.created_at - a.created_at;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+export function getLocalVersions(target: HistoryTarget): NostrEvent[] {
+  return readHistory()[historyCoordinate(target)] ?? [];
+}
+
+// Relays usually keep only the latest version, so every version we see is saved locally
+export function recordVersions(events: NostrEvent[]): void {
+  const history = readHistory();
+  let changed = false;
+
+  for (const event of events) {
+    const coordinate = isValidEventStructure(event) ? replaceableCoordinate(event) : null;
+    if (!coordinate) continue;
+    const versions = history[coordinate] ?? [];
+    if (versions.some(v => v.id === event.id)) continue;
+
+    // Re-inserting moves the coordinate to the end, so the oldest-touched ones are evicted first
+    delete history[coordinate];
+    history[coordinate] = [...versions, event].sort(compareVersions).slice(0, MAX_VERSIONS_PER_COORDINATE);
+    changed = true;
+  }
+  if (!changed) return;
+
+  const coordinates = Object.keys(history);
+  coordinates.slice(0, Math.max(0, coordinates.length - MAX_COORDINATES)).forEach(c => delete history[c]);
+  try {
+    globalThis.localStorage?.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history));
+  } catch {
+    // Storage full or unavailable; history only lives for this session
+  }
+}
+
+export function clearLocalHistory(target?: HistoryTarget): void {
+  try {
+    if (!target) {
+      globalThis.localStorage?.removeItem(HISTORY_STORAGE_KEY);
+      return;
+    }
+    const history = readHistory();
+    delete history[historyCoordinate(target)];
+    globalThis.localStorage?.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history));
+  } catch {
+    // Storage unavailable
+  }
+}
+
+export async function fetchVersionHistory(
+  target: HistoryTarget,
+  relays: string[],
+  options: QueryOptions = {}
+): Promise<VersionHistory> {
+  const coordinate = historyCoordinate(target);
+  const filter: NostrFilter = { kinds: [target.kind], authors: [target.pubkey] };
+  if (getKindCategory(target.kind) === 'addressable') filter['#d'] = [target.dTag ?? ''];
+
+  const result = relays.length > 0 ? await queryRelays(relays, [filter], options) : null;
+  const local = getLocalVersions(target);
+  return buildVersionHistory(coordinate, result, local);
+}
+
+export async function buildVersionHistory(
+  coordinate: string,
+  result: RelayQueryResult | null,
+  local: NostrEvent[]
+): Promise<VersionHistory> {
+  const byId = new Map<string, NostrEvent>();
+  // Relays may answer with events outside the filter; keep only this coordinate
+  for (const event of [...(result?.events ?? []), ...local]) {
+    if (replaceableCoordinate(event) === coordinate && !byId.has(event.id)) {
+      byId.set(event.id, event);
+    }
+  }
+
+  const events = Array.from(byId.values()).sort(compareVersions);
+  const validations = await Promise.all(events.map(validateEvent));
+  const localIds = new Set(local.map(e => e.id));
+  // Relays reject invalid events, so the current version is the newest valid one
+  const currentIndex = validations.findIndex(v => v.isValid);
+
+  recordVersions(events.filter((_, i) => validations[i].isValid));
+
+  return {
+    coordinate,
+    versions: events.map((event, i) => ({
+      event,
+      current: i === currentIndex,
+      valid: validations[i].isValid,
+      seenOn: result?.seenOn[event.id] ?? [],
+      local: localIds.has(event.id)
+    })),
+    result
+  };
+}
+
+function readHistory(): Record<string, NostrEvent[]> {
+  try {
+    const stored = globalThis.localStorage?.getItem(HISTORY_STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : null;
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,137 @@
+import { Point, utils } from '@noble/secp256k1';
+import { HDKey } from '@scure/bip32';
+import { generateMnemonic, mnemonicToSeedSync, validateMnemonic } from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english';
+import { encodeBech32Identifier, decodeBech32Identifier, bytesToHex, hexToBytes } from './nostr';
+import { getPublicKey, parseSecretKey } from './signer';
+
+export type KeySource = 'generated' | 'nsec' | 'npub' | 'hex_secret' | 'hex_public' | 'mnemonic';
+
+export interface KeySet {
+  source: KeySource;
+  publicKey: string;
+  npub: string;
+  // Null when only the public half is known
+  secretKey: string | null;
+  nsec: string | null;
+  mnemonic: string | null;
+  // NIP-06 derivation path, set for mnemonic keys
+  path: string | null;
+}
+
+export interface MnemonicOptions {
+  passphrase?: string;
+  account?: number;
+}
+
+// NIP-06: BIP-44 path with the SLIP-44 coin type registered for Nostr
+export const NIP06_COIN_TYPE = 1237;
+export const MNEMONIC_WORD_COUNTS = [12, 24] as const;
+
+export function nip06Path(account = 0): string {
+  if (!Number.isInteger(account) || account < 0 || account >= 0x80000000) {
+    throw new Error('Account must be an integer between 0 and 2147483647');
+  }
+  return `m/44'/${NIP06_COIN_TYPE}'/${account}'/0/0`;
+}
+
+export function generateKeys(): KeySet {
+  return keysFromSecret(bytesToHex(utils.randomPrivateKey()), 'generated');
+}
+
+export function generateMnemonicKeys(wordCount: 12 | 24 = 12, options: MnemonicOptions = {}): KeySet {
+  // 128 bits of entropy per 12 words
+  return keysFromMnemonic(generateMnemonic(wordlist, wordCount === 24 ? 256 : 128), options);
+}
+
+export function keysFromSecret(secretKey: string, source: KeySource = 'hex_secret'): KeySet {
+  if (!isHexKey(secretKey) || !utils.isValidPrivateKey(secretKey)) {
+    throw new Error('Secret key is outside the valid secp256k1 range');
+  }
+  const publicKey = getPublicKey(secretKey);
+  return {
+    source,
+    publicKey,
+    npub: encodeBech32Identifier({ type: 'npub', data: { pubkey: publicKey } }),
+    secretKey,
+    nsec: encodeBech32Identifier({ type: 'nsec', data: { pubkey: secretKey } }),
+    mnemonic: null,
+    path: null
+  };
+}
+
+export function keysFromPublicKey(publicKey: string, source: KeySource = 'hex_public'): KeySet {
+  if (!isHexKey(publicKey) || !isValidPublicKey(publicKey)) {
+    throw new Error('Public key is not a valid secp256k1 x-coordinate');
+  }
+  return {
+    source,
+    publicKey,
+    npub: encodeBech32Identifier({ type: 'npub', data: { pubkey: publicKey } }),
+    secretKey: null,
+    nsec: null,
+    mnemonic: null,
+    path: null
+  };
+}
+
+export function keysFromMnemonic(mnemonic: string, options: MnemonicOptions = {}): KeySet {
+  const normalized = normalizeMnemonic(mnemonic);
+  if (!validateMnemonic(normalized, wordlist)) {
+    const unknown = normalized.split(' ').find(word => !wordlist.includes(word));
+    throw new Error(unknown ? `"${unknown}" is not a BIP-39 English word` : 'Mnemonic checksum does not match');
+  }
+
+  const path = nip06Path(options.account ?? 0);
+  const key = HDKey.fromMasterSeed(mnemonicToSeedSync(normalized, options.passphrase ?? '')).derive(path);
+  if (!key.privateKey) {
+    throw new Error(`Cannot derive a key at ${path}`);
+  }
+  return { ...keysFromSecret(bytesToHex(key.privateKey), 'mnemonic'), mnemonic: normalized, path };
+}
+
+// A bare 64-char hex string could be either half of a keypair, so the caller says which
+export function parseKeyInput(input: string, hexAs: 'secret' | 'public' = 'secret', options: MnemonicOptions = {}): KeySet {
+  const trimmed = input.trim().replace(/^nostr:/i, '');
+  if (!trimmed) throw new Error('Enter an nsec, npub, hex key or mnemonic');
+
+  if (looksLikeMnemonic(trimmed)) return keysFromMnemonic(trimmed, options);
+
+  if (/^npub1/i.test(trimmed)) {
+    const decoded = decodeBech32Identifier(trimmed);
+    if (decoded?.type !== 'npub' || !decoded.data.pubkey) throw new Error('Invalid npub');
+    return keysFromPublicKey(decoded.data.pubkey, 'npub');
+  }
+
+  if (/^nsec1/i.test(trimmed)) return keysFromSecret(parseSecretKey(trimmed), 'nsec');
+
+  if (isHexKey(trimmed.toLowerCase())) {
+    return hexAs === 'secret'
+      ? keysFromSecret(trimmed.toLowerCase(), 'hex_secret')
+      : keysFromPublicKey(trimmed.toLowerCase(), 'hex_public');
+  }
+
+  throw new Error('Enter an nsec, npub, 64-character hex key or 12/24-word mnemonic');
+}
+
+export function looksLikeMnemonic(input: string): boolean {
+  return normalizeMnemonic(input).split(' ').length >= 12 && /^[a-z\s]+$/i.test(input.trim());
+}
+
+export function isValidPublicKey(publicKey: string): boolean {
+  try {
+    // 32-byte input is parsed as a BIP-340 x-only key
+    Point.fromHex(hexToBytes(publicKey));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function normalizeMnemonic(mnemonic: string): string {
+  return mnemonic.trim().toLowerCase().normalize('NFKD').split(/\s+/).join(' ');
+}
+
+function isHexKey(value: string): boolean {
+  return /^[0-9a-f]{64}$/.test(value);
+}
@@ -0,0 +1,115 @@
+import { NostrEvent } from '../types/nostr';
+import { decryptNip04, decryptNip44, detectScheme, DecryptionResult } from './encryption';
+import { getPublicKey } from './signer';
+
+export type ListItemGroup = 'pubkeys' | 'events' | 'addresses' | 'hashtags' | 'words' | 'emojis' | 'relays' | 'urls' | 'groups' | 'other';
+
+export interface ListItem {
+  tag: string[];
+  group: ListItemGroup;
+  // Same tag name and value seen earlier in the same section
+  duplicate: boolean;
+  // Same tag name and value also present in the other (public/private) section
+  inBoth: boolean;
+}
+
+export interface PrivateListItems {
+  scheme: 'nip04' | 'nip44' | null;
+  tags: string[][] | null;
+  error: string | null;
+}
+
+export const LIST_GROUP_LABELS: Record<ListItemGroup, string> = {
+  pubkeys: 'Pubkeys',
+  events: 'Events',
+  addresses: 'Addresses',
+  hashtags: 'Hashtags',
+  words: 'Words',
+  emojis: 'Emojis',
+  relays: 'Relays',
+  urls: 'URLs',
+  groups: 'Groups',
+  other: 'Other'
+};
+
+// Set metadata rather than list entries
+const METADATA_TAGS = new Set(['d', 'title', 'name', 'image', 'description', 'alt']);
+
+const TAG_GROUPS: Record<string, ListItemGroup> = {
+  p: 'pubkeys',
+  e: 'events',
+  a: 'addresses',
+  t: 'hashtags',
+  word: 'words',
+  emoji: 'emojis',
+  relay: 'relays',
+  r: 'urls',
+  group: 'groups'
+};
+
+export function listItemKey(tag: string[]): string {
+  return `${tag[0]}:${tag[1] ?? ''}`;
+}
+
+export function buildListItems(tags: string[][], otherTags: string[][] = []): ListItem[] {
+  const seen = new Set<string>();
+  const other = new Set(otherTags.map(listItemKey));
+
+  return tags
+    .filter(tag => tag.length > 0 && !METADATA_TAGS.has(tag[0]))
+    .map(tag => {
+      const key = listItemKey(tag);
+      const duplicate = seen.has(key);
+      seen.add(key);
+      return { tag, group: TAG_GROUPS[tag[0]] || 'other', duplicate, inBoth: other.has(key) };
+    });
+}
+
+export function groupListItems(items: ListItem[]): Partial<Record<ListItemGroup, ListItem[]>> {
+  const groups: Partial<Record<ListItemGroup, ListItem[]>> = {};
+  for (const item of items) {
+    (groups[item.group] ||= []).push(item);
+  }
+  return groups;
+}
+
+// NIP-51 private items are a JSON tag array encrypted by the author to themselves
+export async function decryptPrivateItems(event: NostrEvent, secretKey: string): Promise<PrivateListItems> {
+  if (!event.content.trim()) {
+    return { scheme: null, tags: [], error: null };
+  }
+  if (getPublicKey(secretKey) !== event.pubkey) {
+    return { scheme: null, tags: null, error: 'Secret key does not belong to the list author' };
+  }
+
+  // NIP-44 is current; NIP-04 payloads (with ?iv=) are still common in older lists.
+  // The detected scheme's error is the one worth showing; unrecognized payloads report both attempts.
+  const scheme = detectScheme(event.content);
+  let result: DecryptionResult;
+  if (scheme === 'nip04') {
+    result = await decryptNip04(event.content, secretKey, event.pubkey);
+  } else if (scheme === 'nip44') {
+    result = decryptNip44(event.content, secretKey, event.pubkey);
+  } else {
+    const modern = decryptNip44(event.content, secretKey, event.pubkey);
+    const legacy = modern.plaintext ? modern : await decryptNip04(event.content, secretKey, event.pubkey);
+    result = legacy.plaintext
+      ? legacy
+      : { ...modern, error: `NIP-44: ${modern.error || 'failed'}; NIP-04: ${legacy.error || 'failed'}` };
+  }
+  if (!result.plaintext) {
+    return { scheme: null, tags: null, error: result.error || 'Decryption failed' };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(result.plaintext);
+  } catch {
+    return { scheme: result.scheme, tags: null, error: 'Decrypted content is not JSON' };
+  }
+  if (!Array.isArray(parsed) || !parsed.every(tag => Array.isArray(tag) && tag.every(v => typeof v === 'string'))) {
+    return { scheme: result.scheme, tags: null, error: 'Decrypted content is not a tag array' };
+  }
+
+  return { scheme: result.scheme, tags: parsed as string[][], error: null };
+}
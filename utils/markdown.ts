@@ -0,0 +1,120 @@
+import type { Root, Parent, Text, Link, PhrasingContent } from 'mdast';
+import { BECH32_IDENTIFIER_PATTERN } from './nostr';
+
+export interface OutlineHeading {
+  level: number;
+  text: string;
+  slug: string;
+}
+
+const WORDS_PER_MINUTE = 200;
+
+export function createSlugger() {
+  const counts = new Map<string, number>();
+
+  return (text: string): string => {
+    const base = text
+      .toLowerCase()
+      .trim()
+      .replace(/[^\p{L}\p{N}\s-]/gu, '')
+      .replace(/\s+/g, '-') || 'section';
+    const count = counts.get(base) || 0;
+    counts.set(base, count + 1);
+    return count === 0 ? base : `${base}-${count}`;
+  };
+}
+
+// Reads ATX and setext headings while skipping fenced code, mirroring how the renderer assigns slugs
+export function extractOutline(markdown: string): OutlineHeading[] {
+  const slug = createSlugger();
+  const headings: OutlineHeading[] = [];
+  const lines = markdown.split(/\r?\n/);
+  let fence: string | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const fenceMatch = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+    if (fenceMatch) {
+      if (!fence) {
+        fence = fenceMatch[1][0];
+      } else if (fenceMatch[1][0] === fence) {
+        fence = null;
+      }
+      continue;
+    }
+    if (fence) continue;
+
+    const atx = line.match(/^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+\s*)?$/);
+    if (atx) {
+      const text = stripInlineMarkdown(atx[2]);
+      headings.push({ level: atx[1].length, text, slug: slug(text) });
+      continue;
+    }
+
+    const next = lines[i + 1];
+    if (line.trim() && next && /^\s{0,3}(=+|-+)\s*$/.test(next) && !/^\s{0,3}([-*+]|\d+[.)])\s/.test(line)) {
+      const text = stripInlineMarkdown(line.trim());
+      headings.push({ level: next.trim()[0] === '=' ? 1 : 2, text, slug: slug(text) });
+      i++;
+    }
+  }
+
+  return headings;
+}
+
+export function estimateReadingTime(markdown: string): { words: number; minutes: number } {
+  const text = markdown
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/nostr:\S+/g, ' ');
+  const words = (text.match(/[\p{L}\p{N}']+/gu) || []).length;
+  return { words, minutes: Math.max(1, Math.round(words / WORDS_PER_MINUTE)) };
+}
+
+function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`~]/g, '')
+    .trim();
+}
+
+// Remark plugin turning bare NIP-21 URIs in text into links so they render as internal navigation
+export function remarkNostrLinks() {
+  const pattern = new RegExp(`nostr:${BECH32_IDENTIFIER_PATTERN}`, 'g');
+
+  const visit = (node: Parent) => {
+    if (node.type === 'link' || node.type === 'linkReference') return;
+
+    const children: typeof node.children = [];
+    for (const child of node.children) {
+      if (child.type !== 'text') {
+        if ('children' in child) visit(child as Parent);
+        children.push(child);
+        continue;
+      }
+
+      const value = (child as Text).value;
+      let lastIndex = 0;
+      for (const match of value.matchAll(pattern)) {
+        const start = match.index ?? 0;
+        if (start > lastIndex) children.push({ type: 'text', value: value.slice(lastIndex, start) } as Text);
+        children.push({
+          type: 'link',
+          url: match[0],
+          children: [{ type: 'text', value: match[0] } as PhrasingContent]
+        } as Link);
+        lastIndex = start + match[0].length;
+      }
+      if (lastIndex === 0) {
+        children.push(child);
+      } else if (lastIndex < value.length) {
+        children.push({ type: 'text', value: value.slice(lastIndex) } as Text);
+      }
+    }
+    node.children = children;
+  };
+
+  return (tree: Root) => visit(tree);
+}
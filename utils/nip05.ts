@@ -0,0 +1,151 @@
+import { isHex } from './nostr';
+import { normalizeRelayUrl } from './relay';
+import { parseNip05, formatNip05, Nip05Address } from './formats';
+
+export interface Nip05Resolution {
+  address: string;
+  pubkey: string;
+  relays: string[];
+  // Unix milliseconds when the document was fetched
+  resolvedAt: number;
+}
+
+export type Nip05Status = 'verified' | 'mismatch' | 'error';
+
+export interface Nip05Verification {
+  status: Nip05Status;
+  resolution: Nip05Resolution | null;
+  error?: string;
+  cached: boolean;
+}
+
+export interface Nip05Options {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  fetchImpl?: typeof fetch;
+  // Skip the cache and always fetch the well-known document
+  refresh?: boolean;
+}
+
+const CACHE_STORAGE_KEY = 'decodenote:nip05-cache';
+const CACHE_TTL_MS = 60 * 60 * 1000;
+const DEFAULT_TIMEOUT_MS = 5000;
+
+export function nip05Url(address: Nip05Address): string {
+  return `https://${address.domain}/.well-known/nostr.json?name=${encodeURIComponent(address.name)}`;
+}
+
+export async function resolveNip05(identifier: string, options: Nip05Options = {}): Promise<Nip05Resolution> {
+  const address = parseNip05(identifier);
+  if (!address) throw new Error(`Not a NIP-05 identifier: ${identifier}`);
+  const key = formatNip05(address);
+
+  if (!options.refresh) {
+    const cached = readCache()[key];
+    if (cached && isFresh(cached)) return cached;
+  }
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  options.signal?.addEventListener('abort', onAbort);
+  const timer = setTimeout(() => controller.abort(), options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+  let document: unknown;
+  try {
+    const fetchImpl = options.fetchImpl ?? globalThis.fetch;
+    // NIP-05 forbids following redirects; a redirected document proves nothing about the domain
+    const response = await fetchImpl(nip05Url(address), {
+      headers: { Accept: 'application/json' },
+      redirect: 'error',
+      signal: controller.signal
+    });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    document = await response.json();
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new Error(options.signal?.aborted ? 'Lookup cancelled' : 'Timed out');
+    }
+    throw new Error((error as Error).message || 'Request failed');
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener('abort', onAbort);
+  }
+
+  const resolution = parseNostrJson(document, address);
+  writeCache(key, resolution);
+  return resolution;
+}
+
+export async function verifyNip05(identifier: string, pubkey: string, options: Nip05Options = {}): Promise<Nip05Verification> {
+  const key = parseNip05(identifier);
+  const cached = !options.refresh && !!key && isFresh(readCache()[formatNip05(key)]);
+
+  try {
+    const resolution = await resolveNip05(identifier, options);
+    return { status: resolution.pubkey === pubkey.toLowerCase() ? 'verified' : 'mismatch', resolution, cached };
+  } catch (error) {
+    return { status: 'error', resolution: null, error: (error as Error).message, cached: false };
+  }
+}
+
+export function clearNip05Cache(): void {
+  try {
+    globalThis.localStorage?.removeItem(CACHE_STORAGE_KEY);
+  } catch {
+    // Storage unavailable
+  }
+}
+
+function parseNostrJson(document: unknown, address: Nip05Address): Nip05Resolution {
+  if (!document || typeof document !== 'object' || Array.isArray(document)) {
+    throw new Error('Response is not a nostr.json document');
+  }
+  const { names, relays } = document as { names?: unknown; relays?: unknown };
+  if (!names || typeof names !== 'object') {
+    throw new Error('nostr.json has no names object');
+  }
+
+  const pubkey = (names as Record<string, unknown>)[address.name];
+  if (typeof pubkey !== 'string') {
+    throw new Error(`${formatNip05(address)} is not listed in nostr.json`);
+  }
+  // Keys must be lowercase hex, not npub
+  if (!isHex(pubkey, 64) || pubkey !== pubkey.toLowerCase()) {
+    throw new Error('nostr.json lists a pubkey that is not 64 lowercase hex characters');
+  }
+
+  const advertised = relays && typeof relays === 'object' ? (relays as Record<string, unknown>)[pubkey] : undefined;
+  const relayUrls = Array.isArray(advertised)
+    ? Array.from(new Set(advertised.filter((r): r is string => typeof r === 'string').map(r => normalizeRelayUrl(r) ?? r)))
+    : [];
+
+  return { address: formatNip05(address), pubkey, relays: relayUrls, resolvedAt: Date.now() };
+}
+
+function isFresh(entry: Nip05Resolution | undefined): boolean {
+  return !!entry && Date.now() - entry.resolvedAt < CACHE_TTL_MS;
+}
+
+function readCache(): Record<string, Nip05Resolution> {
+  try {
+    const stored = globalThis.localStorage?.getItem(CACHE_STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : null;
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function writeCache(key: string, resolution: Nip05Resolution): void {
+  const cache = readCache();
+  cache[key] = resolution;
+  // Drop expired entries so the cache does not grow without bound
+  for (const [k, entry] of Object.entries(cache)) {
+    if (!isFresh(entry)) delete cache[k];
+  }
+  try {
+    globalThis.localStorage?.setItem(CACHE_STORAGE_KEY, JSON.stringify(cache));
+  } catch {
+    // Storage full or unavailable; the lookup still succeeds
+  }
+}
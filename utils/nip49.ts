@@ -0,0 +1,136 @@
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { randomBytes } from '@noble/hashes/utils';
+import { bech32 } from '@scure/base';
+import { bytesToHex, hexToBytes } from './nostr';
+
+export interface Ncryptsec {
+  version: number;
+  // scrypt cost: N = 2^logN
+  logN: number;
+  salt: string;
+  nonce: string;
+  keySecurity: number;
+  // Encrypted secret key plus the 16-byte Poly1305 tag
+  ciphertext: string;
+}
+
+export interface Nip49Options {
+  logN?: number;
+  keySecurity?: number;
+  onProgress?: (progress: number) => void;
+}
+
+export const NCRYPTSEC_VERSION = 0x02;
+export const DEFAULT_LOG_N = 16;
+// scrypt needs 128 * r * N bytes, so 2^20 already takes 1 GiB; browsers fail to allocate much more
+export const MAX_LOG_N = 20;
+
+export const KEY_SECURITY_LABELS: Record<number, string> = {
+  0x00: 'Key has been handled insecurely',
+  0x01: 'Key has NOT been handled insecurely',
+  0x02: 'Client does not track this'
+};
+
+const NCRYPTSEC_LENGTH = 91;
+const BECH32_LIMIT = 5000;
+
+export function decodeNcryptsec(input: string): Ncryptsec {
+  let bytes: Uint8Array;
+  try {
+    const { prefix, words } = bech32.decode(input.trim().toLowerCase() as `${string}1${string}`, BECH32_LIMIT);
+    if (prefix !== 'ncryptsec') throw new Error(`Unexpected prefix "${prefix}"`);
+    bytes = bech32.fromWords(words);
+  } catch (error) {
+    throw new Error(`Invalid ncryptsec: ${(error as Error).message}`);
+  }
+
+  if (bytes.length !== NCRYPTSEC_LENGTH) {
+    throw new Error(`ncryptsec must encode ${NCRYPTSEC_LENGTH} bytes, found ${bytes.length}`);
+  }
+  if (bytes[0] !== NCRYPTSEC_VERSION) {
+    throw new Error(`Unsupported ncryptsec version ${bytes[0]}`);
+  }
+
+  return {
+    version: bytes[0],
+    logN: bytes[1],
+    salt: bytesToHex(bytes.slice(2, 18)),
+    nonce: bytesToHex(bytes.slice(18, 42)),
+    keySecurity: bytes[42],
+    ciphertext: bytesToHex(bytes.slice(43))
+  };
+}
+
+export function encodeNcryptsec(payload: Ncryptsec): string {
+  const bytes = new Uint8Array(NCRYPTSEC_LENGTH);
+  bytes[0] = payload.version;
+  bytes[1] = payload.logN;
+  bytes.set(hexToBytes(payload.salt), 2);
+  bytes.set(hexToBytes(payload.nonce), 18);
+  bytes[42] = payload.keySecurity;
+  bytes.set(hexToBytes(payload.ciphertext), 43);
+  return bech32.encode('ncryptsec', bech32.toWords(bytes), BECH32_LIMIT);
+}
+
+export async function decryptNcryptsec(input: string, password: string, options: Pick<Nip49Options, 'onProgress'> = {}): Promise<string> {
+  const payload = decodeNcryptsec(input);
+  if (payload.logN > MAX_LOG_N) {
+    throw new Error(`log_n ${payload.logN} needs more memory than a browser can allocate (max ${MAX_LOG_N})`);
+  }
+
+  const key = await deriveKey(password, hexToBytes(payload.salt), payload.logN, options.onProgress);
+  try {
+    // The key security byte is authenticated as associated data
+    const secret = xchacha20poly1305(key, hexToBytes(payload.nonce), new Uint8Array([payload.keySecurity]))
+      .decrypt(hexToBytes(payload.ciphertext));
+    return bytesToHex(secret);
+  } catch {
+    throw new Error('Wrong password or corrupted ncryptsec');
+  }
+}
+
+export async function encryptNcryptsec(secretKey: string, password: string, options: Nip49Options = {}): Promise<string> {
+  const logN = options.logN ?? DEFAULT_LOG_N;
+  const keySecurity = options.keySecurity ?? 0x02;
+  if (!/^[0-9a-f]{64}$/.test(secretKey)) {
+    throw new Error('Secret key must be 64 lowercase hex characters');
+  }
+  if (!Number.isInteger(logN) || logN < 1 || logN > MAX_LOG_N) {
+    throw new Error(`log_n must be between 1 and ${MAX_LOG_N}`);
+  }
+  if (!(keySecurity in KEY_SECURITY_LABELS)) {
+    throw new Error('Key security byte must be 0, 1 or 2');
+  }
+
+  const salt = randomBytes(16);
+  const nonce = randomBytes(24);
+  const key = await deriveKey(password, salt, logN, options.onProgress);
+  const ciphertext = xchacha20poly1305(key, nonce, new Uint8Array([keySecurity])).encrypt(hexToBytes(secretKey));
+
+  return encodeNcryptsec({
+    version: NCRYPTSEC_VERSION,
+    logN,
+    salt: bytesToHex(salt),
+    nonce: bytesToHex(nonce),
+    keySecurity,
+    ciphertext: bytesToHex(ciphertext)
+  });
+}
+
+export function formatScryptMemory(logN: number): string {
+  const mib = (128 * 8 * 2 ** logN) / (1024 * 1024);
+  return mib >= 1024 ? `${mib / 1024} GiB of memory` : `${mib} MiB of memory`;
+}
+
+// NIP-49 requires NFKC so the same password typed on different systems yields the same key
+function deriveKey(password: string, salt: Uint8Array, logN: number, onProgress?: (progress: number) => void): Promise<Uint8Array> {
+  return scryptAsync(password.normalize('NFKC'), salt, {
+    N: 2 ** logN,
+    r: 8,
+    p: 1,
+    dkLen: 32,
+    maxmem: 128 * 8 * 2 ** logN + 1024,
+    onProgress
+  });
+}
@@ -0,0 +1,24 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { serializeEvent, computeEventId } from './nostr';
+
+const EVENT = {
+  pubkey: '1'.repeat(64),
+  created_at: 1700000000,
+  kind: 1,
+  tags: [['t', 'café']],
+  content: 'say "hi"\u0001 café \u{1F600}\n'
+};
+
+test('serializeEvent escapes quotes and control characters and keeps non-ASCII verbatim', () => {
+  assert.equal(
+    serializeEvent(EVENT),
+    '[0,"1111111111111111111111111111111111111111111111111111111111111111",1700000000,1,[["t","café"]],"say \\"hi\\"\\u0001 café \u{1F600}\\n"]'
+  );
+  // Other clients hash JSON.stringify output, so the two must agree byte for byte
+  assert.equal(serializeEvent(EVENT), JSON.stringify([0, EVENT.pubkey, EVENT.created_at, EVENT.kind, EVENT.tags, EVENT.content]));
+});
+
+test('computeEventId hashes the UTF-8 serialization', async () => {
+  assert.equal(await computeEventId(EVENT), 'd7df3925f6f24cbadb8810545337cd320f4af5d7ec7c29a29cf22371a6c6993c');
+});
@@ -1,6 +1,19 @@
 import { schnorr } from '@noble/secp256k1';
 import { bech32 } from '@scure/base';
-import { NostrEvent, DecodedIdentifier, ValidationResult, ParsedResult } from '../types/nostr';
+import {
+  NostrEvent,
+  DecodedIdentifier,
+  ValidationResult,
+  ValidationIssue,
+  ParsedResult,
+  BatchParseResult,
+  IdentifierDecodeResult,
+  IdentifierDecodeError,
+  IdentifierErrorCode,
+  TlvEntry,
+  HexInput
+} from '../types/nostr';
+import { parseNip05, formatNip05, isNcryptsec } from './formats';
 
 export function parseInput(input: string): ParsedResult | null {
   const trimmed = input.trim();
@@ -18,21 +31,69 @@ export function parseInput(input: string): ParsedResult | null {
     // Not JSON, continue with other formats
   }
 
-  // Check for bech32 identifiers
-  if (trimmed.match(/^(npub|nsec|note|nevent|nprofile|naddr)1[02-9ac-hj-np-z]+$/)) {
-    const decoded = decodeBech32Identifier(trimmed);
-    if (decoded) {
+  // Check for multiple events (JSON array, JSONL or relay messages)
+  if (trimmed.startsWith('[') || trimmed.includes('\n')) {
+    const batch = parseBatchInput(trimmed);
+    if (batch.events.length > 0) {
+      return {
+        type: 'batch',
+        data: batch
+      };
+    }
+  }
+
+  // Check for bech32 identifiers, with or without a nostr: URI prefix
+  const candidate = trimmed.replace(/^nostr:/i, '');
+  if (isNcryptsec(candidate)) {
+    return {
+      type: 'ncryptsec',
+      data: candidate.toLowerCase()
+    };
+  }
+  if (/^(npub|nsec|note|nevent|nprofile|naddr)1[a-z0-9]*$/i.test(candidate)) {
+    const decoded = decodeBech32Strict(candidate);
+    if (decoded.identifier) {
       return {
         type: 'identifier',
-        data: decoded
+        data: decoded.identifier
+      };
+    }
+    return {
+      type: 'invalid_identifier',
+      data: decoded
+    };
+  }
+
+  // Raw hex is ambiguous: an id, a key, a signature or encoded event data
+  if (isHexString(trimmed) && trimmed.length >= 64) {
+    const text = trimmed.length > 128 ? decodeHexText(trimmed) : null;
+    const nested = text ? parseInput(text) : null;
+    if (nested?.type === 'event') return nested;
+
+    const hex = classifyHex(trimmed);
+    if (hex) {
+      return {
+        type: 'hex',
+        data: hex
+      };
+    }
+  }
+
+  // Check for a NIP-05 address (name@domain)
+  if (trimmed.includes('@')) {
+    const address = parseNip05(trimmed);
+    if (address) {
+      return {
+        type: 'nip05',
+        data: formatNip05(address)
       };
     }
   }
 
-  // Check for nostr: URI
-  if (trimmed.startsWith('nostr:')) {
-    const identifier = trimmed.substring(6);
-    const decoded = decodeBech32Identifier(identifier);
+  // Check for an identifier embedded in mixed text (e.g. a pasted note or URL)
+  const embedded = trimmed.match(new RegExp(`(?:nostr:)?(${BECH32_IDENTIFIER_PATTERN})`, 'i'));
+  if (embedded) {
+    const decoded = decodeBech32Identifier(embedded[1].toLowerCase());
     if (decoded) {
       return {
         type: 'identifier',
@@ -41,25 +102,79 @@ export function parseInput(input: string): ParsedResult | null {
     }
   }
 
-  // Check for raw hex event ID (64 characters)
-  if (trimmed.match(/^[0-9a-f]{64}$/i)) {
-    // Create a minimal event structure for hex ID
-    const decoded: DecodedIdentifier = {
-      type: 'note',
-      data: {
-        id: trimmed.toLowerCase()
+  return null;
+}
+
+export const BECH32_IDENTIFIER_PATTERN = '(?:npub|nsec|note|nevent|nprofile|naddr)1[02-9ac-hj-np-z]+';
+
+const RELAY_MESSAGE_TYPES = ['REQ', 'CLOSE', 'EOSE', 'NOTICE', 'OK', 'CLOSED', 'AUTH', 'COUNT'];
+
+export function parseBatchInput(input: string): BatchParseResult {
+  const result: BatchParseResult = { events: [], errors: [], duplicates: 0 };
+  const seen = new Set<string>();
+  const trimmed = input.trim();
+
+  const addItem = (item: unknown, line: number) => {
+    // Other relay protocol messages (EOSE, NOTICE, OK, ...) are expected in dumps
+    if (Array.isArray(item) && RELAY_MESSAGE_TYPES.includes(item[0])) {
+      return;
+    }
+    const event = extractEvent(item);
+    if (!event) {
+      result.errors.push({ line, message: 'Not a Nostr event or relay EVENT message' });
+      return;
+    }
+    // Only byte-identical copies are duplicates; a reused id with different fields must still be validated
+    const key = JSON.stringify([event.id, event.pubkey, event.created_at, event.kind, event.tags, event.content, event.sig]);
+    if (seen.has(key)) {
+      result.duplicates++;
+      return;
+    }
+    seen.add(key);
+    result.events.push(event);
+  };
+
+  // A whole-input JSON array is either a list of events or a single relay message
+  if (trimmed.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (Array.isArray(parsed)) {
+        if (extractEvent(parsed)) {
+          addItem(parsed, 1);
+        } else {
+          parsed.forEach((item, index) => addItem(item, index + 1));
+        }
+        return result;
       }
-    };
-    return {
-      type: 'identifier',
-      data: decoded
-    };
+    } catch {
+      // Not a single JSON document, fall through to line-delimited parsing
+    }
   }
 
-  return null;
+  trimmed.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line) return;
+    try {
+      addItem(JSON.parse(line), index + 1);
+    } catch {
+      result.errors.push({ line: index + 1, message: 'Invalid JSON' });
+    }
+  });
+
+  return result;
+}
+
+// Accepts a bare event, a relay-to-client ["EVENT", subId, event] or a client-to-relay ["EVENT", event]
+function extractEvent(item: unknown): NostrEvent | null {
+  if (Array.isArray(item)) {
+    if (item[0] !== 'EVENT') return null;
+    const candidate = item.length >= 3 ? item[2] : item[1];
+    return isValidEventStructure(candidate) ? candidate as NostrEvent : null;
+  }
+  return isValidEventStructure(item) ? item as NostrEvent : null;
 }
 
-function isValidEventStructure(obj: any): boolean {
+export function isValidEventStructure(obj: any): boolean {
   return (
     obj &&
     typeof obj.id === 'string' &&
@@ -73,99 +188,176 @@ function isValidEventStructure(obj: any): boolean {
 }
 
 export function decodeBech32Identifier(identifier: string): DecodedIdentifier | null {
+  return decodeBech32Strict(identifier).identifier;
+}
+
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const IDENTIFIER_PREFIXES = ['npub', 'nsec', 'note', 'nevent', 'nprofile', 'naddr'];
+
+// Decodes a NIP-19 identifier, reporting the first problem with its position instead of giving up silently
+export function decodeBech32Strict(input: string): IdentifierDecodeResult {
+  const result: IdentifierDecodeResult = { input, prefix: null, bytes: null, tlv: [], identifier: null, error: null };
+  const fail = (error: IdentifierDecodeError): IdentifierDecodeResult => ({ ...result, error });
+  const trimmed = input.trim();
+
+  if (trimmed !== trimmed.toLowerCase() && trimmed !== trimmed.toUpperCase()) {
+    return fail({ code: 'mixed_case', message: 'Bech32 strings must be all lowercase or all uppercase' });
+  }
+  const lower = trimmed.toLowerCase();
+  const separator = lower.lastIndexOf('1');
+  if (separator < 1) {
+    return fail({ code: 'missing_separator', message: 'Missing the "1" separator between prefix and data' });
+  }
+
+  const prefix = lower.slice(0, separator);
+  const dataPart = lower.slice(separator + 1);
+  result.prefix = prefix;
+  if (!IDENTIFIER_PREFIXES.includes(prefix)) {
+    return fail({ code: 'unknown_prefix', message: `Unknown prefix "${prefix}"`, position: 0 });
+  }
+  if (dataPart.length < 6) {
+    return fail({ code: 'too_short', message: 'Data part is shorter than the 6-character checksum', position: separator + 1 });
+  }
+
+  const words: number[] = [];
+  for (let i = 0; i < dataPart.length; i++) {
+    const word = BECH32_CHARSET.indexOf(dataPart[i]);
+    if (word === -1) {
+      return fail({
+        code: 'invalid_character',
+        message: `"${dataPart[i]}" at position ${separator + 1 + i} is not a bech32 character`,
+        position: separator + 1 + i
+      });
+    }
+    words.push(word);
+  }
+
+  const bytes = bech32.fromWordsUnsafe(words.slice(0, -6));
+  if (!bytes) {
+    return fail({ code: 'invalid_padding', message: 'Data has invalid padding bits and cannot be converted to bytes' });
+  }
+  result.bytes = bytes;
+
   try {
-    const { prefix, words } = bech32.decode(identifier, 1023);
-    const data = bech32.fromWords(words);
-    
-    switch (prefix) {
-      case 'npub':
-        return {
-          type: 'npub',
-          data: {
-            pubkey: bytesToHex(data)
-          }
-        };
-      
-      case 'nsec':
-        return {
-          type: 'nsec',
-          data: {
-            pubkey: bytesToHex(data) // This is actually the private key
-          }
-        };
-      
-      case 'note':
-        return {
-          type: 'note',
-          data: {
-            id: bytesToHex(data)
-          }
-        };
-      
-      case 'nevent':
-      case 'nprofile':
-      case 'naddr':
-        return decodeTLV(prefix as any, data);
-      
-      default:
-        return null;
+    bech32.decode(lower as `${string}1${string}`, BECH32_MAX_LENGTH);
+  } catch {
+    return fail({
+      code: 'bad_checksum',
+      message: 'Checksum does not match; the identifier was mistyped or truncated',
+      position: lower.length - 6
+    });
+  }
+
+  switch (prefix) {
+    case 'npub':
+    case 'nsec':
+    case 'note': {
+      if (bytes.length !== 32) {
+        return fail({ code: 'wrong_length', message: `${prefix} must encode 32 bytes, found ${bytes.length}`, offset: 0, length: bytes.length });
+      }
+      const hex = bytesToHex(bytes);
+      // nsec reuses the pubkey field for the secret key
+      const identifier: DecodedIdentifier = prefix === 'note'
+        ? { type: 'note', data: { id: hex } }
+        : { type: prefix as 'npub' | 'nsec', data: { pubkey: hex } };
+      return { ...result, identifier };
     }
-  } catch (error) {
-    console.error('Bech32 decode error:', error);
-    return null;
+
+    default:
+      return decodeTLV(prefix as 'nevent' | 'nprofile' | 'naddr', bytes, result);
   }
 }
 
-function decodeTLV(type: 'nevent' | 'nprofile' | 'naddr', data: Uint8Array): DecodedIdentifier {
-  const result: DecodedIdentifier = {
-    type,
-    data: {},
-    tlv: []
-  };
+function decodeTLV(
+  type: 'nevent' | 'nprofile' | 'naddr',
+  data: Uint8Array,
+  result: IdentifierDecodeResult
+): IdentifierDecodeResult {
+  const identifier: DecodedIdentifier = { type, data: {}, tlv: result.tlv };
+  const seen = new Set<number>();
+  const fail = (error: IdentifierDecodeError): IdentifierDecodeResult => ({ ...result, error });
 
   let offset = 0;
   while (offset < data.length) {
+    if (offset + 2 > data.length) {
+      return fail({ code: 'truncated_tlv', message: `TLV header at byte ${offset} is cut off`, offset, length: data.length - offset });
+    }
     const tlvType = data[offset];
     const length = data[offset + 1];
+    const typeName = getTLVTypeName(tlvType);
+    if (offset + 2 + length > data.length) {
+      return fail({
+        code: 'truncated_tlv',
+        message: `${typeName} TLV at byte ${offset} declares ${length} bytes but only ${data.length - offset - 2} remain`,
+        offset,
+        length: data.length - offset
+      });
+    }
+
     const value = data.slice(offset + 2, offset + 2 + length);
-    
-    const tlvEntry = {
-      type: tlvType,
-      typeName: getTLVTypeName(tlvType),
-      length,
-      value: bytesToHex(value)
-    };
-    
-    result.tlv!.push(tlvEntry);
+    const fieldError = (code: IdentifierErrorCode, message: string) =>
+      fail({ code, message: `${typeName} TLV at byte ${offset}: ${message}`, offset, length: 2 + length });
+
+    // Relays may repeat; the other known fields appear once
+    if (tlvType !== 1 && tlvType <= 3 && seen.has(tlvType)) {
+      return fieldError('duplicate_tlv', 'appears more than once');
+    }
+    seen.add(tlvType);
 
-    // Parse specific TLV types
     switch (tlvType) {
-      case 0: // special (id for nevent/note, pubkey for nprofile/npub)
-        if (type === 'nevent') {
-          result.data.id = bytesToHex(value);
-        } else if (type === 'nprofile' || type === 'naddr') {
-          result.data.pubkey = bytesToHex(value);
+      case 0: // special (id for nevent, pubkey for nprofile, d tag for naddr)
+        if (type === 'naddr') {
+          const dTag = decodeUtf8(value);
+          if (dTag === null) return fieldError('invalid_utf8', 'd tag is not valid UTF-8');
+          identifier.data.dTag = dTag;
+        } else {
+          if (length !== 32) return fieldError('wrong_field_length', `expected 32 bytes, found ${length}`);
+          if (type === 'nevent') {
+            identifier.data.id = bytesToHex(value);
+          } else {
+            identifier.data.pubkey = bytesToHex(value);
+          }
         }
         break;
-      case 1: // relay
-        if (!result.data.relays) result.data.relays = [];
-        result.data.relays.push(new TextDecoder().decode(value));
+      case 1: { // relay
+        const relay = decodeUtf8(value);
+        if (relay === null) return fieldError('invalid_utf8', 'relay URL is not valid UTF-8');
+        (identifier.data.relays ||= []).push(relay);
         break;
+      }
       case 2: // author
-        result.data.author = bytesToHex(value);
+        if (length !== 32) return fieldError('wrong_field_length', `expected 32 bytes, found ${length}`);
+        identifier.data.author = bytesToHex(value);
         break;
       case 3: // kind
-        result.data.kind = bytesToNumber(value);
-        break;
-      case 4: // d tag
-        result.data.dTag = new TextDecoder().decode(value);
+        if (length !== 4) return fieldError('wrong_field_length', `expected 4 bytes, found ${length}`);
+        identifier.data.kind = bytesToNumber(value);
         break;
+      // Unknown types are kept in the breakdown and otherwise ignored, as NIP-19 requires
     }
-    
+
+    result.tlv.push({ type: tlvType, typeName, offset, length, value: bytesToHex(value) });
     offset += 2 + length;
   }
 
-  return result;
+  const missing = type === 'naddr'
+    ? [[0, 'd tag (special)'], [2, 'author'], [3, 'kind']] as const
+    : [[0, type === 'nevent' ? 'event id (special)' : 'pubkey (special)']] as const;
+  for (const [tlvType, label] of missing) {
+    if (!seen.has(tlvType)) {
+      return fail({ code: 'missing_tlv', message: `${type} is missing the required ${label} TLV`, offset: data.length, length: 0 });
+    }
+  }
+
+  return { ...result, identifier };
+}
+
+function decodeUtf8(bytes: Uint8Array): string | null {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
 }
 
 function getTLVTypeName(type: number): string {
@@ -173,78 +365,244 @@ function getTLVTypeName(type: number): string {
     0: 'special',
     1: 'relay',
     2: 'author',
-    3: 'kind',
-    4: 'd-tag'
+    3: 'kind'
   };
   return names[type] || `unknown(${type})`;
 }
 
-function bytesToHex(bytes: Uint8Array): string {
+const BECH32_MAX_LENGTH = 5000;
+
+export function encodeBech32Identifier(identifier: DecodedIdentifier): string {
+  const { data } = identifier;
+
+  switch (identifier.type) {
+    case 'npub':
+      return encodeBech32('npub', requireHex32(data.pubkey, 'Public key'));
+
+    case 'nsec':
+      return encodeBech32('nsec', requireHex32(data.pubkey, 'Private key'));
+
+    case 'note':
+      return encodeBech32('note', requireHex32(data.id, 'Event ID'));
+
+    case 'nevent': {
+      const entries: Array<[number, Uint8Array]> = [[0, requireHex32(data.id, 'Event ID')]];
+      entries.push(...relayEntries(data.relays));
+      if (data.author) entries.push([2, requireHex32(data.author, 'Author')]);
+      if (data.kind !== undefined) entries.push([3, numberToBytes(data.kind)]);
+      return encodeBech32('nevent', encodeTLV(entries));
+    }
+
+    case 'nprofile': {
+      const entries: Array<[number, Uint8Array]> = [[0, requireHex32(data.pubkey, 'Public key')]];
+      entries.push(...relayEntries(data.relays));
+      return encodeBech32('nprofile', encodeTLV(entries));
+    }
+
+    case 'naddr': {
+      if (data.kind === undefined) {
+        throw new Error('Kind is required for naddr');
+      }
+      const entries: Array<[number, Uint8Array]> = [[0, new TextEncoder().encode(data.dTag ?? '')]];
+      entries.push(...relayEntries(data.relays));
+      entries.push([2, requireHex32(data.author ?? data.pubkey, 'Author')]);
+      entries.push([3, numberToBytes(data.kind)]);
+      return encodeBech32('naddr', encodeTLV(entries));
+    }
+
+    default:
+      throw new Error(`Unsupported identifier type: ${identifier.type}`);
+  }
+}
+
+function encodeBech32(prefix: string, data: Uint8Array): string {
+  return bech32.encode(prefix, bech32.toWords(data), BECH32_MAX_LENGTH);
+}
+
+function encodeTLV(entries: Array<[number, Uint8Array]>): Uint8Array {
+  const total = entries.reduce((sum, [, value]) => sum + 2 + value.length, 0);
+  const result = new Uint8Array(total);
+
+  let offset = 0;
+  for (const [type, value] of entries) {
+    if (value.length > 255) {
+      throw new Error(`TLV ${getTLVTypeName(type)} value is too long (${value.length} bytes, max 255)`);
+    }
+    result[offset] = type;
+    result[offset + 1] = value.length;
+    result.set(value, offset + 2);
+    offset += 2 + value.length;
+  }
+
+  return result;
+}
+
+// Decoded TLVs are contiguous, so re-encoding them reproduces the identifier's payload
+export function tlvEntriesToBytes(entries: TlvEntry[]): Uint8Array {
+  return encodeTLV(entries.map(entry => [entry.type, hexToBytes(entry.value)]));
+}
+
+function relayEntries(relays: string[] | undefined): Array<[number, Uint8Array]> {
+  return (relays || [])
+    .map(relay => relay.trim())
+    .filter(relay => relay.length > 0)
+    .map(relay => [1, new TextEncoder().encode(relay)] as [number, Uint8Array]);
+}
+
+function requireHex32(value: string | undefined, label: string): Uint8Array {
+  if (!value || !value.match(/^[0-9a-f]{64}$/i)) {
+    throw new Error(`${label} must be 64 hex characters`);
+  }
+  return hexToBytes(value.toLowerCase());
+}
+
+function numberToBytes(value: number): Uint8Array {
+  if (!Number.isInteger(value) || value < 0 || value > 0xffffffff) {
+    throw new Error('Kind must be an integer between 0 and 4294967295');
+  }
+  return new Uint8Array([
+    (value >>> 24) & 0xff,
+    (value >>> 16) & 0xff,
+    (value >>> 8) & 0xff,
+    value & 0xff
+  ]);
+}
+
+export function bytesToHex(bytes: Uint8Array): string {
   return Array.from(bytes)
     .map(b => b.toString(16).padStart(2, '0'))
     .join('');
 }
 
+// Multiplication instead of << keeps values >= 2^31 positive
 function bytesToNumber(bytes: Uint8Array): number {
   let result = 0;
   for (let i = 0; i < bytes.length; i++) {
-    result = (result << 8) + bytes[i];
+    result = result * 256 + bytes[i];
   }
   return result;
 }
 
 export async function validateEvent(event: NostrEvent): Promise<ValidationResult> {
-  const errors: string[] = [];
+  const issues: ValidationIssue[] = [];
   let idMatch = false;
   let sigValid = false;
+  let computedId: string | null = null;
+  let serialized: string | null = null;
+
+  if (!isLowerHex(event.id, 64)) {
+    issues.push({ code: 'invalid_id_format', field: 'id', message: 'Event ID must be 64 lowercase hex characters' });
+  }
+  if (!isLowerHex(event.pubkey, 64)) {
+    issues.push({ code: 'invalid_pubkey_format', field: 'pubkey', message: 'Public key must be 64 lowercase hex characters' });
+  }
+  if (!isLowerHex(event.sig, 128)) {
+    issues.push({ code: 'invalid_sig_format', field: 'sig', message: 'Signature must be 128 lowercase hex characters' });
+  }
+  if (!Number.isInteger(event.created_at) || event.created_at < 0) {
+    issues.push({ code: 'invalid_created_at', field: 'created_at', message: 'created_at must be a non-negative integer' });
+  }
+  if (!Number.isInteger(event.kind) || event.kind < 0 || event.kind > 65535) {
+    issues.push({ code: 'invalid_kind', field: 'kind', message: 'Kind must be an integer between 0 and 65535' });
+  }
+  if (typeof event.content !== 'string') {
+    issues.push({ code: 'invalid_content', field: 'content', message: 'Content must be a string' });
+  }
+  const badTag = Array.isArray(event.tags)
+    ? event.tags.findIndex(tag => !Array.isArray(tag) || tag.some(item => typeof item !== 'string'))
+    : 0;
+  if (badTag !== -1) {
+    issues.push({ code: 'invalid_tags', field: 'tags', message: `Tag ${badTag} is not an array of strings` });
+  }
 
   try {
-    // Reconstruct the event for ID validation
-    const eventForId = [
-      0,
-      event.pubkey,
-      event.created_at,
-      event.kind,
-      event.tags,
-      event.content
-    ];
-    
-    const serialized = JSON.stringify(eventForId);
+    serialized = serializeEvent(event);
     const hash = await sha256(new TextEncoder().encode(serialized));
-    const computedId = bytesToHex(new Uint8Array(hash));
-    
+    computedId = bytesToHex(new Uint8Array(hash));
+
     idMatch = computedId === event.id;
     if (!idMatch) {
-      errors.push('Event ID does not match computed hash');
+      issues.push({ code: 'id_mismatch', field: 'id', message: 'Event ID does not match computed hash' });
     }
+  } catch (error) {
+    issues.push({ code: 'id_mismatch', field: 'id', message: 'Could not compute event hash: ' + (error as Error).message });
+  }
 
-    // Validate signature
+  // Signature is checked against the claimed id, so a bad id and a good signature are reported separately
+  if (isHex(event.id, 64) && isHex(event.pubkey, 64) && isHex(event.sig, 128)) {
     try {
-      const messageHash = hexToBytes(event.id);
-      const signature = hexToBytes(event.sig);
-      const pubkey = hexToBytes(event.pubkey);
-      
-      sigValid = schnorr.verify(signature, messageHash, pubkey);
+      sigValid = await schnorr.verify(hexToBytes(event.sig), hexToBytes(event.id), hexToBytes(event.pubkey));
       if (!sigValid) {
-        errors.push('Invalid signature');
+        issues.push({ code: 'invalid_signature', field: 'sig', message: 'Invalid signature' });
       }
     } catch (sigError) {
-      errors.push('Signature validation failed: ' + (sigError as Error).message);
+      issues.push({ code: 'signature_error', field: 'sig', message: 'Signature validation failed: ' + (sigError as Error).message });
     }
-
-  } catch (error) {
-    errors.push('Validation error: ' + (error as Error).message);
+  } else {
+    issues.push({ code: 'signature_error', field: 'sig', message: 'Signature not checked: id, pubkey or sig is malformed' });
   }
 
   return {
-    isValid: idMatch && sigValid && errors.length === 0,
+    isValid: idMatch && sigValid && issues.length === 0,
     idMatch,
     sigValid,
-    errors
+    errors: issues.map(issue => issue.message),
+    issues,
+    claimedId: event.id,
+    computedId,
+    serialized
   };
 }
 
-function hexToBytes(hex: string): Uint8Array {
+// NIP-01 canonical form: [0,<pubkey>,<created_at>,<kind>,<tags>,<content>] with no whitespace
+export function serializeEvent(event: Pick<NostrEvent, 'pubkey' | 'created_at' | 'kind' | 'tags' | 'content'>): string {
+  const tags = (Array.isArray(event.tags) ? event.tags : [])
+    .map(tag => `[${(Array.isArray(tag) ? tag : []).map(serializeValue).join(',')}]`)
+    .join(',');
+
+  return `[0,${serializeValue(event.pubkey)},${serializeValue(event.created_at)},${serializeValue(event.kind)},[${tags}],${serializeValue(event.content)}]`;
+}
+
+export async function computeEventId(event: Pick<NostrEvent, 'pubkey' | 'created_at' | 'kind' | 'tags' | 'content'>): Promise<string> {
+  const hash = await sha256(new TextEncoder().encode(serializeEvent(event)));
+  return bytesToHex(new Uint8Array(hash));
+}
+
+function serializeValue(value: unknown): string {
+  return typeof value === 'string' ? escapeString(value) : JSON.stringify(value) ?? 'null';
+}
+
+// The escapes NIP-01 lists, plus \u00XX for other control characters as JSON.stringify writes them;
+// everything else, including non-ASCII, is written verbatim
+function escapeString(value: string): string {
+  let result = '"';
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    const code = value.charCodeAt(i);
+    switch (char) {
+      case '"': result += '\\"'; break;
+      case '\\': result += '\\\\'; break;
+      case '\n': result += '\\n'; break;
+      case '\r': result += '\\r'; break;
+      case '\t': result += '\\t'; break;
+      case '\b': result += '\\b'; break;
+      case '\f': result += '\\f'; break;
+      default:
+        result += code < 0x20 ? `\\u${code.toString(16).padStart(4, '0')}` : char;
+    }
+  }
+  return result + '"';
+}
+
+export function isHex(value: unknown, length: number): boolean {
+  return typeof value === 'string' && value.length === length && /^[0-9a-f]+$/i.test(value);
+}
+
+function isLowerHex(value: unknown, length: number): boolean {
+  return typeof value === 'string' && value.length === length && /^[0-9a-f]+$/.test(value);
+}
+
+export function hexToBytes(hex: string): Uint8Array {
   const bytes = new Uint8Array(hex.length / 2);
   for (let i = 0; i < bytes.length; i++) {
     bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
@@ -252,6 +610,54 @@ function hexToBytes(hex: string): Uint8Array {
   return bytes;
 }
 
+export function isHexString(value: string): boolean {
+  return /^([0-9a-f]{2})+$/i.test(value);
+}
+
+export function decodeHexText(hex: string): string | null {
+  if (!isHexString(hex)) return null;
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(hexToBytes(hex.toLowerCase()));
+  } catch {
+    return null;
+  }
+}
+
+export function classifyHex(input: string): HexInput | null {
+  const hex = input.toLowerCase();
+  if (!isHexString(hex)) return null;
+  if (hex.length === 64) return { type: 'key', hex };
+  if (hex.length === 128) return { type: 'signature', hex };
+
+  const text = decodeHexText(hex);
+  const event = text ? parseSerializedEvent(text) : null;
+  if (text && event) {
+    return { type: 'serialized_event', hex, event, canonical: serializeEvent(event) === text };
+  }
+  return null;
+}
+
+function parseSerializedEvent(text: string): Extract<HexInput, { type: 'serialized_event' }>['event'] | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(parsed) || parsed.length !== 6 || parsed[0] !== 0) return null;
+
+  const [, pubkey, created_at, kind, tags, content] = parsed;
+  if (
+    typeof pubkey !== 'string' || !/^[0-9a-f]{64}$/.test(pubkey) ||
+    !Number.isInteger(created_at) || !Number.isInteger(kind) ||
+    !Array.isArray(tags) || !tags.every(tag => Array.isArray(tag) && tag.every(v => typeof v === 'string')) ||
+    typeof content !== 'string'
+  ) {
+    return null;
+  }
+  return { pubkey, created_at, kind, tags, content };
+}
+
 async function sha256(data: Uint8Array): Promise<ArrayBuffer> {
   return await crypto.subtle.digest('SHA-256', data);
 }
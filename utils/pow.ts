@@ -0,0 +1,207 @@
+import { sha256 } from '@noble/hashes/sha256';
+import { NostrEvent, EventTemplate, UnsignedEvent } from '../types/nostr';
+import { serializeEvent, bytesToHex } from './nostr';
+
+export type PowStatus = 'none' | 'met' | 'overclaimed' | 'uncommitted' | 'invalid_target';
+
+export interface PowAnalysis {
+  // Leading zero bits of the event id
+  difficulty: number;
+  nonce: string | null;
+  // Difficulty committed to in nonce[2], if any
+  target: number | null;
+  status: PowStatus;
+  tagIndex: number | null;
+}
+
+export type PowTemplate = EventTemplate & { pubkey: string };
+
+export interface PowMineRequest {
+  event: PowTemplate;
+  target: number;
+}
+
+export type PowWorkerMessage =
+  | { type: 'progress'; hashes: number; hashRate: number; bestDifficulty: number }
+  | { type: 'done'; event: UnsignedEvent; hashes: number; elapsedMs: number }
+  | { type: 'error'; message: string };
+
+export interface PowProgress {
+  hashes: number;
+  hashRate: number;
+  bestDifficulty: number;
+}
+
+export interface PowResult {
+  event: UnsignedEvent;
+  hashes: number;
+  elapsedMs: number;
+}
+
+export interface MineOptions {
+  onProgress?: (progress: PowProgress) => void;
+  signal?: AbortSignal;
+}
+
+// Above this the expected work (2^n hashes) is out of reach for a browser tab
+export const MAX_POW_TARGET = 40;
+
+export function countLeadingZeroBits(hex: string): number {
+  let count = 0;
+  for (let i = 0; i < hex.length; i++) {
+    const nibble = parseInt(hex[i], 16);
+    if (Number.isNaN(nibble)) break;
+    if (nibble === 0) {
+      count += 4;
+      continue;
+    }
+    count += Math.clz32(nibble) - 28;
+    break;
+  }
+  return count;
+}
+
+export function countLeadingZeroBitsBytes(bytes: Uint8Array): number {
+  let count = 0;
+  for (const byte of bytes) {
+    if (byte === 0) {
+      count += 8;
+      continue;
+    }
+    count += Math.clz32(byte) - 24;
+    break;
+  }
+  return count;
+}
+
+export function analyzePow(event: NostrEvent): PowAnalysis {
+  const difficulty = /^[0-9a-f]{64}$/i.test(event.id) ? countLeadingZeroBits(event.id) : 0;
+  const tagIndex = event.tags.findIndex(t => t[0] === 'nonce');
+  if (tagIndex === -1) {
+    return { difficulty, nonce: null, target: null, status: 'none', tagIndex: null };
+  }
+
+  const [, nonce = '', committed] = event.tags[tagIndex];
+  if (committed === undefined || committed === '') {
+    // Without a commitment a lucky low-difficulty id cannot be told apart from real work
+    return { difficulty, nonce, target: null, status: 'uncommitted', tagIndex };
+  }
+
+  const target = /^\d+$/.test(committed) ? Number(committed) : NaN;
+  if (!Number.isInteger(target) || target > 256) {
+    return { difficulty, nonce, target: null, status: 'invalid_target', tagIndex };
+  }
+
+  return { difficulty, nonce, target, status: difficulty >= target ? 'met' : 'overclaimed', tagIndex };
+}
+
+// Splits the serialized event around the nonce value so miners only re-encode the counter
+export function powPreimage(event: PowTemplate, target: number): { prefix: string; suffix: string } {
+  const tags = [...event.tags.filter(t => t[0] !== 'nonce'), ['nonce', '0', String(target)]];
+  const serialized = serializeEvent({ ...event, tags });
+  const empty = serializeEvent({ pubkey: '', created_at: 0, kind: 0, tags: [], content: event.content });
+  const content = empty.slice('[0,"",0,0,[],'.length, -1);
+  const suffix = `","${target}"]],${content}]`;
+
+  if (!serialized.endsWith(`0${suffix}`)) {
+    throw new Error('Unexpected event serialization');
+  }
+  return { prefix: serialized.slice(0, serialized.length - suffix.length - 1), suffix };
+}
+
+export function withNonce(event: PowTemplate, nonce: string, target: number, id: string): UnsignedEvent {
+  return {
+    ...event,
+    tags: [...event.tags.filter(t => t[0] !== 'nonce'), ['nonce', nonce, String(target)]],
+    id
+  };
+}
+
+export function formatHashRate(hashRate: number): string {
+  if (hashRate >= 1e6) return `${(hashRate / 1e6).toFixed(2)} MH/s`;
+  if (hashRate >= 1e3) return `${(hashRate / 1e3).toFixed(1)} kH/s`;
+  return `${Math.round(hashRate)} H/s`;
+}
+
+// Expected seconds to reach the target at the given rate (2^target hashes on average)
+export function estimateMiningTime(target: number, hashRate: number): number | null {
+  return hashRate > 0 ? Math.pow(2, target) / hashRate : null;
+}
+
+// Synchronous search loop; runs inside the worker so it never blocks the page
+export function runPowMiner(request: PowMineRequest, onProgress: (progress: PowProgress) => void): PowResult {
+  const { event, target } = request;
+  const { prefix, suffix } = powPreimage(event, target);
+  const encoder = new TextEncoder();
+  // Hash the constant prefix once and clone its state for every attempt
+  const base = sha256.create().update(encoder.encode(prefix));
+  const suffixBytes = encoder.encode(suffix);
+
+  const startedAt = Date.now();
+  let lastReport = startedAt;
+  let bestDifficulty = 0;
+
+  for (let nonce = 0; ; nonce++) {
+    const nonceText = String(nonce);
+    const hash = base.clone().update(encoder.encode(nonceText)).update(suffixBytes).digest();
+    const difficulty = countLeadingZeroBitsBytes(hash);
+
+    if (difficulty >= target) {
+      const hashes = nonce + 1;
+      return { event: withNonce(event, nonceText, target, bytesToHex(hash)), hashes, elapsedMs: Date.now() - startedAt };
+    }
+    if (difficulty > bestDifficulty) bestDifficulty = difficulty;
+
+    if ((nonce & 0xfff) === 0xfff) {
+      const now = Date.now();
+      if (now - lastReport >= 250) {
+        lastReport = now;
+        const hashes = nonce + 1;
+        onProgress({ hashes, hashRate: hashes / Math.max((now - startedAt) / 1000, 0.001), bestDifficulty });
+      }
+    }
+  }
+}
+
+export function mineEvent(event: PowTemplate, target: number, options: MineOptions = {}): Promise<PowResult> {
+  if (!Number.isInteger(target) || target < 1 || target > MAX_POW_TARGET) {
+    return Promise.reject(new Error(`Target difficulty must be between 1 and ${MAX_POW_TARGET}`));
+  }
+  if (options.signal?.aborted) {
+    return Promise.reject(new Error('Mining cancelled'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./powWorker.ts', import.meta.url), { type: 'module' });
+
+    const finish = () => {
+      worker.terminate();
+      options.signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(new Error('Mining cancelled'));
+    };
+    options.signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = (e: MessageEvent<PowWorkerMessage>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        options.onProgress?.(message);
+      } else if (message.type === 'done') {
+        finish();
+        resolve({ event: message.event, hashes: message.hashes, elapsedMs: message.elapsedMs });
+      } else {
+        finish();
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (e) => {
+      finish();
+      reject(new Error(e.message || 'Mining worker failed'));
+    };
+
+    const request: PowMineRequest = { event, target };
+    worker.postMessage(request);
+  });
+}
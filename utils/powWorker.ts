@@ -0,0 +1,12 @@
+import { runPowMiner, PowMineRequest, PowWorkerMessage } from './pow';
+
+// NIP-13 miner; the page terminates the worker to cancel
+self.onmessage = (e: MessageEvent<PowMineRequest>) => {
+  const post = (message: PowWorkerMessage) => self.postMessage(message);
+  try {
+    const result = runPowMiner(e.data, progress => post({ type: 'progress', ...progress }));
+    post({ type: 'done', ...result });
+  } catch (error) {
+    post({ type: 'error', message: (error as Error).message });
+  }
+};
@@ -0,0 +1,244 @@
+import { NostrEvent } from '../types/nostr';
+import { isHex } from './nostr';
+import { queryRelays, getDefaultRelays, pickLatest, QueryOptions } from './relay';
+import { parseNip05, formatNip05 } from './formats';
+
+export interface ProfileSummary {
+  pubkey: string;
+  // All null when no relay had a profile for this pubkey
+  name: string | null;
+  picture: string | null;
+  nip05: string | null;
+  // created_at of the kind-0 the summary came from, 0 when none was found
+  createdAt: number;
+  fetchedAt: number;
+}
+
+type ProfileListener = (profile: ProfileSummary) => void;
+
+// Relays commonly cap a filter at a few hundred authors
+export const MAX_AUTHORS_PER_REQ = 500;
+
+const DB_NAME = 'decodenote';
+const DB_VERSION = 1;
+const PROFILE_STORE = 'profiles';
+const PROFILE_TTL_MS = 24 * 60 * 60 * 1000;
+// Missing profiles are retried sooner; the author may just have published one
+const MISSING_TTL_MS = 60 * 60 * 1000;
+// Lookups requested within this window share one round of REQs
+const BATCH_DELAY_MS = 50;
+
+const memory = new Map<string, ProfileSummary>();
+const listeners = new Map<string, Set<ProfileListener>>();
+const pending = new Set<string>();
+const inFlight = new Set<string>();
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+export function getProfile(pubkey: string): ProfileSummary | null {
+  return memory.get(pubkey) ?? null;
+}
+
+// Calls the listener with the cached profile and every later update; returns the unsubscribe function
+export function subscribeProfile(pubkey: string, listener: ProfileListener): () => void {
+  let set = listeners.get(pubkey);
+  if (!set) listeners.set(pubkey, set = new Set());
+  set.add(listener);
+
+  const known = memory.get(pubkey);
+  if (known) listener(known);
+  requestProfiles([pubkey]);
+
+  return () => {
+    set!.delete(listener);
+    if (set!.size === 0) listeners.delete(pubkey);
+  };
+}
+
+// Queues pubkeys for lookup; everything queued in the same tick is fetched together
+export function requestProfiles(pubkeys: string[]): void {
+  for (const pubkey of pubkeys.map(p => p.toLowerCase())) {
+    if (!isHex(pubkey, 64) || inFlight.has(pubkey) || isFresh(memory.get(pubkey))) continue;
+    pending.add(pubkey);
+  }
+  if (pending.size > 0 && !flushTimer) {
+    flushTimer = setTimeout(flush, BATCH_DELAY_MS);
+  }
+}
+
+export async function fetchProfiles(
+  pubkeys: string[],
+  relays: string[] = getDefaultRelays(),
+  options: QueryOptions = {}
+): Promise<ProfileSummary[]> {
+  if (pubkeys.length === 0 || relays.length === 0) return [];
+
+  const chunks: string[][] = [];
+  for (let i = 0; i < pubkeys.length; i += MAX_AUTHORS_PER_REQ) {
+    chunks.push(pubkeys.slice(i, i + MAX_AUTHORS_PER_REQ));
+  }
+  const results = await Promise.all(chunks.map(authors => queryRelays(relays, [{ kinds: [0], authors }], options)));
+
+  const byAuthor = new Map<string, NostrEvent[]>();
+  for (const event of results.flatMap(r => r.events)) {
+    if (event.kind !== 0) continue;
+    byAuthor.set(event.pubkey, [...(byAuthor.get(event.pubkey) ?? []), event]);
+  }
+
+  const fetchedAt = Date.now();
+  // queryRelays already dropped unsigned events, so the newest one left is the real profile
+  const summaries = pubkeys.map(pubkey => {
+    const event = pickLatest(byAuthor.get(pubkey) ?? []);
+    return event
+      ? summarizeProfile(event, fetchedAt)
+      : { pubkey, name: null, picture: null, nip05: null, createdAt: 0, fetchedAt };
+  });
+
+  const updated = summaries.map(summary => {
+    const known = memory.get(summary.pubkey);
+    // Keep a newer profile seen elsewhere, such as one opened in the inspector
+    return known && known.createdAt > summary.createdAt ? { ...known, fetchedAt } : summary;
+  });
+  updated.forEach(publish);
+  await writeCachedProfiles(updated);
+  return updated;
+}
+
+// Feeds a kind-0 the user already has (e.g. one being inspected) into the cache without a relay round trip
+export async function recordProfile(event: NostrEvent): Promise<void> {
+  if (event.kind !== 0) return;
+  const known = memory.get(event.pubkey) ?? (await readCachedProfiles([event.pubkey])).get(event.pubkey);
+  if (known && known.createdAt >= event.created_at) return;
+
+  const summary = summarizeProfile(event);
+  publish(summary);
+  await writeCachedProfiles([summary]);
+}
+
+export function summarizeProfile(event: NostrEvent, fetchedAt = Date.now()): ProfileSummary {
+  let metadata: Record<string, unknown> = {};
+  try {
+    const parsed = JSON.parse(event.content);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) metadata = parsed;
+  } catch {
+    // Unparseable content still counts as "has a profile", just without fields
+  }
+
+  const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+  const picture = text(metadata.picture);
+  const nip05 = text(metadata.nip05) ? parseNip05(text(metadata.nip05)!) : null;
+
+  return {
+    pubkey: event.pubkey,
+    name: text(metadata.display_name) ?? text(metadata.name) ?? text(metadata.displayName),
+    // Only load avatars over http(s); data: and javascript: URLs are dropped
+    picture: picture && /^https?:\/\//i.test(picture) ? picture : null,
+    nip05: nip05 ? formatNip05(nip05) : null,
+    createdAt: event.created_at,
+    fetchedAt
+  };
+}
+
+export async function clearProfileCache(): Promise<void> {
+  memory.clear();
+  const db = await openProfileDb();
+  if (!db) return;
+  await requestToPromise(db.transaction(PROFILE_STORE, 'readwrite').objectStore(PROFILE_STORE).clear());
+}
+
+async function flush(): Promise<void> {
+  flushTimer = null;
+  const batch = Array.from(pending);
+  pending.clear();
+  batch.forEach(pubkey => inFlight.add(pubkey));
+
+  try {
+    const cached = await readCachedProfiles(batch);
+    cached.forEach(summary => {
+      const known = memory.get(summary.pubkey);
+      if (!known || known.createdAt < summary.createdAt || known.fetchedAt < summary.fetchedAt) publish(summary);
+    });
+
+    const stale = batch.filter(pubkey => !isFresh(memory.get(pubkey)));
+    await fetchProfiles(stale);
+  } catch (error) {
+    console.error('Profile lookup failed:', error);
+  } finally {
+    batch.forEach(pubkey => inFlight.delete(pubkey));
+  }
+}
+
+function publish(summary: ProfileSummary): void {
+  memory.set(summary.pubkey, summary);
+  listeners.get(summary.pubkey)?.forEach(listener => listener(summary));
+}
+
+function isFresh(summary: ProfileSummary | undefined): boolean {
+  if (!summary) return false;
+  return Date.now() - summary.fetchedAt < (summary.createdAt > 0 ? PROFILE_TTL_MS : MISSING_TTL_MS);
+}
+
+// IndexedDB keeps thousands of profiles across sessions, well past what fits in localStorage
+function openProfileDb(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      try {
+        if (!globalThis.indexedDB) {
+          resolve(null);
+          return;
+        }
+        const request = globalThis.indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(PROFILE_STORE)) {
+            request.result.createObjectStore(PROFILE_STORE, { keyPath: 'pubkey' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        // Private browsing or blocked storage; profiles then only live in memory
+        request.onerror = () => resolve(null);
+      } catch {
+        resolve(null);
+      }
+    });
+  }
+  return dbPromise;
+}
+
+async function readCachedProfiles(pubkeys: string[]): Promise<Map<string, ProfileSummary>> {
+  const found = new Map<string, ProfileSummary>();
+  const db = await openProfileDb();
+  if (!db || pubkeys.length === 0) return found;
+
+  try {
+    const store = db.transaction(PROFILE_STORE, 'readonly').objectStore(PROFILE_STORE);
+    const rows = await Promise.all(pubkeys.map(pubkey => requestToPromise<ProfileSummary | undefined>(store.get(pubkey))));
+    rows.forEach(row => row && found.set(row.pubkey, row));
+  } catch {
+    // Treat an unreadable cache as empty
+  }
+  return found;
+}
+
+async function writeCachedProfiles(summaries: ProfileSummary[]): Promise<void> {
+  const db = await openProfileDb();
+  if (!db || summaries.length === 0) return;
+
+  try {
+    const transaction = db.transaction(PROFILE_STORE, 'readwrite');
+    const store = transaction.objectStore(PROFILE_STORE);
+    summaries.forEach(summary => store.put(summary));
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } catch {
+    // Quota exceeded or storage blocked; the in-memory copy still serves this session
+  }
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
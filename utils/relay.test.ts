@@ -0,0 +1,256 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { NostrEvent, NostrFilter } from '../types/nostr';
+import { queryRelays, fetchRelayInfo, probeRelay, matchesFilter } from './relay';
+import { signEvent } from './signer';
+
+const SECRET_KEY = '5'.repeat(64);
+const RELAY = 'wss://relay.test';
+
+type Reply = (message: unknown[]) => void;
+type RelayScript = (message: unknown[], reply: Reply, socket: MockSocket) => void;
+
+// Stands in for a relay connection: every message the client sends is handed to the script
+class MockSocket {
+  readyState = 0;
+  sent: unknown[][] = [];
+  closed = false;
+  onopen: (() => void) | null = null;
+  onmessage: ((message: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(readonly url: string, private script: RelayScript, fail: boolean) {
+    setTimeout(() => {
+      if (fail) {
+        this.onerror?.();
+        return;
+      }
+      this.readyState = 1;
+      this.onopen?.();
+    }, 0);
+  }
+
+  send(data: string) {
+    const message = JSON.parse(data);
+    this.sent.push(message);
+    this.script(message, reply => setTimeout(() => this.onmessage?.({ data: JSON.stringify(reply) }), 0), this);
+  }
+
+  close() {
+    this.closed = true;
+    this.readyState = 3;
+  }
+}
+
+function mockRelay(script: RelayScript, options: { fail?: boolean } = {}) {
+  const sockets: MockSocket[] = [];
+  const WebSocketImpl = function (url: string) {
+    const socket = new MockSocket(url, script, options.fail ?? false);
+    sockets.push(socket);
+    return socket;
+  } as unknown as typeof WebSocket;
+  return { WebSocketImpl, sockets };
+}
+
+// Answers every REQ with the given events followed by EOSE
+function serving(events: NostrEvent[]): RelayScript {
+  return (message, reply) => {
+    if (message[0] !== 'REQ') return;
+    events.forEach(event => reply(['EVENT', message[1], event]));
+    reply(['EOSE', message[1]]);
+  };
+}
+
+function note(content: string, created_at = 1700000000): Promise<NostrEvent> {
+  return signEvent({ kind: 1, created_at, tags: [['t', 'test']], content }, SECRET_KEY);
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/nostr+json' } });
+}
+
+test('queryRelays collects events until EOSE and closes the subscription', async () => {
+  const event = await note('hello');
+  const { WebSocketImpl, sockets } = mockRelay(serving([event]));
+
+  const result = await queryRelays([RELAY], [{ kinds: [1] }], { WebSocketImpl });
+
+  assert.deepEqual(result.events, [event]);
+  assert.deepEqual(result.seenOn[event.id], [RELAY]);
+  assert.equal(result.statuses[0].status, 'eose');
+  assert.equal(result.statuses[0].eventCount, 1);
+  assert.equal(sockets[0].sent[0][0], 'REQ');
+  assert.deepEqual(sockets[0].sent[1], ['CLOSE', sockets[0].sent[0][1]]);
+  assert.ok(sockets[0].closed);
+});
+
+test('queryRelays drops forged and off-filter events', async () => {
+  const event = await note('genuine');
+  const tampered = { ...event, content: 'tampered' };
+  const badSig = { ...event, sig: 'f'.repeat(128) };
+  const otherKind = await signEvent({ kind: 7, created_at: 1700000000, tags: [], content: '+' }, SECRET_KEY);
+  const { WebSocketImpl } = mockRelay(serving([tampered, badSig, otherKind, event]));
+
+  const result = await queryRelays([RELAY], [{ kinds: [1] }], { WebSocketImpl });
+
+  assert.deepEqual(result.events, [event]);
+  assert.equal(result.statuses[0].eventCount, 1);
+  assert.equal(result.statuses[0].rejectedCount, 3);
+});
+
+test('queryRelays ignores events for other subscriptions', async () => {
+  const event = await note('elsewhere');
+  const { WebSocketImpl } = mockRelay((message, reply) => {
+    if (message[0] !== 'REQ') return;
+    reply(['EVENT', 'someone-else', event]);
+    reply(['EOSE', message[1]]);
+  });
+
+  const result = await queryRelays([RELAY], [{ kinds: [1] }], { WebSocketImpl });
+
+  assert.deepEqual(result.events, []);
+});
+
+test('queryRelays times out a relay that never sends EOSE', async () => {
+  const { WebSocketImpl } = mockRelay(() => {});
+
+  const result = await queryRelays([RELAY], [{ kinds: [1] }], { WebSocketImpl, timeoutMs: 30 });
+
+  assert.equal(result.statuses[0].status, 'timeout');
+  assert.match(result.statuses[0].message ?? '', /No EOSE after 30ms/);
+});
+
+test('queryRelays stops when the signal is aborted', async () => {
+  const controller = new AbortController();
+  const { WebSocketImpl } = mockRelay(message => {
+    if (message[0] === 'REQ') controller.abort();
+  });
+
+  const result = await queryRelays([RELAY], [{ kinds: [1] }], { WebSocketImpl, signal: controller.signal });
+
+  assert.equal(result.statuses[0].status, 'closed');
+  assert.equal(result.statuses[0].message, 'Query cancelled');
+});
+
+test('queryRelays reports a CLOSED message with its reason', async () => {
+  const { WebSocketImpl } = mockRelay((message, reply) => {
+    if (message[0] === 'REQ') reply(['CLOSED', message[1], 'auth-required: sign in first']);
+  });
+
+  const result = await queryRelays([RELAY], [{ kinds: [1] }], { WebSocketImpl });
+
+  assert.equal(result.statuses[0].status, 'error');
+  assert.equal(result.statuses[0].message, 'Closed by relay: auth-required: sign in first');
+});
+
+test('queryRelays keeps a NOTICE and still waits for EOSE', async () => {
+  const event = await note('after notice');
+  const { WebSocketImpl } = mockRelay((message, reply) => {
+    if (message[0] !== 'REQ') return;
+    reply(['NOTICE', 'slow down']);
+    reply(['EVENT', message[1], event]);
+    reply(['EOSE', message[1]]);
+  });
+
+  const result = await queryRelays([RELAY], [{ kinds: [1] }], { WebSocketImpl });
+
+  assert.equal(result.statuses[0].status, 'eose');
+  assert.equal(result.statuses[0].message, 'Notice: slow down');
+  assert.deepEqual(result.events, [event]);
+});
+
+test('queryRelays reports a connection failure', async () => {
+  const { WebSocketImpl } = mockRelay(() => {}, { fail: true });
+
+  const result = await queryRelays([RELAY], [{ kinds: [1] }], { WebSocketImpl });
+
+  assert.equal(result.statuses[0].status, 'error');
+  assert.equal(result.statuses[0].message, 'Connection failed');
+});
+
+test('matchesFilter applies ids, authors, kinds, time bounds and tag filters', async () => {
+  const event = await note('filtered', 1700000000);
+  const cases: Array<[NostrFilter, boolean]> = [
+    [{}, true],
+    [{ ids: [event.id] }, true],
+    [{ ids: ['0'.repeat(64)] }, false],
+    [{ authors: [event.pubkey], kinds: [1] }, true],
+    [{ kinds: [0] }, false],
+    [{ since: 1700000000, until: 1700000000 }, true],
+    [{ since: 1700000001 }, false],
+    [{ '#t': ['other', 'test'] }, true],
+    [{ '#t': ['other'] }, false],
+    [{ '#p': [event.pubkey] }, false]
+  ];
+
+  for (const [filter, expected] of cases) {
+    assert.equal(matchesFilter(event, filter), expected, JSON.stringify(filter));
+  }
+});
+
+test('fetchRelayInfo requests the NIP-11 document over HTTP', async () => {
+  let requested: { url: string; accept: string | null } | null = null;
+  const fetchImpl = (async (url: string, init: RequestInit) => {
+    requested = { url, accept: new Headers(init.headers).get('Accept') };
+    return jsonResponse({ name: 'Test relay', supported_nips: [1, 11] });
+  }) as typeof fetch;
+
+  const info = await fetchRelayInfo(RELAY, { fetchImpl });
+
+  assert.equal(info.name, 'Test relay');
+  assert.deepEqual(requested, { url: 'https://relay.test', accept: 'application/nostr+json' });
+});
+
+test('fetchRelayInfo rejects HTTP errors and non-object documents', async () => {
+  await assert.rejects(
+    fetchRelayInfo(RELAY, { fetchImpl: (async () => jsonResponse({}, 503)) as typeof fetch }),
+    { message: 'HTTP 503' }
+  );
+  await assert.rejects(
+    fetchRelayInfo(RELAY, { fetchImpl: (async () => jsonResponse([1, 11])) as typeof fetch }),
+    { message: 'Response is not a relay information document' }
+  );
+  await assert.rejects(
+    fetchRelayInfo(RELAY, { fetchImpl: (async () => new Response('<html>')) as typeof fetch }),
+    /JSON/
+  );
+  await assert.rejects(fetchRelayInfo('not a relay'), { message: 'Not a relay URL: not a relay' });
+});
+
+test('fetchRelayInfo distinguishes a timeout from a cancelled probe', async () => {
+  // Never answers; only settles when the request is aborted
+  const hanging = ((_url: string, init: RequestInit) => new Promise((_, reject) => {
+    init.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+  })) as typeof fetch;
+
+  await assert.rejects(fetchRelayInfo(RELAY, { fetchImpl: hanging, timeoutMs: 20 }), { message: 'Timed out' });
+
+  const controller = new AbortController();
+  const probe = fetchRelayInfo(RELAY, { fetchImpl: hanging, signal: controller.signal });
+  controller.abort();
+  await assert.rejects(probe, { message: 'Probe cancelled' });
+});
+
+test('probeRelay flags paid, auth-required and incomplete relays', async () => {
+  const fetchImpl = (async () => jsonResponse({
+    supported_nips: [1],
+    limitation: { payment_required: true, auth_required: true }
+  })) as typeof fetch;
+
+  const result = await probeRelay(RELAY, [1, 11, 42], { fetchImpl });
+
+  assert.deepEqual(result.flags, ['payment_required', 'auth_required', 'missing_nips']);
+  assert.deepEqual(result.missingNips, [11, 42]);
+});
+
+test('probeRelay marks unreachable relays and invalid URLs', async () => {
+  const fetchImpl = (async () => { throw new Error('getaddrinfo ENOTFOUND relay.test'); }) as typeof fetch;
+
+  const unreachable = await probeRelay(RELAY, [1], { fetchImpl });
+  assert.deepEqual(unreachable.flags, ['unreachable']);
+  assert.equal(unreachable.error, 'getaddrinfo ENOTFOUND relay.test');
+
+  const invalid = await probeRelay('ftp://relay.test', [1], { fetchImpl });
+  assert.deepEqual(invalid.flags, ['invalid_url']);
+});
@@ -0,0 +1,425 @@
+import {
+  NostrEvent,
+  NostrFilter,
+  DecodedIdentifier,
+  RelayQueryStatus,
+  RelayQueryResult,
+  RelayInformation,
+  RelayListEntry,
+  RelayProbeResult,
+  RelayFlag
+} from '../types/nostr';
+import { isValidEventStructure, validateEvent } from './nostr';
+
+export const DEFAULT_RELAYS = [
+  'wss://relay.damus.io',
+  'wss://nos.lol',
+  'wss://relay.nostr.band',
+  'wss://relay.primal.net'
+];
+
+export const DEFAULT_TIMEOUT_MS = 8000;
+
+const RELAYS_STORAGE_KEY = 'decodenote:relays';
+const REQUIRED_NIPS_STORAGE_KEY = 'decodenote:required-nips';
+const DEFAULT_REQUIRED_NIPS = [1, 11];
+
+export interface QueryOptions {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  onStatus?: (statuses: RelayQueryStatus[]) => void;
+  onEvent?: (event: NostrEvent, relay: string) => void;
+  // Allows running against a mock relay or under Node with the `ws` package
+  WebSocketImpl?: typeof WebSocket;
+}
+
+export function getDefaultRelays(): string[] {
+  try {
+    const stored = globalThis.localStorage?.getItem(RELAYS_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed) && parsed.every(r => typeof r === 'string')) {
+        return parsed;
+      }
+    }
+  } catch {
+    // Storage unavailable or corrupted, fall back to built-in defaults
+  }
+  return [...DEFAULT_RELAYS];
+}
+
+export function setDefaultRelays(relays: string[]): void {
+  const normalized = uniqueRelays(relays);
+  try {
+    globalThis.localStorage?.setItem(RELAYS_STORAGE_KEY, JSON.stringify(normalized));
+  } catch (error) {
+    console.error('Failed to store relays:', error);
+  }
+}
+
+export function getRequiredNips(): number[] {
+  try {
+    const stored = globalThis.localStorage?.getItem(REQUIRED_NIPS_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed) && parsed.every(n => Number.isInteger(n))) {
+        return parsed;
+      }
+    }
+  } catch {
+    // Storage unavailable or corrupted, fall back to built-in defaults
+  }
+  return [...DEFAULT_REQUIRED_NIPS];
+}
+
+export function setRequiredNips(nips: number[]): void {
+  try {
+    globalThis.localStorage?.setItem(REQUIRED_NIPS_STORAGE_KEY, JSON.stringify(nips));
+  } catch (error) {
+    console.error('Failed to store required NIPs:', error);
+  }
+}
+
+export function normalizeRelayUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url.trim());
+    if (parsed.protocol !== 'wss:' && parsed.protocol !== 'ws:') {
+      return null;
+    }
+    const path = parsed.pathname === '/' ? '' : parsed.pathname.replace(/\/+$/, '');
+    return `${parsed.protocol}//${parsed.host.toLowerCase()}${path}${parsed.search}`;
+  } catch {
+    return null;
+  }
+}
+
+export function uniqueRelays(relays: string[]): string[] {
+  const result: string[] = [];
+  for (const relay of relays) {
+    const normalized = normalizeRelayUrl(relay);
+    if (normalized && !result.includes(normalized)) {
+      result.push(normalized);
+    }
+  }
+  return result;
+}
+
+export function buildFilterForIdentifier(identifier: DecodedIdentifier): NostrFilter | null {
+  const { data } = identifier;
+
+  switch (identifier.type) {
+    case 'note':
+    case 'nevent':
+      return data.id ? { ids: [data.id] } : null;
+
+    case 'npub':
+    case 'nprofile':
+      return data.pubkey ? { kinds: [0], authors: [data.pubkey], limit: 1 } : null;
+
+    case 'naddr':
+      if (data.kind === undefined || !data.author) return null;
+      return { kinds: [data.kind], authors: [data.author], '#d': [data.dTag ?? ''], limit: 1 };
+
+    default:
+      return null;
+  }
+}
+
+export function relaysForIdentifier(identifier: DecodedIdentifier, defaults: string[] = getDefaultRelays()): string[] {
+  return uniqueRelays([...(identifier.data.relays || []), ...defaults]);
+}
+
+export function queryRelays(
+  relays: string[],
+  filters: NostrFilter[],
+  options: QueryOptions = {}
+): Promise<RelayQueryResult> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const urls = uniqueRelays(relays);
+  const statuses: RelayQueryStatus[] = urls.map(url => ({ url, status: 'pending', eventCount: 0, rejectedCount: 0 }));
+  const events = new Map<string, NostrEvent>();
+  const seenOn: Record<string, string[]> = {};
+  // Keyed by every field: a forged copy can reuse a real id and signature with altered content
+  const verified = new Map<string, Promise<boolean>>();
+  const pending: Promise<void>[] = [];
+
+  const verify = (event: NostrEvent) => {
+    const key = JSON.stringify([event.id, event.pubkey, event.created_at, event.kind, event.tags, event.content, event.sig]);
+    let check = verified.get(key);
+    if (!check) {
+      check = validateEvent(event).then(result => result.isValid, () => false);
+      verified.set(key, check);
+    }
+    return check;
+  };
+
+  const emitStatus = () => options.onStatus?.(statuses.map(s => ({ ...s })));
+  emitStatus();
+
+  const queries = urls.map((url, index) => new Promise<void>(resolve => {
+    const status = statuses[index];
+    const startedAt = Date.now();
+    const subId = `decodenote-${Math.random().toString(36).slice(2, 10)}`;
+    let socket: WebSocket | null = null;
+    let finished = false;
+
+    const finish = (next: RelayQueryStatus['status'], message?: string) => {
+      if (finished) return;
+      finished = true;
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+      status.status = next;
+      status.elapsedMs = Date.now() - startedAt;
+      if (message) status.message = message;
+      emitStatus();
+      if (socket) {
+        try {
+          if (socket.readyState === 1 && next !== 'error') {
+            socket.send(JSON.stringify(['CLOSE', subId]));
+          }
+          socket.close();
+        } catch {
+          // Socket already gone
+        }
+      }
+      resolve();
+    };
+
+    const onAbort = () => finish('closed', 'Query cancelled');
+    const timer = setTimeout(() => finish('timeout', `No EOSE after ${timeoutMs}ms`), timeoutMs);
+
+    if (options.signal?.aborted) {
+      onAbort();
+      return;
+    }
+    options.signal?.addEventListener('abort', onAbort);
+
+    try {
+      const Impl = options.WebSocketImpl ?? globalThis.WebSocket;
+      socket = new Impl(url);
+    } catch (error) {
+      finish('error', (error as Error).message);
+      return;
+    }
+
+    status.status = 'connecting';
+    emitStatus();
+
+    socket.onopen = () => {
+      status.status = 'querying';
+      emitStatus();
+      socket!.send(JSON.stringify(['REQ', subId, ...filters]));
+    };
+
+    socket.onerror = () => finish('error', 'Connection failed');
+
+    socket.onclose = () => finish('closed', status.message ?? 'Connection closed before EOSE');
+
+    socket.onmessage = (message: MessageEvent) => {
+      // Anything after EOSE or a timeout would land after the result was handed back
+      if (finished) return;
+      let payload: unknown;
+      try {
+        payload = JSON.parse(typeof message.data === 'string' ? message.data : String(message.data));
+      } catch {
+        return;
+      }
+      if (!Array.isArray(payload)) return;
+
+      switch (payload[0]) {
+        case 'EVENT':
+          if (payload[1] === subId && isValidEventStructure(payload[2])) {
+            const event = payload[2] as NostrEvent;
+            // Relays are untrusted: only signed events that answer what was asked are kept
+            if (!filters.some(filter => matchesFilter(event, filter))) {
+              status.rejectedCount++;
+              emitStatus();
+              break;
+            }
+            pending.push(verify(event).then(isValid => {
+              if (!isValid) {
+                status.rejectedCount++;
+                emitStatus();
+                return;
+              }
+              status.eventCount++;
+              if (!events.has(event.id)) {
+                events.set(event.id, event);
+                seenOn[event.id] = [];
+              }
+              if (!seenOn[event.id].includes(url)) {
+                seenOn[event.id].push(url);
+              }
+              options.onEvent?.(event, url);
+              emitStatus();
+            }));
+          }
+          break;
+        case 'EOSE':
+          if (payload[1] === subId) finish('eose');
+          break;
+        case 'CLOSED':
+          if (payload[1] === subId) finish('error', `Closed by relay: ${payload[2] || 'no reason given'}`);
+          break;
+        case 'NOTICE':
+          status.message = `Notice: ${payload[1]}`;
+          emitStatus();
+          break;
+      }
+    };
+  }));
+
+  return Promise.all(queries).then(() => Promise.all(pending)).then(() => ({
+    events: Array.from(events.values()),
+    statuses: statuses.map(s => ({ ...s })),
+    seenOn
+  }));
+}
+
+export async function fetchIdentifierTarget(
+  identifier: DecodedIdentifier,
+  relays: string[],
+  options: QueryOptions = {}
+): Promise<{ event: NostrEvent | null; result: RelayQueryResult }> {
+  const filter = buildFilterForIdentifier(identifier);
+  if (!filter) {
+    throw new Error(`Cannot fetch a target for ${identifier.type} identifiers`);
+  }
+
+  const result = await queryRelays(relays, [filter], options);
+  return { event: pickLatest(result.events), result };
+}
+
+// NIP-01 filter semantics: every given condition must hold, tag filters match any listed value
+export function matchesFilter(event: NostrEvent, filter: NostrFilter): boolean {
+  if (filter.ids && !filter.ids.includes(event.id)) return false;
+  if (filter.authors && !filter.authors.includes(event.pubkey)) return false;
+  if (filter.kinds && !filter.kinds.includes(event.kind)) return false;
+  if (filter.since !== undefined && event.created_at < filter.since) return false;
+  if (filter.until !== undefined && event.created_at > filter.until) return false;
+
+  for (const [key, values] of Object.entries(filter)) {
+    if (!key.startsWith('#') || !Array.isArray(values)) continue;
+    const name = key.slice(1);
+    if (!event.tags.some(tag => tag[0] === name && values.includes(tag[1]))) return false;
+  }
+  return true;
+}
+
+// Newest event wins; ties go to the lowest id as in NIP-01 replaceable events
+export function pickLatest(events: NostrEvent[]): NostrEvent | null {
+  let latest: NostrEvent | null = null;
+  for (const event of events) {
+    if (
+      !latest ||
+      event.created_at > latest.created_at ||
+      (event.created_at === latest.created_at && event.id < latest.id)
+    ) {
+      latest = event;
+    }
+  }
+  return latest;
+}
+
+// Kind 10002 marks r tags as read or write (unmarked means both); other relay lists use plain relay tags
+export function parseRelayList(event: NostrEvent): RelayListEntry[] {
+  const entries: RelayListEntry[] = [];
+
+  for (const tag of event.tags) {
+    if ((tag[0] !== 'r' && tag[0] !== 'relay') || !tag[1]) continue;
+
+    const marker = tag[0] === 'r' ? tag[2] : undefined;
+    const usage = marker === 'read' || marker === 'write' ? marker : 'both';
+    const normalized = normalizeRelayUrl(tag[1]);
+    const url = normalized ?? tag[1];
+
+    const existing = entries.find(e => e.url === url);
+    if (existing) {
+      if (existing.usage !== usage) existing.usage = 'both';
+    } else {
+      entries.push({ url, usage, valid: normalized !== null });
+    }
+  }
+
+  return entries;
+}
+
+export function relayInfoUrl(relay: string): string | null {
+  const normalized = normalizeRelayUrl(relay);
+  if (!normalized) return null;
+  return normalized.replace(/^ws/, 'http');
+}
+
+export interface RelayInfoOptions {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  // Allows probing a local HTTP stand-in or running under Node without a global fetch
+  fetchImpl?: typeof fetch;
+}
+
+export async function fetchRelayInfo(relay: string, options: RelayInfoOptions = {}): Promise<RelayInformation> {
+  const url = relayInfoUrl(relay);
+  if (!url) throw new Error(`Not a relay URL: ${relay}`);
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  options.signal?.addEventListener('abort', onAbort);
+  const timer = setTimeout(() => controller.abort(), options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+  try {
+    const fetchImpl = options.fetchImpl ?? globalThis.fetch;
+    const response = await fetchImpl(url, {
+      headers: { Accept: 'application/nostr+json' },
+      signal: controller.signal
+    });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+    const info = await response.json();
+    if (!info || typeof info !== 'object' || Array.isArray(info)) {
+      throw new Error('Response is not a relay information document');
+    }
+    return info as RelayInformation;
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new Error(options.signal?.aborted ? 'Probe cancelled' : 'Timed out');
+    }
+    throw new Error((error as Error).message || 'Request failed');
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+export async function probeRelay(
+  relay: string,
+  requiredNips: number[],
+  options: RelayInfoOptions = {}
+): Promise<RelayProbeResult> {
+  const startedAt = Date.now();
+  if (!relayInfoUrl(relay)) {
+    return { url: relay, info: null, error: 'Invalid relay URL', elapsedMs: 0, flags: ['invalid_url'], missingNips: [] };
+  }
+
+  try {
+    const info = await fetchRelayInfo(relay, options);
+    const flags: RelayFlag[] = [];
+    const supported = Array.isArray(info.supported_nips) ? info.supported_nips : [];
+    const missingNips = requiredNips.filter(nip => !supported.includes(nip));
+
+    if (info.limitation?.payment_required) flags.push('payment_required');
+    if (info.limitation?.auth_required) flags.push('auth_required');
+    if (info.limitation?.restricted_writes) flags.push('restricted_writes');
+    if (missingNips.length > 0) flags.push('missing_nips');
+
+    return { url: relay, info, elapsedMs: Date.now() - startedAt, flags, missingNips };
+  } catch (error) {
+    return {
+      url: relay,
+      info: null,
+      error: (error as Error).message,
+      elapsedMs: Date.now() - startedAt,
+      flags: ['unreachable'],
+      missingNips: []
+    };
+  }
+}
@@ -0,0 +1,196 @@
+import { base64url } from '@scure/base';
+import { NostrEvent, DecodedIdentifier, BatchParseResult, ParsedResult, IdentifierDecodeResult, HexInput } from '../types/nostr';
+import { parseInput, encodeBech32Identifier, decodeBech32Identifier, decodeBech32Strict } from './nostr';
+import { parseNip05, formatNip05 } from './formats';
+
+export type Route =
+  | { view: 'home' }
+  | { view: 'inspect'; event: NostrEvent }
+  | { view: 'decode'; identifier: DecodedIdentifier }
+  | { view: 'nip05'; address: string }
+  | { view: 'invalid'; result: IdentifierDecodeResult }
+  | { view: 'ncryptsec'; value: string }
+  | { view: 'hex'; input: HexInput }
+  | { view: 'batch'; batch: BatchParseResult }
+  | { view: 'encode'; identifier: DecodedIdentifier | null }
+  | { view: 'compose' }
+  // The secret is only passed in memory, never written to the URL
+  | { view: 'keys'; secretKey: string | null }
+  | { view: 'compare'; left: NostrEvent | null; right: NostrEvent | null };
+
+// Browsers handle far longer URLs, but anything past this is impractical to share
+const MAX_HASH_LENGTH = 64 * 1024;
+
+const IDENTIFIER_PATHS: Record<string, string> = {
+  note: 'e',
+  nevent: 'e',
+  npub: 'p',
+  nprofile: 'p',
+  naddr: 'a'
+};
+
+export function routeFromParsedResult(result: ParsedResult): Route {
+  switch (result.type) {
+    case 'event':
+      return { view: 'inspect', event: result.data };
+    case 'batch':
+      return { view: 'batch', batch: result.data };
+    case 'nip05':
+      return { view: 'nip05', address: result.data };
+    case 'invalid_identifier':
+      return { view: 'invalid', result: result.data };
+    case 'ncryptsec':
+      return { view: 'ncryptsec', value: result.data };
+    case 'hex':
+      return { view: 'hex', input: result.data };
+    case 'identifier':
+      return { view: 'decode', identifier: result.data };
+  }
+}
+
+// Returns null for routes that must not or cannot live in the URL (secret keys, oversized dumps)
+export function routeToHash(route: Route): string | null {
+  switch (route.view) {
+    case 'home':
+      return '#/';
+
+    case 'compose':
+      return '#/compose';
+
+    case 'keys':
+      return '#/keys';
+
+    case 'encode': {
+      const bech32 = route.identifier ? identifierToBech32(route.identifier) : null;
+      return bech32 ? `#/encode/${bech32}` : '#/encode';
+    }
+
+    case 'decode': {
+      const bech32 = identifierToBech32(route.identifier);
+      return bech32 ? `#/${IDENTIFIER_PATHS[route.identifier.type]}/${bech32}` : null;
+    }
+
+    case 'nip05':
+      return `#/p/${route.address}`;
+
+    case 'invalid':
+    case 'ncryptsec':
+    // Raw hex may be a secret key
+    case 'hex':
+      return null;
+
+    case 'inspect':
+      return limitLength(`#/json?data=${encodeData(JSON.stringify(route.event))}`);
+
+    case 'compare': {
+      const params = [
+        route.left ? `a=${encodeData(JSON.stringify(route.left))}` : null,
+        route.right ? `b=${encodeData(JSON.stringify(route.right))}` : null
+      ].filter(Boolean);
+      return limitLength(params.length > 0 ? `#/compare?${params.join('&')}` : '#/compare');
+    }
+
+    case 'batch':
+      return limitLength(`#/json?data=${encodeData(route.batch.events.map(e => JSON.stringify(e)).join('\n'))}`);
+  }
+}
+
+// The route kept in history.state, so back/forward can restore views the URL cannot hold.
+// Browsers may persist session history to disk, so routes carrying secrets are left out.
+export function routeToHistoryState(route: Route): Route | null {
+  switch (route.view) {
+    case 'keys':
+      return { view: 'keys', secretKey: null };
+    case 'decode':
+      return route.identifier.type === 'nsec' ? null : route;
+    case 'hex':
+      return route.input.type === 'key' ? null : route;
+    default:
+      return route;
+  }
+}
+
+export function parseHash(hash: string): Route {
+  const path = hash.replace(/^#\/?/, '');
+  const [head, ...rest] = path.split('/');
+  const value = rest.join('/');
+
+  // A hand-edited or truncated link can carry a malformed escape; that must not take the app down
+  const decoded = decodePathValue(value);
+  if (decoded === null) return { view: 'home' };
+
+  switch (head) {
+    case 'e':
+    case 'p':
+    case 'a': {
+      // Profile links may also carry a NIP-05 address, which never looks like bech32
+      const address = head === 'p' ? parseNip05(decoded) : null;
+      if (address) return { view: 'nip05', address: formatNip05(address) };
+
+      const result = decodeBech32Strict(decoded);
+      if (result.error && decoded) return { view: 'invalid', result };
+      return result.identifier && IDENTIFIER_PATHS[result.identifier.type] === head
+        ? { view: 'decode', identifier: result.identifier }
+        : { view: 'home' };
+    }
+
+    case 'encode':
+      return { view: 'encode', identifier: decoded ? decodeBech32Identifier(decoded) : null };
+
+    case 'compose':
+      return { view: 'compose' };
+
+    case 'keys':
+      return { view: 'keys', secretKey: null };
+
+    default:
+      if (head === 'compare' || head.startsWith('compare?')) {
+        const params = new URLSearchParams(head.slice('compare?'.length));
+        return { view: 'compare', left: eventFromParam(params.get('a')), right: eventFromParam(params.get('b')) };
+      }
+      if (head.startsWith('json')) {
+        const data = new URLSearchParams(head.slice(head.indexOf('?') + 1)).get('data');
+        const result = data ? parseInput(decodeData(data) ?? '') : null;
+        if (result) return routeFromParsedResult(result);
+      }
+      return { view: 'home' };
+  }
+}
+
+function identifierToBech32(identifier: DecodedIdentifier): string | null {
+  if (identifier.type === 'nsec') return null;
+  try {
+    return encodeBech32Identifier(identifier);
+  } catch {
+    return null;
+  }
+}
+
+function decodePathValue(value: string): string | null {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return null;
+  }
+}
+
+function encodeData(text: string): string {
+  return base64url.encode(new TextEncoder().encode(text));
+}
+
+function decodeData(data: string): string | null {
+  try {
+    return new TextDecoder().decode(base64url.decode(data));
+  } catch {
+    return null;
+  }
+}
+
+function eventFromParam(data: string | null): NostrEvent | null {
+  const result = data ? parseInput(decodeData(data) ?? '') : null;
+  return result?.type === 'event' ? result.data : null;
+}
+
+function limitLength(hash: string): string | null {
+  return hash.length <= MAX_HASH_LENGTH ? hash : null;
+}
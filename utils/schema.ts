@@ -0,0 +1,358 @@
+import { NostrEvent, KindCategory, KindSchema, TagSchema, TagValueFormat, LintIssue, TAG_MEANINGS } from '../types/nostr';
+import { analyzePow } from './pow';
+
+// Tags whose format is the same whatever kind they appear on
+const COMMON_TAGS: Record<string, TagSchema> = {
+  e: { name: 'e', format: 'hex64', multiple: true },
+  p: { name: 'p', format: 'hex64', multiple: true },
+  a: { name: 'a', format: 'address', multiple: true },
+  q: { name: 'q', format: 'event-or-address', multiple: true },
+  g: { name: 'g', format: 'geohash', multiple: true },
+  k: { name: 'k', format: 'kind', multiple: true },
+  t: { name: 't', format: 'text', multiple: true },
+  r: { name: 'r', format: 'url', multiple: true },
+  d: { name: 'd', format: 'text' },
+  nonce: { name: 'nonce', format: 'integer' },
+  expiration: { name: 'expiration', format: 'timestamp', meaning: 'Expiration timestamp (NIP-40)' },
+  published_at: { name: 'published_at', format: 'timestamp' },
+  image: { name: 'image', format: 'url', multiple: true },
+  thumb: { name: 'thumb', format: 'url', multiple: true },
+  url: { name: 'url', format: 'url', multiple: true },
+  relay: { name: 'relay', format: 'relay-url', multiple: true },
+  relays: { name: 'relays', format: 'relay-url' }
+};
+
+const SET_TAGS: TagSchema[] = [
+  { name: 'd', format: 'text', required: true },
+  { name: 'title', format: 'text', meaning: 'Set title' },
+  { name: 'description', format: 'text', meaning: 'Set description' }
+];
+
+const LIST: KindSchema = { nips: ['51'], content: 'encrypted', tags: [] };
+
+const LONG_FORM: KindSchema = {
+  nips: ['23'],
+  content: 'text',
+  tags: [
+    { name: 'd', format: 'text', required: true },
+    { name: 'title', format: 'text', meaning: 'Article title' },
+    { name: 'summary', format: 'text', meaning: 'Article summary' },
+    { name: 'image', format: 'url', meaning: 'Cover image URL' },
+    { name: 'published_at', format: 'timestamp', meaning: 'Original publication timestamp' }
+  ]
+};
+
+export const KIND_SCHEMAS: Record<number, KindSchema> = {
+  0: { nips: ['01'], content: 'json', tags: [] },
+  1: {
+    nips: ['01', '10'],
+    content: 'text',
+    tags: [{ name: 'e', format: 'hex64', multiple: true, markers: { position: 3, values: ['root', 'reply', 'mention'] } }]
+  },
+  2: { nips: ['01'], content: 'text', tags: [], deprecated: 'Recommend Relay is deprecated; use kind 10002' },
+  3: { nips: ['02'], tags: [{ name: 'p', format: 'hex64', multiple: true, meaning: 'Followed pubkey' }] },
+  4: { nips: ['04'], content: 'encrypted', tags: [{ name: 'p', format: 'hex64', required: true }], deprecated: 'NIP-04 DMs are deprecated in favour of NIP-17' },
+  5: { nips: ['09'], content: 'text', tags: [{ name: 'k', format: 'kind', multiple: true, meaning: 'Kind of the deleted events' }] },
+  6: { nips: ['18'], tags: [{ name: 'e', format: 'hex64', required: true }, { name: 'p', format: 'hex64', multiple: true }] },
+  7: { nips: ['25'], content: 'text', tags: [{ name: 'e', format: 'hex64', required: true, multiple: true }, { name: 'k', format: 'kind' }] },
+  13: { nips: ['59'], content: 'encrypted', tags: [] },
+  14: { nips: ['17'], content: 'text', tags: [{ name: 'p', format: 'hex64', required: true, multiple: true }] },
+  16: { nips: ['18'], tags: [{ name: 'e', format: 'hex64', required: true }, { name: 'k', format: 'kind', required: true }] },
+  20: { nips: ['68'], content: 'text', tags: [{ name: 'title', format: 'text' }, { name: 'imeta', format: 'text', required: true, multiple: true }] },
+  1063: {
+    nips: ['94'],
+    content: 'text',
+    tags: [
+      { name: 'url', format: 'url', required: true },
+      { name: 'm', format: 'text', required: true, meaning: 'MIME type' },
+      { name: 'x', format: 'hex64', required: true },
+      { name: 'ox', format: 'hex64', meaning: 'SHA256 of the original file' },
+      { name: 'size', format: 'integer' }
+    ]
+  },
+  1059: { nips: ['59'], content: 'encrypted', tags: [{ name: 'p', format: 'hex64', required: true }] },
+  1984: {
+    nips: ['56'],
+    content: 'text',
+    tags: [{ name: 'p', format: 'hex64', required: true, multiple: true, markers: { position: 2, values: ['nudity', 'malware', 'profanity', 'illegal', 'spam', 'impersonation', 'other'] } }]
+  },
+  1985: { nips: ['32'], tags: [{ name: 'L', format: 'text', multiple: true, meaning: 'Label namespace' }, { name: 'l', format: 'text', required: true, multiple: true, meaning: 'Label' }] },
+  9734: {
+    nips: ['57'],
+    content: 'text',
+    tags: [
+      { name: 'p', format: 'hex64', required: true },
+      { name: 'e', format: 'hex64' },
+      { name: 'relays', format: 'relay-url', required: true },
+      { name: 'amount', format: 'integer' },
+      { name: 'lnurl', format: 'text' }
+    ]
+  },
+  9735: {
+    nips: ['57'],
+    content: 'empty',
+    tags: [
+      { name: 'p', format: 'hex64', required: true },
+      { name: 'P', format: 'hex64', meaning: 'Zap sender pubkey' },
+      { name: 'e', format: 'hex64' },
+      { name: 'bolt11', format: 'text', required: true },
+      { name: 'description', format: 'text', required: true, meaning: 'JSON-encoded zap request' },
+      { name: 'preimage', format: 'hex64' }
+    ]
+  },
+  10000: LIST,
+  10001: LIST,
+  10002: {
+    nips: ['65'],
+    content: 'empty',
+    tags: [{ name: 'r', format: 'relay-url', multiple: true, meaning: 'Relay URL', markers: { position: 2, values: ['read', 'write'] } }]
+  },
+  10003: LIST,
+  10004: LIST,
+  10005: LIST,
+  10006: LIST,
+  10007: LIST,
+  10009: LIST,
+  10015: LIST,
+  10030: LIST,
+  10050: { nips: ['17'], content: 'empty', tags: [{ name: 'relay', format: 'relay-url', required: true, multiple: true }] },
+  30000: { nips: ['51'], content: 'encrypted', tags: SET_TAGS },
+  30001: { nips: ['51'], content: 'encrypted', tags: SET_TAGS },
+  30002: { nips: ['51'], content: 'encrypted', tags: SET_TAGS },
+  30003: { nips: ['51'], content: 'encrypted', tags: SET_TAGS },
+  30004: { nips: ['51'], content: 'encrypted', tags: SET_TAGS },
+  30015: { nips: ['51'], content: 'encrypted', tags: SET_TAGS },
+  30030: { nips: ['51'], content: 'encrypted', tags: SET_TAGS },
+  30023: LONG_FORM,
+  30024: LONG_FORM,
+  30402: {
+    nips: ['99'],
+    content: 'text',
+    tags: [
+      { name: 'd', format: 'text', required: true },
+      { name: 'title', format: 'text' },
+      { name: 'published_at', format: 'timestamp' },
+      { name: 'price', format: 'text', meaning: 'Price, currency and frequency' },
+      { name: 'status', format: 'text', values: ['active', 'sold'] }
+    ]
+  },
+  30818: { nips: ['54'], content: 'text', tags: [{ name: 'd', format: 'text', required: true }, { name: 'title', format: 'text' }] },
+  31922: {
+    nips: ['52'],
+    content: 'text',
+    tags: [
+      { name: 'd', format: 'text', required: true },
+      { name: 'title', format: 'text', required: true, meaning: 'Event title' },
+      { name: 'start', format: 'date', required: true, meaning: 'Start date (YYYY-MM-DD)' },
+      { name: 'end', format: 'date', meaning: 'End date, exclusive (YYYY-MM-DD)' },
+      { name: 'location', format: 'text', multiple: true }
+    ]
+  },
+  31923: {
+    nips: ['52'],
+    content: 'text',
+    tags: [
+      { name: 'd', format: 'text', required: true },
+      { name: 'title', format: 'text', required: true, meaning: 'Event title' },
+      { name: 'start', format: 'timestamp', required: true, meaning: 'Start time (unix seconds)' },
+      { name: 'end', format: 'timestamp', meaning: 'End time (unix seconds)' },
+      { name: 'start_tzid', format: 'text', meaning: 'IANA time zone of the start' },
+      { name: 'end_tzid', format: 'text', meaning: 'IANA time zone of the end' },
+      { name: 'D', format: 'integer', multiple: true, meaning: 'Day index (floor(unix / 86400))' },
+      { name: 'location', format: 'text', multiple: true }
+    ]
+  },
+  31924: { nips: ['52'], content: 'text', tags: [{ name: 'd', format: 'text', required: true }, { name: 'title', format: 'text', required: true }] },
+  31925: {
+    nips: ['52'],
+    content: 'text',
+    tags: [
+      { name: 'd', format: 'text', required: true },
+      { name: 'a', format: 'address', required: true },
+      { name: 'e', format: 'hex64' },
+      { name: 'status', format: 'text', required: true, values: ['accepted', 'declined', 'tentative'], meaning: 'RSVP status' },
+      { name: 'fb', format: 'text', values: ['free', 'busy'] }
+    ]
+  },
+  34550: {
+    nips: ['72'],
+    tags: [
+      { name: 'd', format: 'text', required: true },
+      { name: 'name', format: 'text', meaning: 'Community name' },
+      { name: 'description', format: 'text', meaning: 'Community description' },
+      { name: 'p', format: 'hex64', multiple: true, markers: { position: 3, values: ['moderator'] } }
+    ]
+  }
+};
+
+// Kind ranges from NIP-01; kinds 0 and 3 predate the replaceable range
+export function getKindCategory(kind: number): KindCategory {
+  if (kind === 0 || kind === 3 || (kind >= 10000 && kind < 20000)) return 'replaceable';
+  if (kind >= 20000 && kind < 30000) return 'ephemeral';
+  if (kind >= 30000 && kind < 40000) return 'addressable';
+  return 'regular';
+}
+
+export function getKindSchema(kind: number): KindSchema | null {
+  return KIND_SCHEMAS[kind] || null;
+}
+
+export function getTagSchema(kind: number, name: string): TagSchema | null {
+  return KIND_SCHEMAS[kind]?.tags.find(t => t.name === name) || COMMON_TAGS[name] || null;
+}
+
+export function getTagMeaning(kind: number, name: string): string | null {
+  return getTagSchema(kind, name)?.meaning || TAG_MEANINGS[name] || null;
+}
+
+export function matchesFormat(value: string, format: TagValueFormat): boolean {
+  switch (format) {
+    case 'hex64':
+      return /^[0-9a-f]{64}$/.test(value);
+    case 'url':
+      return isUrl(value, ['http:', 'https:']);
+    case 'relay-url':
+      return isUrl(value, ['ws:', 'wss:']);
+    case 'timestamp':
+      // Seconds, not milliseconds: anything past year 5000 is almost certainly ms
+      return /^\d+$/.test(value) && Number(value) < 95_617_584_000;
+    case 'integer':
+      return /^-?\d+$/.test(value);
+    case 'geohash':
+      return /^[0-9b-hjkmnp-z]{1,12}$/.test(value);
+    case 'address':
+      return /^\d+:[0-9a-f]{64}:.*$/s.test(value) && Number(value.split(':')[0]) <= 65535;
+    case 'event-or-address':
+      return matchesFormat(value, 'hex64') || matchesFormat(value, 'address');
+    case 'date':
+      return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`));
+    case 'kind':
+      return /^\d+$/.test(value) && Number(value) <= 65535;
+    default:
+      return true;
+  }
+}
+
+const FORMAT_DESCRIPTIONS: Record<TagValueFormat, string> = {
+  hex64: '64-character lowercase hex',
+  url: 'an http(s) URL',
+  'relay-url': 'a ws(s) relay URL',
+  timestamp: 'a unix timestamp in seconds',
+  integer: 'an integer',
+  geohash: 'a geohash',
+  address: 'an address (kind:pubkey:d-tag)',
+  'event-or-address': 'an event id or address',
+  date: 'a YYYY-MM-DD date',
+  kind: 'a kind number (0-65535)',
+  text: 'text'
+};
+
+export function lintEvent(event: NostrEvent, now: number = Math.floor(Date.now() / 1000)): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const schema = getKindSchema(event.kind);
+  const category = getKindCategory(event.kind);
+  const tags = Array.isArray(event.tags) ? event.tags.filter(Array.isArray) : [];
+
+  if (category === 'addressable' && !tags.some(t => t[0] === 'd')) {
+    issues.push({ severity: 'error', code: 'missing_d_tag', message: `Addressable kind ${event.kind} must have a d tag` });
+  }
+  if (schema?.deprecated) {
+    issues.push({ severity: 'warning', code: 'deprecated_kind', message: schema.deprecated });
+  }
+
+  schema?.tags
+    .filter(t => t.required && !(t.name === 'd' && category === 'addressable'))
+    .forEach(t => {
+      if (!tags.some(tag => tag[0] === t.name)) {
+        issues.push({ severity: 'warning', code: 'missing_tag', message: `Kind ${event.kind} should have a "${t.name}" tag` });
+      }
+    });
+
+  const seen = new Set<string>();
+  tags.forEach((tag, index) => {
+    const [name, value] = tag;
+    if (typeof name !== 'string' || name === '') {
+      issues.push({ severity: 'error', code: 'empty_tag_name', message: 'Tag has no name', tagIndex: index });
+      return;
+    }
+
+    const tagSchema = getTagSchema(event.kind, name);
+    if (!tagSchema) return;
+
+    if (seen.has(name) && !tagSchema.multiple) {
+      issues.push({ severity: 'warning', code: 'duplicate_tag', message: `"${name}" should appear only once`, tagIndex: index });
+    }
+    seen.add(name);
+
+    if (value === undefined) {
+      issues.push({ severity: 'warning', code: 'missing_value', message: `"${name}" tag has no value`, tagIndex: index });
+      return;
+    }
+    // The d tag of an addressable event may legitimately be empty
+    if (value === '' && name !== 'd' && tagSchema.format !== 'text') {
+      issues.push({ severity: 'warning', code: 'empty_value', message: `"${name}" tag has an empty value`, tagIndex: index });
+      return;
+    }
+    if (value !== '' && !matchesFormat(value, tagSchema.format)) {
+      issues.push({
+        severity: 'warning',
+        code: 'invalid_format',
+        message: `"${name}" value should be ${FORMAT_DESCRIPTIONS[tagSchema.format]}`,
+        tagIndex: index
+      });
+    }
+    if (tagSchema.values && !tagSchema.values.includes(value)) {
+      issues.push({
+        severity: 'warning',
+        code: 'unknown_value',
+        message: `"${name}" should be one of ${tagSchema.values.join(', ')}`,
+        tagIndex: index
+      });
+    }
+    const marker = tagSchema.markers && tag[tagSchema.markers.position];
+    if (marker && !tagSchema.markers!.values.includes(marker)) {
+      issues.push({
+        severity: 'warning',
+        code: 'unknown_marker',
+        message: `"${name}" marker "${marker}" is not one of ${tagSchema.markers!.values.join(', ')}`,
+        tagIndex: index
+      });
+    }
+    if (name === 'expiration' && matchesFormat(value, 'timestamp') && Number(value) < now) {
+      issues.push({ severity: 'info', code: 'expired', message: 'Event has expired; relays may drop it', tagIndex: index });
+    }
+  });
+
+  const pow = analyzePow(event);
+  if (pow.status === 'overclaimed') {
+    issues.push({
+      severity: 'error',
+      code: 'insufficient_pow',
+      message: `Commits to difficulty ${pow.target} but the id has only ${pow.difficulty} leading zero bits`,
+      tagIndex: pow.tagIndex!
+    });
+  } else if (pow.status === 'invalid_target') {
+    issues.push({ severity: 'warning', code: 'invalid_format', message: 'nonce target difficulty is not an integer', tagIndex: pow.tagIndex! });
+  }
+
+  if (schema?.content === 'json') {
+    try {
+      const parsed = JSON.parse(event.content);
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error();
+    } catch {
+      issues.push({ severity: 'warning', code: 'invalid_content', message: 'Content should be a JSON object' });
+    }
+  } else if (schema?.content === 'empty' && event.content !== '') {
+    issues.push({ severity: 'info', code: 'unexpected_content', message: `Kind ${event.kind} content is expected to be empty` });
+  }
+
+  return issues;
+}
+
+function isUrl(value: string, protocols: string[]): boolean {
+  try {
+    return protocols.includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
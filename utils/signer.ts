@@ -0,0 +1,66 @@
+import { schnorr } from '@noble/secp256k1';
+import { NostrEvent, EventTemplate, UnsignedEvent, Nip07Signer } from '../types/nostr';
+import { decodeBech32Identifier, computeEventId, bytesToHex, hexToBytes } from './nostr';
+
+declare global {
+  interface Window {
+    nostr?: Nip07Signer;
+  }
+}
+
+export function parseSecretKey(input: string): string {
+  const trimmed = input.trim();
+
+  if (trimmed.startsWith('nsec1')) {
+    const decoded = decodeBech32Identifier(trimmed);
+    if (!decoded || decoded.type !== 'nsec' || !decoded.data.pubkey) {
+      throw new Error('Invalid nsec');
+    }
+    return decoded.data.pubkey;
+  }
+
+  if (trimmed.match(/^[0-9a-f]{64}$/i)) {
+    return trimmed.toLowerCase();
+  }
+
+  throw new Error('Secret key must be an nsec or 64 hex characters');
+}
+
+export function getPublicKey(secretKey: string): string {
+  return bytesToHex(schnorr.getPublicKey(hexToBytes(secretKey)));
+}
+
+export async function finalizeTemplate(template: EventTemplate, pubkey: string): Promise<UnsignedEvent> {
+  const unsigned = {
+    pubkey,
+    created_at: template.created_at,
+    kind: template.kind,
+    tags: template.tags,
+    content: template.content
+  };
+  return { ...unsigned, id: await computeEventId(unsigned) };
+}
+
+export async function signEvent(template: EventTemplate, secretKey: string): Promise<NostrEvent> {
+  const unsigned = await finalizeTemplate(template, getPublicKey(secretKey));
+  const sig = await schnorr.sign(hexToBytes(unsigned.id), hexToBytes(secretKey));
+  return { ...unsigned, sig: bytesToHex(sig) };
+}
+
+export function hasNip07Signer(): boolean {
+  return typeof window !== 'undefined' && !!window.nostr;
+}
+
+export async function getNip07PublicKey(): Promise<string> {
+  if (!window.nostr) {
+    throw new Error('No NIP-07 signer found (window.nostr)');
+  }
+  return await window.nostr.getPublicKey();
+}
+
+export async function signWithNip07(template: EventTemplate): Promise<NostrEvent> {
+  if (!window.nostr) {
+    throw new Error('No NIP-07 signer found (window.nostr)');
+  }
+  return await window.nostr.signEvent(template);
+}
@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { NostrEvent } from '../types/nostr';
+import { analyzeThread, buildThreadTree } from './thread';
+
+const A = 'a'.repeat(64);
+const B = 'b'.repeat(64);
+const C = 'c'.repeat(64);
+const SELF = 'f'.repeat(64);
+const PUBKEY = '1'.repeat(64);
+
+// analyzeThread only reads tags and the id, so events need no valid signature here
+function reply(tags: string[][], id = SELF): NostrEvent {
+  return { id, pubkey: PUBKEY, created_at: 1700000000, kind: 1, tags: [...tags, ['p', PUBKEY]], content: '', sig: '0'.repeat(128) };
+}
+
+test('a mention-only e tag is marked and makes the event neither a reply nor a root', () => {
+  const analysis = analyzeThread(reply([['e', A, '', 'mention']]));
+
+  assert.equal(analysis.scheme, 'marked');
+  assert.equal(analysis.rootId, null);
+  assert.equal(analysis.parentId, null);
+  assert.deepEqual(analysis.tags.filter(t => t.tag[0] === 'e').map(t => t.role), ['mention']);
+  assert.deepEqual(analysis.warnings, []);
+});
+
+test('a mention-only event is not attached as a reply to the event it mentions', () => {
+  const mentioned = reply([], A);
+  const mentioning = reply([['e', A, '', 'mention']], B);
+
+  const tree = buildThreadTree([mentioned, mentioning], A, { events: [], statuses: [], seenOn: {} });
+
+  assert.deepEqual(tree.root.children, []);
+});
+
+test('root, reply and mention markers together are the marked scheme', () => {
+  const analysis = analyzeThread(reply([['e', A, '', 'root'], ['e', B, '', 'reply'], ['e', C, '', 'mention']]));
+
+  assert.equal(analysis.scheme, 'marked');
+  assert.equal(analysis.rootId, A);
+  assert.equal(analysis.parentId, B);
+  assert.deepEqual(analysis.tags.filter(t => t.tag[0] === 'e').map(t => t.role), ['root', 'reply', 'mention']);
+  assert.deepEqual(analysis.warnings, []);
+});
+
+test('one positional e tag is a direct reply to the root', () => {
+  const analysis = analyzeThread(reply([['e', A]]));
+
+  assert.equal(analysis.scheme, 'positional');
+  assert.equal(analysis.rootId, A);
+  assert.equal(analysis.parentId, A);
+  assert.deepEqual(analysis.warnings, ['Uses the deprecated positional e tag scheme']);
+});
+
+test('two positional e tags are root then reply target', () => {
+  const analysis = analyzeThread(reply([['e', A], ['e', B]]));
+
+  assert.equal(analysis.scheme, 'positional');
+  assert.equal(analysis.rootId, A);
+  assert.equal(analysis.parentId, B);
+  assert.deepEqual(analysis.tags.filter(t => t.tag[0] === 'e').map(t => t.role), ['root', 'reply']);
+});
+
+test('three positional e tags put the middle one as a mention and warn about ambiguity', () => {
+  const analysis = analyzeThread(reply([['e', A], ['e', C], ['e', B]]));
+
+  assert.equal(analysis.scheme, 'positional');
+  assert.equal(analysis.rootId, A);
+  assert.equal(analysis.parentId, B);
+  assert.deepEqual(analysis.tags.filter(t => t.tag[0] === 'e').map(t => t.role), ['root', 'mention', 'reply']);
+  assert.match(analysis.warnings.join('\n'), /several e tags/);
+});
+
+test('an event that names itself as root is flagged', () => {
+  const analysis = analyzeThread(reply([['e', SELF, '', 'root']]));
+
+  assert.equal(analysis.rootId, SELF);
+  assert.ok(analysis.warnings.includes('Event references itself as root or parent'));
+});
@@ -0,0 +1,187 @@
+import { NostrEvent, RelayQueryResult } from '../types/nostr';
+import { queryRelays, QueryOptions } from './relay';
+
+export type ThreadRole = 'root' | 'reply' | 'mention' | 'quote' | 'participant';
+
+export type ThreadScheme = 'marked' | 'positional' | 'mixed' | 'none';
+
+export interface ThreadTagInfo {
+  index: number;
+  tag: string[];
+  role: ThreadRole;
+  value: string;
+  relay?: string;
+  pubkey?: string;
+  marked: boolean;
+}
+
+export interface ThreadAnalysis {
+  scheme: ThreadScheme;
+  tags: ThreadTagInfo[];
+  rootId: string | null;
+  // The direct parent: the reply target, or the root for top-level replies
+  parentId: string | null;
+  warnings: string[];
+}
+
+export interface ThreadNode {
+  id: string;
+  event: NostrEvent | null;
+  parentId: string | null;
+  children: ThreadNode[];
+}
+
+export interface ThreadTree {
+  root: ThreadNode;
+  nodes: Record<string, ThreadNode>;
+  // Events whose parent could not be found on any relay
+  orphans: ThreadNode[];
+  result: RelayQueryResult;
+}
+
+const HEX_ID = /^[0-9a-f]{64}$/;
+const MARKERS = ['root', 'reply', 'mention'];
+
+export function analyzeThread(event: NostrEvent): ThreadAnalysis {
+  const warnings: string[] = [];
+  const tags: ThreadTagInfo[] = [];
+  const eTags = event.tags.map((tag, index) => ({ tag, index })).filter(({ tag }) => tag[0] === 'e');
+
+  // Any marker, mention included, means the marked scheme; which tags are root and reply is decided per tag below
+  const markedCount = eTags.filter(({ tag }) => tag[3] !== undefined && tag[3] !== '').length;
+  const scheme: ThreadScheme =
+    eTags.length === 0 ? 'none' : markedCount === 0 ? 'positional' : markedCount === eTags.length ? 'marked' : 'mixed';
+
+  let rootId: string | null = null;
+  let replyId: string | null = null;
+
+  eTags.forEach(({ tag, index }, position) => {
+    const [, value = '', relay, marker, pubkey] = tag;
+    const hasMarker = marker !== undefined && marker !== '';
+    let role: ThreadRole;
+
+    if (!HEX_ID.test(value)) {
+      warnings.push(`Tag ${index} has an invalid event id "${value}"`);
+    }
+    if (relay && !/^wss?:\/\//.test(relay)) {
+      warnings.push(`Tag ${index} has a relay hint that is not a ws(s) URL`);
+    }
+    if (hasMarker && !MARKERS.includes(marker)) {
+      warnings.push(`Tag ${index} has unknown marker "${marker}"`);
+    }
+    if (pubkey && !HEX_ID.test(pubkey)) {
+      warnings.push(`Tag ${index} has an invalid author pubkey in position 4`);
+    }
+
+    if (scheme === 'positional') {
+      // Deprecated scheme: first is root, last is the reply target, anything between is a mention
+      role = position === 0 ? 'root' : position === eTags.length - 1 ? 'reply' : 'mention';
+    } else if (marker === 'root' || marker === 'reply') {
+      role = marker;
+    } else {
+      role = 'mention';
+    }
+
+    if (role === 'root') {
+      if (rootId && rootId !== value) warnings.push(`Tag ${index} is a second root marker`);
+      rootId ??= value;
+    } else if (role === 'reply') {
+      if (replyId && replyId !== value) warnings.push(`Tag ${index} is a second reply marker`);
+      replyId ??= value;
+    }
+
+    tags.push({ index, tag, role, value, relay: relay || undefined, pubkey: pubkey || undefined, marked: hasMarker });
+  });
+
+  // Positional threads with one e tag mean a direct reply to the root
+  if (scheme === 'positional' && eTags.length === 1) replyId = null;
+
+  event.tags.forEach((tag, index) => {
+    if (tag[0] === 'q') {
+      tags.push({ index, tag, role: 'quote', value: tag[1] || '', relay: tag[2] || undefined, pubkey: tag[3] || undefined, marked: false });
+    } else if (tag[0] === 'p') {
+      if (!HEX_ID.test(tag[1] || '')) warnings.push(`Tag ${index} has an invalid pubkey`);
+      tags.push({ index, tag, role: 'participant', value: tag[1] || '', relay: tag[2] || undefined, marked: false });
+    }
+  });
+  tags.sort((a, b) => a.index - b.index);
+
+  if (scheme === 'positional') {
+    warnings.push(
+      eTags.length > 2
+        ? 'Uses the deprecated positional scheme with several e tags; mentions and reply target are ambiguous'
+        : 'Uses the deprecated positional e tag scheme'
+    );
+  }
+  if (scheme === 'mixed') {
+    warnings.push('Mixes marked and unmarked e tags; unmarked tags are treated as mentions');
+  }
+  if (scheme === 'marked' || scheme === 'mixed') {
+    if (replyId && !rootId) warnings.push('Has a reply marker but no root marker');
+    if (replyId && replyId === rootId) warnings.push('Reply marker repeats the root; top-level replies should only mark the root');
+  }
+  if (rootId === event.id || replyId === event.id) {
+    warnings.push('Event references itself as root or parent');
+  }
+  if ((rootId || replyId) && !event.tags.some(t => t[0] === 'p')) {
+    warnings.push('Replies should include p tags for the thread participants');
+  }
+
+  return { scheme, tags, rootId, parentId: replyId ?? rootId, warnings };
+}
+
+export async function fetchThread(event: NostrEvent, relays: string[], options: QueryOptions = {}): Promise<ThreadTree> {
+  const analysis = analyzeThread(event);
+  const rootId = analysis.rootId ?? event.id;
+  const knownIds = Array.from(new Set([rootId, analysis.parentId, event.id].filter((id): id is string => !!id && HEX_ID.test(id))));
+
+  const result = await queryRelays(
+    relays,
+    [
+      { ids: knownIds },
+      { kinds: [1], '#e': Array.from(new Set([rootId, event.id])), limit: 500 }
+    ],
+    options
+  );
+
+  return buildThreadTree([event, ...result.events], rootId, result);
+}
+
+export function buildThreadTree(events: NostrEvent[], rootId: string, result: RelayQueryResult): ThreadTree {
+  const nodes: Record<string, ThreadNode> = {};
+  const byId = new Map(events.map(e => [e.id, e]));
+
+  nodes[rootId] = { id: rootId, event: byId.get(rootId) ?? null, parentId: null, children: [] };
+  byId.forEach((event, id) => {
+    if (id === rootId) return;
+    nodes[id] = { id, event, parentId: analyzeThread(event).parentId, children: [] };
+  });
+
+  const orphans: ThreadNode[] = [];
+  Object.values(nodes).forEach(node => {
+    if (node.id === rootId) return;
+    const parent = node.parentId ? nodes[node.parentId] : undefined;
+    if (parent && parent !== node) {
+      parent.children.push(node);
+    } else {
+      orphans.push(node);
+    }
+  });
+
+  Object.values(nodes).forEach(node => {
+    node.children.sort((a, b) => (a.event?.created_at ?? 0) - (b.event?.created_at ?? 0));
+  });
+
+  return { root: nodes[rootId], nodes, orphans, result };
+}
+
+// Ids from the root down to (and including) the given node
+export function threadPath(tree: ThreadTree, id: string): string[] {
+  const path: string[] = [];
+  let current: ThreadNode | undefined = tree.nodes[id];
+  while (current && !path.includes(current.id)) {
+    path.unshift(current.id);
+    current = current.parentId ? tree.nodes[current.parentId] : undefined;
+  }
+  return path;
+}
@@ -0,0 +1,302 @@
+import { sha256 } from '@noble/hashes/sha256';
+import { bech32 } from '@scure/base';
+import { NostrEvent, ValidationResult } from '../types/nostr';
+import { bytesToHex, hexToBytes, isHex, isValidEventStructure, validateEvent } from './nostr';
+
+export interface Bolt11Invoice {
+  network: string;
+  amountMsat: number | null;
+  timestamp: number;
+  expiry: number;
+  paymentHash: string | null;
+  descriptionHash: string | null;
+  description: string | null;
+  payeeNodeKey: string | null;
+}
+
+export interface ZapCheck {
+  label: string;
+  status: 'pass' | 'fail' | 'skip';
+  detail: string;
+}
+
+export interface ZapAnalysis {
+  invoice: Bolt11Invoice | null;
+  invoiceError: string | null;
+  request: NostrEvent | null;
+  requestError: string | null;
+  requestValidation: ValidationResult | null;
+  checks: ZapCheck[];
+}
+
+// Multipliers from BOLT-11, expressed in millisatoshis per unit of the amount prefix
+const AMOUNT_MULTIPLIERS: Record<string, bigint> = {
+  '': 100_000_000_000n,
+  m: 100_000_000n,
+  u: 100_000n,
+  n: 100n
+};
+
+const SIGNATURE_WORDS = 104;
+const DEFAULT_EXPIRY = 3600;
+
+export function decodeBolt11(invoice: string): Bolt11Invoice {
+  const normalized = invoice.trim().toLowerCase().replace(/^lightning:/, '');
+  let decoded: { prefix: string; words: number[] };
+  try {
+    decoded = bech32.decode(normalized as `${string}1${string}`, false);
+  } catch (error) {
+    throw new Error(`Invalid bolt11 encoding: ${(error as Error).message}`);
+  }
+
+  const hrp = decoded.prefix.match(/^ln([a-z]+?)(?:(\d+)([munp]?))?$/);
+  if (!hrp) throw new Error(`Invalid bolt11 prefix: ${decoded.prefix}`);
+
+  const words = decoded.words;
+  if (words.length < 7 + SIGNATURE_WORDS) throw new Error('Invoice is too short');
+
+  const result: Bolt11Invoice = {
+    network: hrp[1],
+    amountMsat: hrp[2] ? parseAmount(hrp[2], hrp[3]) : null,
+    timestamp: wordsToNumber(words.slice(0, 7)),
+    expiry: DEFAULT_EXPIRY,
+    paymentHash: null,
+    descriptionHash: null,
+    description: null,
+    payeeNodeKey: null
+  };
+
+  const end = words.length - SIGNATURE_WORDS;
+  let pos = 7;
+  while (pos < end) {
+    if (pos + 3 > end) throw new Error('Truncated tagged field');
+    const type = words[pos];
+    const length = words[pos + 1] * 32 + words[pos + 2];
+    const data = words.slice(pos + 3, pos + 3 + length);
+    if (pos + 3 + length > end) throw new Error('Tagged field overruns signature');
+    pos += 3 + length;
+
+    // Field letters in the bech32 alphabet: p=1, x=6, d=13, n=19, h=23
+    switch (type) {
+      case 1:
+        if (length === 52) result.paymentHash = wordsToHex(data, 32);
+        break;
+      case 6:
+        result.expiry = wordsToNumber(data);
+        break;
+      case 13:
+        result.description = new TextDecoder().decode(wordsToBytes(data));
+        break;
+      case 19:
+        if (length === 53) result.payeeNodeKey = wordsToHex(data, 33);
+        break;
+      case 23:
+        if (length === 52) result.descriptionHash = wordsToHex(data, 32);
+        break;
+    }
+  }
+
+  return result;
+}
+
+export function formatMsats(msats: number): string {
+  const sats = msats / 1000;
+  return `${sats.toLocaleString(undefined, { maximumFractionDigits: 3 })} sat${sats === 1 ? '' : 's'}`;
+}
+
+export async function analyzeZapReceipt(receipt: NostrEvent): Promise<ZapAnalysis> {
+  const analysis: ZapAnalysis = {
+    invoice: null,
+    invoiceError: null,
+    request: null,
+    requestError: null,
+    requestValidation: null,
+    checks: []
+  };
+  const checks = analysis.checks;
+  const tag = (event: NostrEvent, name: string) => event.tags.find(t => t[0] === name)?.[1];
+
+  const bolt11 = tag(receipt, 'bolt11');
+  if (!bolt11) {
+    analysis.invoiceError = 'Receipt has no bolt11 tag';
+  } else {
+    try {
+      analysis.invoice = decodeBolt11(bolt11);
+    } catch (error) {
+      analysis.invoiceError = (error as Error).message;
+    }
+  }
+  checks.push(
+    analysis.invoice
+      ? { label: 'Invoice', status: 'pass', detail: 'bolt11 invoice decoded' }
+      : { label: 'Invoice', status: 'fail', detail: analysis.invoiceError || 'Invoice could not be decoded' }
+  );
+
+  const description = tag(receipt, 'description');
+  if (description === undefined) {
+    analysis.requestError = 'Receipt has no description tag';
+  } else {
+    try {
+      const parsed = JSON.parse(description);
+      if (!isValidEventStructure(parsed)) {
+        analysis.requestError = 'Description is not a Nostr event';
+      } else {
+        analysis.request = parsed;
+      }
+    } catch {
+      analysis.requestError = 'Description is not valid JSON';
+    }
+  }
+
+  const request = analysis.request;
+  if (!request) {
+    checks.push({ label: 'Zap request', status: 'fail', detail: analysis.requestError || 'Zap request missing' });
+  } else {
+    analysis.requestValidation = await validateEvent(request);
+    checks.push(...requestChecks(request, analysis.requestValidation));
+  }
+
+  const { invoice } = analysis;
+  if (invoice && description !== undefined) {
+    const actual = bytesToHex(sha256(new TextEncoder().encode(description)));
+    checks.push(
+      !invoice.descriptionHash
+        ? { label: 'Description hash', status: 'fail', detail: 'Invoice has no description hash (h) field' }
+        : actual === invoice.descriptionHash
+          ? { label: 'Description hash', status: 'pass', detail: 'sha256(description) matches the invoice' }
+          : { label: 'Description hash', status: 'fail', detail: `sha256(description) is ${actual}, invoice commits to ${invoice.descriptionHash}` }
+    );
+  }
+
+  if (invoice && request) {
+    const requested = tag(request, 'amount');
+    if (requested === undefined) {
+      checks.push({ label: 'Amount', status: 'skip', detail: 'Zap request has no amount tag' });
+    } else if (invoice.amountMsat === null) {
+      checks.push({ label: 'Amount', status: 'fail', detail: `Request asks for ${requested} msats but the invoice has no amount` });
+    } else if (Number(requested) === invoice.amountMsat) {
+      checks.push({ label: 'Amount', status: 'pass', detail: `${formatMsats(invoice.amountMsat)} requested and invoiced` });
+    } else {
+      checks.push({ label: 'Amount', status: 'fail', detail: `Request asks for ${requested} msats, invoice is for ${invoice.amountMsat} msats` });
+    }
+  }
+
+  if (request) {
+    for (const name of ['p', 'e', 'a']) {
+      const expected = tag(request, name);
+      const actual = tag(receipt, name);
+      if (expected === undefined && actual === undefined) continue;
+      checks.push(
+        expected === actual
+          ? { label: `Target (${name})`, status: 'pass', detail: `Receipt and request agree on ${actual}` }
+          : { label: `Target (${name})`, status: 'fail', detail: `Request has ${expected ?? 'none'}, receipt has ${actual ?? 'none'}` }
+      );
+    }
+
+    const sender = tag(receipt, 'P');
+    if (sender !== undefined) {
+      checks.push(
+        sender === request.pubkey
+          ? { label: 'Sender (P)', status: 'pass', detail: 'Receipt P tag matches the zap request author' }
+          : { label: 'Sender (P)', status: 'fail', detail: `Receipt P tag ${sender} is not the request author ${request.pubkey}` }
+      );
+    }
+  }
+
+  const preimage = tag(receipt, 'preimage');
+  if (preimage === undefined) {
+    checks.push({ label: 'Preimage', status: 'skip', detail: 'Receipt does not include a preimage' });
+  } else if (!isHex(preimage, 64)) {
+    checks.push({ label: 'Preimage', status: 'fail', detail: 'Preimage is not 32 bytes of hex' });
+  } else if (!invoice?.paymentHash) {
+    checks.push({ label: 'Preimage', status: 'skip', detail: 'No payment hash to compare against' });
+  } else {
+    const hash = bytesToHex(sha256(hexToBytes(preimage)));
+    checks.push(
+      hash === invoice.paymentHash
+        ? { label: 'Preimage', status: 'pass', detail: 'sha256(preimage) matches the payment hash' }
+        : { label: 'Preimage', status: 'fail', detail: `sha256(preimage) is ${hash}, payment hash is ${invoice.paymentHash}` }
+    );
+  }
+
+  return analysis;
+}
+
+export async function analyzeZapRequest(request: NostrEvent): Promise<ZapAnalysis> {
+  const requestValidation = await validateEvent(request);
+  return {
+    invoice: null,
+    invoiceError: null,
+    request,
+    requestError: null,
+    requestValidation,
+    checks: requestChecks(request, requestValidation)
+  };
+}
+
+// Structural rules for a kind 9734 from NIP-57 appendix D
+function requestChecks(request: NostrEvent, validation: ValidationResult): ZapCheck[] {
+  const checks: ZapCheck[] = [];
+  const count = (name: string) => request.tags.filter(t => t[0] === name).length;
+
+  checks.push(
+    request.kind === 9734
+      ? { label: 'Request kind', status: 'pass', detail: 'Embedded event is a kind 9734 zap request' }
+      : { label: 'Request kind', status: 'fail', detail: `Expected kind 9734, got ${request.kind}` }
+  );
+  checks.push(
+    validation.isValid
+      ? { label: 'Request signature', status: 'pass', detail: 'Zap request id and signature are valid' }
+      : { label: 'Request signature', status: 'fail', detail: validation.errors.join(', ') }
+  );
+  checks.push(
+    count('p') === 1
+      ? { label: 'Recipient', status: 'pass', detail: 'Exactly one p tag' }
+      : { label: 'Recipient', status: 'fail', detail: `Expected exactly one p tag, found ${count('p')}` }
+  );
+  if (count('e') > 1) {
+    checks.push({ label: 'Zapped event', status: 'fail', detail: `Expected at most one e tag, found ${count('e')}` });
+  }
+  if (count('relays') === 0) {
+    checks.push({ label: 'Relays', status: 'fail', detail: 'Missing relays tag for publishing the receipt' });
+  }
+  const amount = request.tags.find(t => t[0] === 'amount')?.[1];
+  if (amount !== undefined && !/^\d+$/.test(amount)) {
+    checks.push({ label: 'Amount', status: 'fail', detail: `Amount tag "${amount}" is not an integer number of msats` });
+  }
+
+  return checks;
+}
+
+function parseAmount(digits: string, multiplier: string): number {
+  const value = BigInt(digits);
+  if (multiplier === 'p') {
+    if (value % 10n !== 0n) throw new Error('Pico-BTC amount is not a whole number of millisatoshis');
+    return Number(value / 10n);
+  }
+  return Number(value * AMOUNT_MULTIPLIERS[multiplier]);
+}
+
+function wordsToNumber(words: number[]): number {
+  return words.reduce((acc, word) => acc * 32 + word, 0);
+}
+
+function wordsToBytes(words: number[]): Uint8Array {
+  // Tagged fields pad to a 5-bit boundary, so leftover bits are dropped rather than rejected
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const word of words) {
+    buffer = ((buffer << 5) | word) & 0xfff;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+function wordsToHex(words: number[], length: number): string {
+  return bytesToHex(wordsToBytes(words).slice(0, length));
+}